@@ -1,4 +1,4 @@
-import { query, type SDKMessage } from "@anthropic-ai/claude-code";
+import { query, type Options, type SDKMessage } from "@anthropic-ai/claude-code";
 
 interface CodeGenerationResult {
   success: boolean;
@@ -6,7 +6,11 @@ interface CodeGenerationResult {
   error?: string;
 }
 
-export async function generateCodeWithClaude(prompt: string): Promise<CodeGenerationResult> {
+// Overrides for the query options below, e.g. { model, maxTurns }
+export async function generateCodeWithClaude(
+  prompt: string,
+  overrides: Options = {}
+): Promise<CodeGenerationResult> {
   try {
     const messages: SDKMessage[] = [];
     const abortController = new AbortController();
@@ -29,7 +33,8 @@ export async function generateCodeWithClaude(prompt: string): Promise<CodeGenera
           "Grep",
           "WebSearch",
           "WebFetch"
-        ]
+        ],
+        ...overrides
       }
     })) {
       messages.push(message);
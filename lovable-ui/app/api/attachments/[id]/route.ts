@@ -0,0 +1,27 @@
+import * as fs from "fs";
+import { NextRequest } from "next/server";
+import { AttachmentError, attachmentPath, getAttachment } from "@/lib/attachments";
+import { JobNotFoundError, jobErrorResponse } from "@/lib/jobs";
+
+// Serves an attachment for the thumbnails in the chat
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const attachment = getAttachment(params.id);
+    if (!attachment) {
+      throw new JobNotFoundError(params.id, "Attachment");
+    }
+
+    return new Response(fs.readFileSync(attachmentPath(attachment)), {
+      headers: {
+        // Text is never rendered as a document of this origin
+        "Content-Type": attachment.mimeType.startsWith("image/") ? attachment.mimeType : "text/plain; charset=utf-8",
+        "Content-Disposition": `inline; filename="${encodeURIComponent(attachment.name)}"`,
+        "X-Content-Type-Options": "nosniff",
+        // Attachments never change
+        "Cache-Control": "private, max-age=31536000, immutable",
+      },
+    });
+  } catch (error: any) {
+    return jobErrorResponse(error instanceof AttachmentError ? new JobNotFoundError(params.id, "Attachment") : error);
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest } from "next/server";
+import { AttachmentError, MAX_ATTACHMENTS, checkAttachment, saveAttachment } from "@/lib/attachments";
+import { JobRequestError, jobErrorResponse } from "@/lib/jobs";
+
+// Uploads files as multipart/form-data, one or more "files" fields. Jobs refer to them by the returned ids
+export async function POST(req: NextRequest) {
+  try {
+    const form = await req.formData().catch(() => {
+      throw new JobRequestError("Expected a multipart/form-data body");
+    });
+    const files = form.getAll("files").filter((file): file is File => typeof file !== "string");
+    if (files.length === 0) {
+      throw new JobRequestError("No files uploaded");
+    }
+    if (files.length > MAX_ATTACHMENTS) {
+      throw new JobRequestError(`At most ${MAX_ATTACHMENTS} files can be attached to a prompt`);
+    }
+
+    // Every file is checked before any is stored or read into memory
+    files.forEach((file) => checkAttachment(file.name, file.type, file.size));
+    const attachments = [];
+    for (const file of files) {
+      attachments.push(saveAttachment(file.name, file.type, Buffer.from(await file.arrayBuffer())));
+    }
+    console.log(`[API] Stored ${attachments.length} attachment(s):`, attachments.map((a) => a.name).join(", "));
+
+    return new Response(JSON.stringify(attachments), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: any) {
+    return jobErrorResponse(error instanceof AttachmentError ? new JobRequestError(error.message) : error);
+  }
+}
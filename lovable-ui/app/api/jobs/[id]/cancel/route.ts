@@ -0,0 +1,18 @@
+import { NextRequest } from "next/server";
+import { getJobQueue, jobErrorResponse } from "@/lib/jobs";
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    // The body is optional, `{ "teardown": true }` also removes the job's sandbox
+    const { teardown = false } = await req.json().catch(() => ({}));
+    const job = await getJobQueue().cancel(params.id, { teardown: !!teardown });
+    console.log(`[API] Cancel requested for job ${job.id}${teardown ? " (with teardown)" : ""}`);
+
+    return new Response(JSON.stringify(job), {
+      status: 202,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: any) {
+    return jobErrorResponse(error);
+  }
+}
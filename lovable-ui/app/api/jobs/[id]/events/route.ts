@@ -0,0 +1,15 @@
+import { NextRequest } from "next/server";
+import { JobNotFoundError, getJob, getLastEventId, jobErrorResponse, jobEventsResponse } from "@/lib/jobs";
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    if (!getJob(params.id)) {
+      throw new JobNotFoundError(params.id);
+    }
+
+    // Reconnecting clients only get what they missed
+    return jobEventsResponse(params.id, { afterSeq: getLastEventId(req), signal: req.signal });
+  } catch (error: any) {
+    return jobErrorResponse(error);
+  }
+}
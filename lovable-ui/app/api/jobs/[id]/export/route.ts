@@ -0,0 +1,20 @@
+import { NextRequest } from "next/server";
+import { exportProjectZip, jobErrorResponse } from "@/lib/jobs";
+
+/** Downloads the job's project as a zip archive, `?log=1` adds Claude Code's transcript. */
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const archive = await exportProjectZip(params.id, { includeLog: !!req.nextUrl.searchParams.get("log") });
+    console.log(`[API] Exported the project of job ${params.id} as ${archive.fileName} (${archive.content.length} bytes)`);
+
+    return new Response(archive.content, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${archive.fileName}"`,
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error: any) {
+    return jobErrorResponse(error);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import { JobRequestError, jobErrorResponse, listProjectFiles, readProjectFile, writeProjectFile } from "@/lib/jobs";
+
+/** Lists the files of the job's project, or reads the one given by ?path=. */
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const filePath = req.nextUrl.searchParams.get("path");
+    const body = filePath !== null ? await readProjectFile(params.id, filePath) : await listProjectFiles(params.id);
+
+    return new Response(JSON.stringify(body), {
+      headers: { "Content-Type": "application/json", "Cache-Control": "no-cache" },
+    });
+  } catch (error: any) {
+    return jobErrorResponse(error);
+  }
+}
+
+/** Saves the file given by ?path= edited by hand, `{ "content": "..." }`. */
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const filePath = req.nextUrl.searchParams.get("path");
+    if (filePath === null) {
+      throw new JobRequestError("path is required");
+    }
+    const { content } = await req.json();
+    const saved = await writeProjectFile(params.id, filePath, content);
+    console.log(`[API] Saved ${filePath} of job ${params.id}${saved.publishedVersion ? `, published ${saved.publishedVersion}` : ""}`);
+
+    return new Response(JSON.stringify(saved), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: any) {
+    return jobErrorResponse(error);
+  }
+}
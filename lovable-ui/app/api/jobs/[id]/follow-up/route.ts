@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server";
+import { jobErrorResponse, submitFollowUp } from "@/lib/jobs";
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { prompt, options, attachments } = await req.json();
+    const job = submitFollowUp(params.id, prompt, options, attachments);
+    console.log(`[API] Queued follow-up job ${job.id} of ${params.id} for prompt:`, prompt);
+
+    return new Response(JSON.stringify(job), {
+      status: 202,
+      headers: { "Content-Type": "application/json", Location: `/api/jobs/${job.id}` },
+    });
+  } catch (error: any) {
+    return jobErrorResponse(error);
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server";
+import { jobErrorResponse, switchBranch } from "@/lib/jobs";
+
+/** Switches the job's project to another branch, `{ "branch": "..." }`. */
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { branch } = await req.json();
+    const update = await switchBranch(params.id, branch);
+    console.log(`[API] Switched the project of job ${params.id} to ${branch}`);
+
+    return new Response(JSON.stringify(update), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: any) {
+    return jobErrorResponse(error);
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server";
+import { forkProject, jobErrorResponse } from "@/lib/jobs";
+
+/** Starts a new branch at an earlier commit and switches to it, `{ "commit": "<hash>", "branch": "..." }`. */
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { commit, branch } = await req.json();
+    const update = await forkProject(params.id, commit, branch);
+    console.log(`[API] Forked the project of job ${params.id} from ${commit} as ${update.history.branch}`);
+
+    return new Response(JSON.stringify(update), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: any) {
+    return jobErrorResponse(error);
+  }
+}
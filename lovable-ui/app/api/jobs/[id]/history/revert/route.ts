@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server";
+import { jobErrorResponse, revertProject } from "@/lib/jobs";
+
+/** Restores the files of an earlier commit, `{ "commit": "<hash>" }`. */
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { commit } = await req.json();
+    const update = await revertProject(params.id, commit);
+    console.log(`[API] Reverted the project of job ${params.id} to ${commit}`);
+
+    return new Response(JSON.stringify(update), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: any) {
+    return jobErrorResponse(error);
+  }
+}
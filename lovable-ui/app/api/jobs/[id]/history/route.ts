@@ -0,0 +1,15 @@
+import { NextRequest } from "next/server";
+import { getProjectHistory, jobErrorResponse } from "@/lib/jobs";
+
+/** The commits of the job's project on its current branch, newest first, and its branches. */
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const history = await getProjectHistory(params.id);
+
+    return new Response(JSON.stringify(history), {
+      headers: { "Content-Type": "application/json", "Cache-Control": "no-cache" },
+    });
+  } catch (error: any) {
+    return jobErrorResponse(error);
+  }
+}
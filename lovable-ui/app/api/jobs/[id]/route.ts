@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server";
+import { JobNotFoundError, getJob, jobErrorResponse } from "@/lib/jobs";
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const job = getJob(params.id);
+    if (!job) {
+      throw new JobNotFoundError(params.id);
+    }
+
+    return new Response(JSON.stringify(job), {
+      headers: { "Content-Type": "application/json", "Cache-Control": "no-cache" },
+    });
+  } catch (error: any) {
+    return jobErrorResponse(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest } from "next/server";
+import {
+  JobNotFoundError,
+  getJob,
+  getTranscript,
+  jobErrorResponse,
+  readJobEvents,
+  type JobTranscript,
+} from "@/lib/jobs";
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const job = getJob(params.id);
+    if (!job) {
+      throw new JobNotFoundError(params.id);
+    }
+
+    const transcript: JobTranscript = {
+      job,
+      events: readJobEvents(params.id),
+      runs: getTranscript(params.id),
+    };
+    const headers: Record<string, string> = { "Content-Type": "application/json", "Cache-Control": "no-cache" };
+    // ?download=1 saves the file instead, e.g. to attach it to a review
+    if (req.nextUrl.searchParams.get("download")) {
+      headers["Content-Disposition"] = `attachment; filename="job-${job.id}.json"`;
+    }
+
+    return new Response(JSON.stringify(transcript, null, 2), { headers });
+  } catch (error: any) {
+    return jobErrorResponse(error);
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest } from "next/server";
+import { jobErrorResponse, submitJob, submitVariants } from "@/lib/jobs";
+
+export async function POST(req: NextRequest) {
+  try {
+    const { kind = "component", prompt, options, component, variants, attachments } = await req.json();
+
+    if (variants !== undefined) {
+      const group = submitVariants(kind, prompt, options, component, variants, attachments);
+      console.log(`[API] Queued ${group.jobIds.length} ${group.kind} variants (group ${group.id}) for prompt:`, prompt);
+
+      return new Response(JSON.stringify(group), {
+        status: 202,
+        headers: { "Content-Type": "application/json", Location: `/api/variants/${group.id}` },
+      });
+    }
+
+    const job = submitJob(kind, prompt, options, component, attachments);
+    console.log(`[API] Queued ${job.kind} job ${job.id} for prompt:`, prompt);
+
+    return new Response(JSON.stringify(job), {
+      status: 202,
+      headers: { "Content-Type": "application/json", Location: `/api/jobs/${job.id}` },
+    });
+  } catch (error: any) {
+    return jobErrorResponse(error);
+  }
+}
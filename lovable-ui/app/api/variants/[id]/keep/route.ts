@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server";
+import { jobErrorResponse, keepVariant } from "@/lib/jobs";
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    // `{ "discard": false }` keeps the sandboxes of the other variants around
+    const { jobId, discard = true } = await req.json();
+    const group = await keepVariant(params.id, jobId, discard !== false);
+    console.log(`[API] Kept variant ${jobId} of group ${group.id}`);
+
+    return new Response(JSON.stringify(group), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: any) {
+    return jobErrorResponse(error);
+  }
+}
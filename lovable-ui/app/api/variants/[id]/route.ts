@@ -0,0 +1,18 @@
+import { NextRequest } from "next/server";
+import { JobNotFoundError, getJob, getVariantGroup, jobErrorResponse, type Job } from "@/lib/jobs";
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const group = getVariantGroup(params.id);
+    if (!group) {
+      throw new JobNotFoundError(params.id, "Variant group");
+    }
+    const jobs = group.jobIds.map((jobId) => getJob(jobId)).filter((job): job is Job => !!job);
+
+    return new Response(JSON.stringify({ ...group, jobs }), {
+      headers: { "Content-Type": "application/json", "Cache-Control": "no-cache" },
+    });
+  } catch (error: any) {
+    return jobErrorResponse(error);
+  }
+}
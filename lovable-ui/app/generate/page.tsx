@@ -1,31 +1,100 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
+import { AttachButton, AttachmentList } from "@/components/Attachments";
+import { ChangedFiles, FileEditCard } from "@/components/DiffView";
+import FileExplorer from "@/components/FileExplorer";
 import Navbar from "@/components/Navbar";
+import ProjectHistory from "@/components/ProjectHistory";
+import VariantGrid from "@/components/VariantGrid";
+import { FILE_EDIT_TOOLS, summarizeFileEdits, trackFileEdits, type ChangedFile, type FileEdit } from "@/lib/diff";
+import { createLineSplitter, validateEvent, type GenerationEvent } from "@/lib/events";
+import { addUsage, emptyUsage, formatCost, usageFromEvent, type Usage } from "@/lib/usage";
+import type { Attachment } from "@/lib/attachments";
 
-interface Message {
-  type: "claude_message" | "tool_use" | "tool_result" | "progress" | "error" | "complete";
-  content?: string;
-  name?: string;
-  input?: any;
-  result?: any;
-  message?: string;
-  previewUrl?: string;
-  sandboxId?: string;
-}
+type Message =
+  | Exclude<GenerationEvent, { type: "complete" | "error" | "usage" }>
+  | { type: "user_prompt"; text: string; attachments?: Attachment[] };
+
+// Given to the variants in turn when the home page asks for different directions
+const DESIGN_DIRECTIONS = [
+  "Minimal and clean, lots of whitespace",
+  "Bold and colorful, strong contrast",
+  "Playful, rounded shapes and soft colors",
+  "Elegant and dark, refined typography",
+];
+
+// Reconnects after a dropped stream before giving up on the job
+const MAX_RECONNECT_ATTEMPTS = 5;
 
 export default function GeneratePage() {
   const searchParams = useSearchParams();
   const router = useRouter();
-  const prompt = searchParams.get("prompt") || "";
+  const jobId = searchParams.get("job");
+  const variantGroupId = searchParams.get("group");
   
+  const [prompt, setPrompt] = useState(searchParams.get("prompt") || "");
   const [messages, setMessages] = useState<Message[]>([]);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [isStopping, setIsStopping] = useState(false);
+  const [removeSandboxOnStop, setRemoveSandboxOnStop] = useState(false);
+  const [followUpPrompt, setFollowUpPrompt] = useState("");
+  // Attached to the first prompt, and to the next follow-up
+  const [promptAttachments, setPromptAttachments] = useState<Attachment[]>([]);
+  const [followUpAttachments, setFollowUpAttachments] = useState<Attachment[]>([]);
+  // Follow-ups need a finished, successful job to continue from
+  const [canFollowUp, setCanFollowUp] = useState(false);
+  // Bumped to reload the preview after each turn
+  const [previewVersion, setPreviewVersion] = useState(0);
+  // Spent by every turn of this conversation so far
+  const [usage, setUsage] = useState<Usage | null>(null);
+  const [rightPanel, setRightPanel] = useState<"preview" | "code" | "history">("preview");
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const hasStartedRef = useRef(false);
+  const lastEventIdRef = useRef(0);
+  
+  // What each Write, Edit and MultiEdit call changed, against the file before it
+  const fileEdits = useMemo(() => trackFileEdits(messages), [messages]);
+  // Files changed by each run, keyed by the index of the message the run ends before
+  const changedFiles = useMemo(() => {
+    const runs: Record<number, ChangedFile[]> = {};
+    let runEdits: FileEdit[] = [];
+    messages.forEach((message, index) => {
+      if (message.type === "user_prompt") {
+        runs[index] = summarizeFileEdits(runEdits);
+        runEdits = [];
+      }
+      const edit = fileEdits.get(message);
+      if (edit) runEdits.push(edit);
+    });
+    runs[messages.length] = summarizeFileEdits(runEdits);
+    return runs;
+  }, [messages, fileEdits]);
+  
+  // Files each finished tool call or stage may have changed, "" when it could be any file
+  const fileChanges = useMemo(() => {
+    const toolCalls: Record<string, { name: string; input: any }> = {};
+    const changes: string[] = [];
+    messages.forEach((message) => {
+      if (message.type === "tool_use" && message.id) {
+        toolCalls[message.id] = message;
+      } else if (message.type === "tool_result" && message.toolUseId && toolCalls[message.toolUseId]) {
+        const { name, input } = toolCalls[message.toolUseId];
+        if (FILE_EDIT_TOOLS.includes(name)) {
+          changes.push(input?.file_path || "");
+        } else if (name === "Bash") {
+          changes.push("");
+        }
+      } else if (message.type === "stage_finished") {
+        changes.push("");
+      }
+    });
+    return changes;
+  }, [messages]);
   
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -36,7 +105,7 @@ export default function GeneratePage() {
   }, [messages]);
   
   useEffect(() => {
-    if (!prompt) {
+    if (!prompt && !jobId && !variantGroupId) {
       router.push("/");
       return;
     }
@@ -46,71 +115,255 @@ export default function GeneratePage() {
       return;
     }
     hasStartedRef.current = true;
+    // The variant grid follows its jobs itself
+    if (variantGroupId) {
+      return;
+    }
     
     setIsGenerating(true);
-    generateWebsite();
+    if (jobId) {
+      attachToChain(jobId);
+    } else {
+      generateWebsite();
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [prompt, router]);
+  }, [prompt, jobId, router]);
   
   const generateWebsite = async () => {
+    const variantCount = parseInt(searchParams.get("variants") || "1") || 1;
     try {
-      const response = await fetch("/api/generate-daytona", {
+      const response = await fetch("/api/jobs", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ prompt }),
+        body: JSON.stringify({
+          kind: "component",
+          prompt,
+          attachments: searchParams.get("attachments")?.split(",").filter(Boolean),
+          component: {
+            name: searchParams.get("name") || undefined,
+            onConflict: searchParams.get("onConflict") || undefined,
+            type: searchParams.get("type") || undefined,
+            template: searchParams.get("template") || undefined,
+          },
+          ...(variantCount > 1
+            ? {
+                variants: searchParams.get("directions")
+                  ? DESIGN_DIRECTIONS.slice(0, variantCount).map((style) => ({ style }))
+                  : variantCount,
+              }
+            : {}),
+        }),
       });
 
+      const job = await response.json();
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Failed to generate website");
+        throw new Error(job.error || "Failed to generate website");
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
+      if (variantCount > 1) {
+        // Variants are compared in a grid rather than followed one by one
+        router.replace(`/generate?group=${job.id}`);
+        setIsGenerating(false);
+        return;
+      }
 
-      if (!reader) {
-        throw new Error("No response body");
+      // A reload now reattaches to this job instead of starting another one
+      router.replace(`/generate?job=${job.id}`);
+      await attachToJob(job.id);
+    } catch (err: any) {
+      console.error("Error generating website:", err);
+      setError(err.message || "An error occurred");
+      setIsGenerating(false);
+    }
+  };
+  
+  const fetchJob = async (id: string) => {
+    const response = await fetch(`/api/jobs/${id}`);
+    const job = await response.json();
+    if (!response.ok) {
+      throw new Error(job.error || "Generation job not found");
+    }
+    return job;
+  };
+  
+  /** Follows a job after replaying the turns it continues, so a reloaded follow-up shows the whole conversation. */
+  const attachToChain = async (id: string) => {
+    try {
+      const chain = [await fetchJob(id)];
+      while (chain[0].parentJobId) {
+        chain.unshift(await fetchJob(chain[0].parentJobId));
+      }
+      for (const link of chain) {
+        // Like sending the follow-up did
+        setError(null);
+        setCanFollowUp(false);
+        setIsGenerating(true);
+        lastEventIdRef.current = 0;
+        if (!(await attachToJob(link.id))) return;
+      }
+    } catch (err: any) {
+      console.error("Error following generation:", err);
+      setError(err.message || "An error occurred");
+      setIsGenerating(false);
+    }
+  };
+  
+  /** Follows a job's events until it is done, returns false when they can't be read. */
+  const attachToJob = async (id: string) => {
+    try {
+      const job = await fetchJob(id);
+      if (job.parentJobId) {
+        setMessages((prev) => [...prev, { type: "user_prompt", text: job.prompt, attachments: job.attachments }]);
+      } else {
+        setPrompt(job.prompt);
+        setPromptAttachments(job.attachments || []);
       }
+      setActiveJobId(id);
 
+      let attempt = 0;
       while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+        const seenBefore = lastEventIdRef.current;
+        try {
+          if (await streamJobEvents(id)) return true;
+        } catch (err: any) {
+          console.error("Event stream interrupted:", err.message);
+        }
+
+        // Only count attempts that made no progress at all
+        attempt = lastEventIdRef.current > seenBefore ? 1 : attempt + 1;
+        if (attempt > MAX_RECONNECT_ATTEMPTS) {
+          throw new Error("Lost connection to the generation job");
+        }
+        await new Promise((resolve) => setTimeout(resolve, 1000 * attempt));
+      }
+    } catch (err: any) {
+      console.error("Error following generation:", err);
+      setError(err.message || "An error occurred");
+      setIsGenerating(false);
+      return false;
+    }
+  };
+  
+  /** Reads the job's events after the last one seen, returns true once the job is done. */
+  const streamJobEvents = async (id: string): Promise<boolean> => {
+    const response = await fetch(`/api/jobs/${id}/events`, {
+      headers: lastEventIdRef.current ? { "Last-Event-ID": String(lastEventIdRef.current) } : {},
+    });
 
-        const chunk = decoder.decode(value);
-        const lines = chunk.split("\n");
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to read generation events");
+    }
 
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            const data = line.slice(6);
+    const reader = response.body?.getReader();
+    const decoder = new TextDecoder();
 
-            if (data === "[DONE]") {
-              setIsGenerating(false);
-              break;
-            }
+    if (!reader) {
+      throw new Error("No response body");
+    }
 
-            try {
-              const message = JSON.parse(data) as Message;
-              
-              if (message.type === "error") {
-                throw new Error(message.message);
-              } else if (message.type === "complete") {
-                setPreviewUrl(message.previewUrl || null);
-                setIsGenerating(false);
-              } else {
-                setMessages((prev) => [...prev, message]);
-              }
-            } catch (e) {
-              // Ignore parse errors
-            }
-          }
-        }
+    let finished = false;
+    const lines = createLineSplitter((line) => {
+      if (line.startsWith("id: ")) {
+        lastEventIdRef.current = parseInt(line.slice(4)) || lastEventIdRef.current;
+        return;
       }
+      if (!line.startsWith("data: ")) return;
+      const data = line.slice(6);
+
+      if (data === "[DONE]") {
+        finished = true;
+        setIsGenerating(false);
+        return;
+      }
+
+      let event: GenerationEvent;
+      try {
+        event = validateEvent(JSON.parse(data));
+      } catch (e: any) {
+        console.error("Invalid generation event:", e.message, data);
+        return;
+      }
+
+      if (event.type === "error") {
+        setError(event.message);
+        setIsGenerating(false);
+      } else if (event.type === "complete") {
+        setPreviewUrl((current) => event.previewUrl || current);
+        setPreviewVersion((version) => version + 1);
+        setCanFollowUp(true);
+        setIsGenerating(false);
+      } else if (event.type === "usage") {
+        setUsage((total) => addUsage(total || emptyUsage(), usageFromEvent(event)));
+      } else {
+        setMessages((prev) => [...prev, event as Message]);
+      }
+    });
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      lines.push(decoder.decode(value, { stream: true }));
+    }
+    lines.flush();
+    return finished;
+  };
+  
+  const sendFollowUp = async () => {
+    const text = followUpPrompt.trim();
+    if (!text || !activeJobId || !canFollowUp) return;
+
+    try {
+      const response = await fetch(`/api/jobs/${activeJobId}/follow-up`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ prompt: text, attachments: followUpAttachments.map((attachment) => attachment.id) }),
+      });
+
+      const job = await response.json();
+      if (!response.ok) {
+        throw new Error(job.error || "Failed to send follow-up");
+      }
+
+      setFollowUpPrompt("");
+      setFollowUpAttachments([]);
+      setError(null);
+      setCanFollowUp(false);
+      setIsStopping(false);
+      setIsGenerating(true);
+      lastEventIdRef.current = 0;
+      router.replace(`/generate?job=${job.id}`);
+      await attachToJob(job.id);
     } catch (err: any) {
-      console.error("Error generating website:", err);
+      console.error("Error sending follow-up:", err);
       setError(err.message || "An error occurred");
-      setIsGenerating(false);
+    }
+  };
+  
+  const stopGeneration = async () => {
+    if (!activeJobId) return;
+    setIsStopping(true);
+    try {
+      const response = await fetch(`/api/jobs/${activeJobId}/cancel`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ teardown: removeSandboxOnStop }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to stop generation");
+      }
+      // The event stream reports the cancellation and ends
+    } catch (err: any) {
+      console.error("Error stopping generation:", err);
+      setError(err.message || "An error occurred");
+      setIsStopping(false);
     }
   };
   
@@ -142,6 +395,17 @@ export default function GeneratePage() {
     return JSON.stringify(input).substring(0, 100) + "...";
   };
 
+  if (variantGroupId) {
+    return (
+      <main className="h-screen bg-black flex flex-col overflow-hidden relative">
+        <Navbar />
+        {/* Spacer for navbar */}
+        <div className="h-16" />
+        <VariantGrid groupId={variantGroupId} />
+      </main>
+    );
+  }
+
   return (
     <main className="h-screen bg-black flex flex-col overflow-hidden relative">
       <Navbar />
@@ -155,13 +419,45 @@ export default function GeneratePage() {
           <div className="p-4 border-b border-gray-800">
             <h2 className="text-white font-semibold">Lovable</h2>
             <p className="text-gray-400 text-sm mt-1 break-words">{prompt}</p>
+            {promptAttachments.length > 0 && (
+              <div className="mt-2">
+                <AttachmentList attachments={promptAttachments} />
+              </div>
+            )}
+            {activeJobId && (
+              <a href={`/jobs/${activeJobId}`} className="text-gray-500 text-xs hover:text-gray-300">
+                View replay
+              </a>
+            )}
+            {usage && (
+              <p className="text-gray-500 text-xs mt-2">
+                {formatCost(usage.costUsd)} · {(usage.inputTokens + usage.outputTokens).toLocaleString()} tokens
+              </p>
+            )}
           </div>
           
           {/* Messages */}
           <div className="flex-1 overflow-y-auto p-4 space-y-4 overflow-x-hidden">
             {messages.map((message, index) => (
               <div key={index}>
-                {message.type === "claude_message" && (
+                {message.type === "user_prompt" && changedFiles[index]?.length > 0 && (
+                  <div className="mb-4">
+                    <ChangedFiles files={changedFiles[index]} />
+                  </div>
+                )}
+
+                {message.type === "user_prompt" && (
+                  <div className="bg-gray-800 rounded-lg p-4 ml-8">
+                    <p className="text-white whitespace-pre-wrap break-words">{message.text}</p>
+                    {message.attachments && message.attachments.length > 0 && (
+                      <div className="mt-3">
+                        <AttachmentList attachments={message.attachments} />
+                      </div>
+                    )}
+                  </div>
+                )}
+                
+                {message.type === "assistant_text" && (
                   <div className="bg-gray-900 rounded-lg p-4">
                     <div className="flex items-center gap-2 mb-2">
                       <div className="w-6 h-6 bg-purple-600 rounded-full flex items-center justify-center">
@@ -169,11 +465,15 @@ export default function GeneratePage() {
                       </div>
                       <span className="text-white font-medium">Lovable</span>
                     </div>
-                    <p className="text-gray-300 whitespace-pre-wrap break-words">{message.content}</p>
+                    <p className="text-gray-300 whitespace-pre-wrap break-words">{message.text}</p>
                   </div>
                 )}
                 
-                {message.type === "tool_use" && (
+                {message.type === "tool_use" && fileEdits.get(message) && (
+                  <FileEditCard edit={fileEdits.get(message)!} />
+                )}
+                
+                {message.type === "tool_use" && !fileEdits.get(message) && (
                   <div className="bg-gray-900/50 rounded-lg p-3 border border-gray-800 overflow-hidden">
                     <div className="flex items-start gap-2 text-sm">
                       <span className="text-blue-400 flex-shrink-0">🔧 {message.name}</span>
@@ -182,7 +482,25 @@ export default function GeneratePage() {
                   </div>
                 )}
                 
-                {message.type === "progress" && (
+                {message.type === "stage_started" && (
+                  <div className="text-gray-300 text-sm font-medium">
+                    ▸ {message.label}
+                  </div>
+                )}
+                
+                {message.type === "stage_finished" && !message.ok && (
+                  <div className="text-red-400 text-sm">
+                    ✗ {message.stage} failed{message.message ? `: ${message.message}` : ""}
+                  </div>
+                )}
+                
+                {message.type === "permission_denied" && (
+                  <div className="text-yellow-400 text-sm break-all">
+                    🚫 {message.tool} blocked: {message.message}
+                  </div>
+                )}
+
+                {message.type === "log" && (
                   <div className="text-gray-500 text-sm font-mono break-all">
                     {message.message}
                   </div>
@@ -190,10 +508,30 @@ export default function GeneratePage() {
               </div>
             ))}
             
+            <ChangedFiles files={changedFiles[messages.length] || []} />
+            
             {isGenerating && (
               <div className="flex items-center gap-2 text-gray-400">
                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-400"></div>
-                <span>Working...</span>
+                <span>{isStopping ? "Stopping..." : "Working..."}</span>
+                {activeJobId && !isStopping && (
+                  <div className="ml-auto flex items-center gap-3">
+                    <label className="flex items-center gap-1 text-xs text-gray-500">
+                      <input
+                        type="checkbox"
+                        checked={removeSandboxOnStop}
+                        onChange={(e) => setRemoveSandboxOnStop(e.target.checked)}
+                      />
+                      Remove sandbox
+                    </label>
+                    <button
+                      onClick={stopGeneration}
+                      className="px-3 py-1 text-sm text-red-400 border border-red-900 rounded-lg hover:bg-red-900/20"
+                    >
+                      Stop
+                    </button>
+                  </div>
+                )}
               </div>
             )}
             
@@ -208,49 +546,125 @@ export default function GeneratePage() {
           
           {/* Bottom input area */}
           <div className="p-4 border-t border-gray-800">
+            {followUpAttachments.length > 0 && (
+              <div className="mb-3">
+                <AttachmentList
+                  attachments={followUpAttachments}
+                  onRemove={(id) => setFollowUpAttachments((prev) => prev.filter((attachment) => attachment.id !== id))}
+                />
+              </div>
+            )}
             <div className="flex items-center gap-2">
+              <AttachButton
+                onAttach={(attachments) => setFollowUpAttachments((prev) => [...prev, ...attachments])}
+                onError={setError}
+                disabled={isGenerating || !canFollowUp}
+              />
               <input
                 type="text"
-                placeholder="Ask Lovable..."
+                placeholder={canFollowUp ? "Ask Lovable..." : "Waiting for the generation to finish..."}
+                value={followUpPrompt}
+                onChange={(e) => setFollowUpPrompt(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    sendFollowUp();
+                  }
+                }}
                 className="flex-1 px-4 py-2 bg-gray-900 text-white rounded-lg border border-gray-800 focus:outline-none focus:border-gray-700"
-                disabled={isGenerating}
+                disabled={isGenerating || !canFollowUp}
               />
-              <button className="p-2 text-gray-400 hover:text-gray-300">
+              <button
+                onClick={sendFollowUp}
+                disabled={isGenerating || !canFollowUp || !followUpPrompt.trim()}
+                title="Send"
+                className="p-2 text-gray-400 hover:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
                 <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h14M12 5l7 7-7 7" />
                 </svg>
               </button>
-              <button className="p-2 text-gray-400 hover:text-gray-300">
+              <button
+                onClick={() => setPreviewVersion((version) => version + 1)}
+                disabled={!previewUrl}
+                title="Reload preview"
+                className="p-2 text-gray-400 hover:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
                 <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
                 </svg>
               </button>
             </div>
           </div>
         </div>
         
-        {/* Right side - Preview */}
-        <div className="w-[70%] bg-gray-950 flex items-center justify-center">
-          {!previewUrl && isGenerating && (
-            <div className="text-center">
-              <div className="w-16 h-16 bg-gray-800 rounded-2xl flex items-center justify-center mb-4">
-                <div className="w-12 h-12 bg-gray-700 rounded-xl animate-pulse"></div>
-              </div>
-              <p className="text-gray-400">Spinning up preview...</p>
-            </div>
-          )}
-          
-          {previewUrl && (
-            <iframe
-              src={previewUrl}
-              className="w-full h-full"
-              title="Website Preview"
+        {/* Right side - Preview and code */}
+        <div className="w-[70%] bg-gray-950 flex flex-col">
+          <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-800 text-sm">
+            {(["preview", "code", "history"] as const).map((panel) => (
+              <button
+                key={panel}
+                onClick={() => setRightPanel(panel)}
+                disabled={panel !== "preview" && !activeJobId}
+                className={`px-3 py-1 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed ${
+                  rightPanel === panel ? "bg-gray-800 text-white" : "text-gray-400 hover:text-gray-300"
+                }`}
+              >
+                {panel === "preview" ? "Preview" : panel === "code" ? "Code" : "History"}
+              </button>
+            ))}
+            {/* Files are only complete once the turn has finished */}
+            {activeJobId && !isGenerating && (
+              <a
+                href={`/api/jobs/${activeJobId}/export`}
+                download
+                title="Download the project as a zip"
+                className="ml-auto px-3 py-1 rounded-lg text-gray-400 hover:text-gray-300"
+              >
+                Download
+              </a>
+            )}
+          </div>
+
+          {rightPanel === "code" && activeJobId ? (
+            <FileExplorer
+              jobId={activeJobId}
+              changes={fileChanges}
+              editable={!isGenerating}
+              // Dev servers hot reload, republished components need the preview to load again
+              onSaved={() => setPreviewVersion((version) => version + 1)}
             />
-          )}
+          ) : rightPanel === "history" && activeJobId ? (
+            <ProjectHistory
+              jobId={activeJobId}
+              editable={!isGenerating}
+              onChanged={() => setPreviewVersion((version) => version + 1)}
+            />
+          ) : (
+            <div className="flex-1 flex items-center justify-center">
+              {!previewUrl && isGenerating && (
+                <div className="text-center">
+                  <div className="w-16 h-16 bg-gray-800 rounded-2xl flex items-center justify-center mb-4">
+                    <div className="w-12 h-12 bg-gray-700 rounded-xl animate-pulse"></div>
+                  </div>
+                  <p className="text-gray-400">Spinning up preview...</p>
+                </div>
+              )}
+          
+              {previewUrl && (
+                <iframe
+                  key={previewVersion}
+                  src={previewUrl}
+                  className="w-full h-full"
+                  title="Website Preview"
+                />
+              )}
           
-          {!previewUrl && !isGenerating && (
-            <div className="text-center">
-              <p className="text-gray-400">Preview will appear here</p>
+              {!previewUrl && !isGenerating && (
+                <div className="text-center">
+                  <p className="text-gray-400">Preview will appear here</p>
+                </div>
+              )}
             </div>
           )}
         </div>
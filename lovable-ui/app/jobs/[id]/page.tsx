@@ -0,0 +1,254 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { ChangedFiles, FileEditCard } from "@/components/DiffView";
+import Navbar from "@/components/Navbar";
+import { summarizeFileEdits, trackFileEdits, type FileEdit } from "@/lib/diff";
+import type { JobEventRecord, JobTranscript } from "@/lib/jobs/types";
+import { formatCost } from "@/lib/usage";
+
+// Time between two events while the replay plays
+const PLAY_INTERVAL_MS = 400;
+
+function formatElapsed(from: string, to: string) {
+  const seconds = Math.max(0, Math.round((Date.parse(to) - Date.parse(from)) / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+function formatToolInput(input: any) {
+  if (!input) return "";
+  if (input.file_path) return `File: ${input.file_path}`;
+  if (input.command) return `Command: ${input.command}`;
+  if (input.pattern) return `Pattern: ${input.pattern}`;
+  return JSON.stringify(input).substring(0, 100);
+}
+
+function ReplayEvent({ record, edit }: { record: JobEventRecord; edit?: FileEdit }) {
+  const event = record.event;
+  if (edit) {
+    return <FileEditCard edit={edit} />;
+  }
+  switch (event.type) {
+    case "assistant_text":
+      return (
+        <div className="bg-gray-900 rounded-lg p-4">
+          <p className="text-gray-300 whitespace-pre-wrap break-words">{event.text}</p>
+        </div>
+      );
+    case "tool_use":
+      return (
+        <div className="bg-gray-900/50 rounded-lg p-3 border border-gray-800 overflow-hidden">
+          <div className="flex items-start gap-2 text-sm">
+            <span className="text-blue-400 flex-shrink-0">🔧 {event.name}</span>
+            <span className="text-gray-500 break-all">{formatToolInput(event.input)}</span>
+          </div>
+        </div>
+      );
+    case "stage_started":
+      return <div className="text-gray-300 text-sm font-medium">▸ {event.label}</div>;
+    case "stage_finished":
+      return event.ok ? (
+        <div className="text-green-500 text-sm">✓ {event.stage}</div>
+      ) : (
+        <div className="text-red-400 text-sm">
+          ✗ {event.stage} failed{event.message ? `: ${event.message}` : ""}
+        </div>
+      );
+    case "permission_denied":
+      return (
+        <div className="text-yellow-400 text-sm break-all">
+          🚫 {event.tool} blocked: {event.message}
+        </div>
+      );
+    case "usage":
+      return (
+        <div className="text-gray-500 text-xs">
+          {formatCost(event.costUsd)} · {(event.inputTokens + event.outputTokens).toLocaleString()} tokens
+          {event.estimated ? " (estimated)" : ""}
+        </div>
+      );
+    case "error":
+      return (
+        <div className="bg-red-900/20 border border-red-700 rounded-lg p-4">
+          <p className="text-red-400">{event.message}</p>
+        </div>
+      );
+    case "complete":
+      return <div className="text-green-500 text-sm">✓ Complete</div>;
+    case "artifact":
+      return (
+        <div className="text-gray-500 text-sm break-all">
+          📦 {event.kind === "sandbox" ? `Sandbox ${event.sandboxId}` : event.kind === "component" ? `${event.name} ${event.url}` : event.url}
+        </div>
+      );
+    case "log":
+      return <div className="text-gray-500 text-sm font-mono break-all">{event.message}</div>;
+    default:
+      return null;
+  }
+}
+
+/** Replays the recorded events of a finished (or running) job, for debugging and reviews. */
+export default function JobReplayPage({ params }: { params: { id: string } }) {
+  const [transcript, setTranscript] = useState<JobTranscript | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Number of events shown, the scrubber position
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/jobs/${params.id}/transcript`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Job not found");
+        }
+        setTranscript(data);
+        setPosition(data.events.length);
+      } catch (err: any) {
+        console.error("Error loading job transcript:", err);
+        setError(err.message || "An error occurred");
+      }
+    };
+    load();
+  }, [params.id]);
+
+  useEffect(() => {
+    if (!isPlaying || !transcript) return;
+    if (position >= transcript.events.length) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setPosition((current) => current + 1), PLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, position, transcript]);
+
+  const togglePlay = () => {
+    // Playing from the end starts over
+    if (!isPlaying && transcript && position >= transcript.events.length) {
+      setPosition(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const events = transcript?.events || [];
+  const fileEdits = useMemo(() => trackFileEdits((transcript?.events || []).map((record) => record.event)), [transcript]);
+  const changedFiles = useMemo(
+    () =>
+      summarizeFileEdits(
+        (transcript?.events || []).map((record) => fileEdits.get(record.event)).filter((edit): edit is FileEdit => !!edit)
+      ),
+    [transcript, fileEdits]
+  );
+  const shown = events.slice(0, position);
+  const current = shown[shown.length - 1];
+  const job = transcript?.job;
+
+  return (
+    <main className="h-screen bg-black flex flex-col overflow-hidden relative">
+      <Navbar />
+      {/* Spacer for navbar */}
+      <div className="h-16" />
+
+      <div className="flex-1 flex overflow-hidden">
+        {/* Left side - Timeline */}
+        <div className="w-[60%] flex flex-col border-r border-gray-800">
+          <div className="p-4 border-b border-gray-800 flex items-center gap-3">
+            <button
+              onClick={togglePlay}
+              disabled={events.length === 0}
+              className="px-3 py-1 text-sm text-white border border-gray-700 rounded-lg hover:bg-gray-800 disabled:opacity-50"
+            >
+              {isPlaying ? "Pause" : "Play"}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={events.length}
+              value={position}
+              onChange={(e) => {
+                setIsPlaying(false);
+                setPosition(Number(e.target.value));
+              }}
+              className="flex-1"
+            />
+            <span className="text-gray-500 text-xs w-28 text-right">
+              {position} / {events.length}
+              {current && events[0] ? ` · ${formatElapsed(events[0].ts, current.ts)}` : ""}
+            </span>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-4 overflow-x-hidden">
+            {shown.map((record, index) => (
+              <div
+                key={record.seq}
+                onClick={() => {
+                  setIsPlaying(false);
+                  setPosition(index + 1);
+                }}
+                className={`cursor-pointer ${record.seq === current?.seq ? "ring-1 ring-gray-600 rounded-lg" : ""}`}
+              >
+                <ReplayEvent record={record} edit={fileEdits.get(record.event)} />
+              </div>
+            ))}
+
+            {error && (
+              <div className="bg-red-900/20 border border-red-700 rounded-lg p-4">
+                <p className="text-red-400">{error}</p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Right side - Job details and Claude Code transcripts */}
+        <div className="w-[40%] overflow-y-auto p-4 space-y-4">
+          {job && (
+            <div className="space-y-1">
+              <h2 className="text-white font-semibold">
+                {job.kind} job · {job.status}
+              </h2>
+              <p className="text-gray-400 text-sm break-words">{job.prompt}</p>
+              <p className="text-gray-500 text-xs">
+                {new Date(job.createdAt).toLocaleString()}
+                {job.usage ? ` · ${formatCost(job.usage.costUsd)}` : ""}
+                {job.options?.model ? ` · ${job.options.model}` : ""}
+              </p>
+              {job.error && <p className="text-red-400 text-sm">{job.error.message}</p>}
+              <div className="flex gap-4 text-sm pt-2">
+                <a href={`/api/jobs/${job.id}/transcript?download=1`} className="text-blue-400 hover:text-blue-300">
+                  Download
+                </a>
+                {job.parentJobId && (
+                  <a href={`/jobs/${job.parentJobId}`} className="text-blue-400 hover:text-blue-300">
+                    Previous turn
+                  </a>
+                )}
+                <a href={`/generate?job=${job.id}`} className="text-blue-400 hover:text-blue-300">
+                  Open in generator
+                </a>
+              </div>
+            </div>
+          )}
+
+          <ChangedFiles files={changedFiles} />
+
+          {transcript?.runs.map((run, index) => (
+            <details key={index} className="bg-gray-900/50 rounded-lg p-3 border border-gray-800">
+              <summary className="text-gray-300 text-sm cursor-pointer">
+                Claude Code {run.label} · {run.messages.length} messages
+              </summary>
+              <pre className="text-gray-400 text-xs mt-2 whitespace-pre-wrap break-all">
+                {JSON.stringify(run.messages, null, 2)}
+              </pre>
+            </details>
+          ))}
+
+          {transcript && transcript.runs.length === 0 && (
+            <p className="text-gray-500 text-sm">No Claude Code transcript was recorded for this job.</p>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
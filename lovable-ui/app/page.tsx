@@ -2,17 +2,47 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import { AttachButton, AttachmentList } from "@/components/Attachments";
 import Navbar from "@/components/Navbar";
+import type { Attachment } from "@/lib/attachments";
+import {
+  COMPONENT_TEMPLATES,
+  COMPONENT_TYPES,
+  type ComponentTemplate,
+  type ComponentType,
+} from "@/lib/components/templates";
 
 export default function Home() {
   const router = useRouter();
   const [prompt, setPrompt] = useState("");
+  // Proposed from the prompt when left empty
+  const [componentName, setComponentName] = useState("");
+  const [publishNewVersion, setPublishNewVersion] = useState(false);
+  const [componentType, setComponentType] = useState<ComponentType>("ui");
+  const [template, setTemplate] = useState<ComponentTemplate>("vanilla");
+  // More than one generates variants to compare side by side
+  const [variants, setVariants] = useState(1);
+  const [varyDirections, setVaryDirections] = useState(false);
+  // Screenshots, mockups or data files, already uploaded
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [uploadError, setUploadError] = useState<string | null>(null);
 
   const handleGenerate = () => {
     if (!prompt.trim()) return;
 
     // Navigate to generate page with prompt
-    router.push(`/generate?prompt=${encodeURIComponent(prompt)}`);
+    const params = new URLSearchParams({ prompt, type: componentType, template });
+    if (componentName.trim()) params.set("name", componentName.trim());
+    // Variants are published under names of their own
+    if (publishNewVersion && variants === 1) params.set("onConflict", "version");
+    if (attachments.length > 0) {
+      params.set("attachments", attachments.map((attachment) => attachment.id).join(","));
+    }
+    if (variants > 1) {
+      params.set("variants", String(variants));
+      if (varyDirections) params.set("directions", "1");
+    }
+    router.push(`/generate?${params}`);
   };
 
   return (
@@ -60,6 +90,16 @@ export default function Home() {
                 rows={3}
               />
 
+              {/* Attach button */}
+              <AttachButton
+                onAttach={(uploaded) => {
+                  setUploadError(null);
+                  setAttachments((prev) => [...prev, ...uploaded]);
+                }}
+                onError={setUploadError}
+                className="flex-shrink-0 mr-1 p-3 text-gray-400 hover:text-white rounded-xl disabled:opacity-50 disabled:cursor-not-allowed"
+              />
+
               {/* Send button */}
               <button
                 onClick={handleGenerate}
@@ -105,6 +145,84 @@ export default function Home() {
               </button>
             </div>
 
+            {/* Attachments */}
+            {(attachments.length > 0 || uploadError) && (
+              <div className="mt-4 flex flex-col items-center gap-2">
+                <AttachmentList
+                  attachments={attachments}
+                  onRemove={(id) => setAttachments((prev) => prev.filter((attachment) => attachment.id !== id))}
+                />
+                {uploadError && <p className="text-sm text-red-400">{uploadError}</p>}
+              </div>
+            )}
+
+            {/* Component settings */}
+            <div className="mt-4 flex flex-wrap items-center justify-center gap-4 text-sm text-gray-400">
+              <select
+                value={componentType}
+                onChange={(e) => setComponentType(e.target.value as ComponentType)}
+                className="px-4 py-2 bg-black/60 text-white rounded-xl border border-gray-800 focus:outline-none focus:border-gray-600"
+              >
+                {(Object.keys(COMPONENT_TYPES) as ComponentType[]).map((type) => (
+                  <option key={type} value={type} title={COMPONENT_TYPES[type].description}>
+                    {COMPONENT_TYPES[type].label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={template}
+                onChange={(e) => setTemplate(e.target.value as ComponentTemplate)}
+                className="px-4 py-2 bg-black/60 text-white rounded-xl border border-gray-800 focus:outline-none focus:border-gray-600"
+              >
+                {(Object.keys(COMPONENT_TEMPLATES) as ComponentTemplate[]).map((key) => (
+                  <option key={key} value={key}>
+                    {COMPONENT_TEMPLATES[key].label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                placeholder="Component name (optional)"
+                value={componentName}
+                onChange={(e) => setComponentName(e.target.value.toLowerCase())}
+                pattern="[a-z0-9][a-z0-9_-]*"
+                maxLength={40}
+                className="px-4 py-2 bg-black/60 text-white placeholder-gray-500 rounded-xl border border-gray-800 focus:outline-none focus:border-gray-600"
+              />
+              <select
+                value={variants}
+                onChange={(e) => setVariants(Number(e.target.value))}
+                className="px-4 py-2 bg-black/60 text-white rounded-xl border border-gray-800 focus:outline-none focus:border-gray-600"
+              >
+                {[1, 2, 3, 4].map((count) => (
+                  <option key={count} value={count}>
+                    {count === 1 ? "1 result" : `${count} variants`}
+                  </option>
+                ))}
+              </select>
+              {variants > 1 && (
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={varyDirections}
+                    onChange={(e) => setVaryDirections(e.target.checked)}
+                    className="accent-gray-500"
+                  />
+                  Different design directions
+                </label>
+              )}
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={publishNewVersion && variants === 1}
+                  disabled={variants > 1}
+                  onChange={(e) => setPublishNewVersion(e.target.checked)}
+                  className="accent-gray-500"
+                />
+                Publish as a new version if the name is taken
+              </label>
+            </div>
+
             {/* Example prompts */}
             <div className="mt-8 flex flex-wrap justify-center gap-3">
               <button
@@ -0,0 +1,118 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { Attachment } from "@/lib/attachments";
+
+// What the file picker offers, the server checks the types again
+const ACCEPTED_FILES = "image/png,image/jpeg,image/gif,image/webp,.txt,.md,.csv,.json";
+
+interface AttachButtonProps {
+  onAttach: (attachments: Attachment[]) => void;
+  onError: (message: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/** Paperclip button that uploads the picked files and hands back their attachments. */
+export function AttachButton({ onAttach, onError, disabled, className }: AttachButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const upload = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsUploading(true);
+    try {
+      const form = new FormData();
+      Array.from(files).forEach((file) => form.append("files", file));
+      const response = await fetch("/api/attachments", { method: "POST", body: form });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to upload files");
+      }
+      onAttach(data);
+    } catch (err: any) {
+      console.error("Error uploading attachments:", err);
+      onError(err.message || "An error occurred");
+    } finally {
+      setIsUploading(false);
+      // Picking the same file again must trigger another change
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={ACCEPTED_FILES}
+        className="hidden"
+        onChange={(e) => upload(e.target.files)}
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || isUploading}
+        title="Attach screenshots, mockups or files"
+        className={className || "p-2 text-gray-400 hover:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"}
+      >
+        {isUploading ? (
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-gray-400"></div>
+        ) : (
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"
+            />
+          </svg>
+        )}
+      </button>
+    </>
+  );
+}
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  // Shows a remove button on each attachment when set
+  onRemove?: (id: string) => void;
+}
+
+/** Thumbnails of images and chips for other files. */
+export function AttachmentList({ attachments, onRemove }: AttachmentListProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map((attachment) => (
+        <div key={attachment.id} className="relative group">
+          <a href={`/api/attachments/${attachment.id}`} target="_blank" rel="noreferrer" title={attachment.name}>
+            {attachment.mimeType.startsWith("image/") ? (
+              <img
+                src={`/api/attachments/${attachment.id}`}
+                alt={attachment.name}
+                className="h-16 w-16 object-cover rounded-lg border border-gray-700"
+              />
+            ) : (
+              <div className="h-16 max-w-[10rem] px-3 flex items-center rounded-lg border border-gray-700 bg-gray-900 text-xs text-gray-300">
+                <span className="truncate">📄 {attachment.name}</span>
+              </div>
+            )}
+          </a>
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(attachment.id)}
+              title="Remove"
+              className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-gray-800 text-gray-300 text-xs leading-none hover:bg-gray-700"
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
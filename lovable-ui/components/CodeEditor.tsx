@@ -0,0 +1,108 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { css } from "@codemirror/lang-css";
+import { html } from "@codemirror/lang-html";
+import { javascript } from "@codemirror/lang-javascript";
+import { json } from "@codemirror/lang-json";
+import { markdown } from "@codemirror/lang-markdown";
+import { Compartment, EditorState, Prec, type Extension } from "@codemirror/state";
+import { oneDark } from "@codemirror/theme-one-dark";
+import { EditorView, keymap } from "@codemirror/view";
+import { basicSetup } from "codemirror";
+
+// Fills the panel, the editor scrolls itself
+const fillParent = EditorView.theme({
+  "&": { height: "100%" },
+  ".cm-scroller": { overflow: "auto" },
+});
+
+/** Syntax highlighting for a file, by its extension. */
+function languageFor(path: string): Extension {
+  const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  switch (extension) {
+    case "js":
+    case "jsx":
+    case "mjs":
+    case "cjs":
+      return javascript({ jsx: true });
+    case "ts":
+      return javascript({ typescript: true });
+    case "tsx":
+      return javascript({ jsx: true, typescript: true });
+    case "css":
+      return css();
+    case "html":
+    case "vue":
+    case "svelte":
+      return html();
+    case "json":
+      return json();
+    case "md":
+      return markdown();
+    default:
+      return [];
+  }
+}
+
+interface CodeEditorProps {
+  path: string;
+  // The saved content, replaces what is in the editor whenever it changes
+  content: string;
+  readOnly?: boolean;
+  onChange?: (content: string) => void;
+  // Ctrl+S / Cmd+S
+  onSave?: () => void;
+}
+
+/** CodeMirror editor for one file. New content for the same file keeps the scroll position. */
+export default function CodeEditor({ path, content, readOnly, onChange, onSave }: CodeEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const readOnlyRef = useRef(new Compartment());
+  // The editor is created once per file, its handlers call the latest props
+  const onChangeRef = useRef(onChange);
+  const onSaveRef = useRef(onSave);
+  onChangeRef.current = onChange;
+  onSaveRef.current = onSave;
+
+  useEffect(() => {
+    const view = new EditorView({
+      parent: containerRef.current!,
+      state: EditorState.create({
+        doc: content,
+        extensions: [
+          Prec.high(keymap.of([{ key: "Mod-s", preventDefault: true, run: () => (onSaveRef.current?.(), true) }])),
+          basicSetup,
+          oneDark,
+          fillParent,
+          languageFor(path),
+          readOnlyRef.current.of(EditorState.readOnly.of(!!readOnly)),
+          EditorView.updateListener.of((update) => {
+            if (update.docChanged) onChangeRef.current?.(update.state.doc.toString());
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+    // Content and read-only changes are applied below, only a new file needs a new editor
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [path]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (view && view.state.doc.toString() !== content) {
+      view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: content } });
+    }
+  }, [content]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({ effects: readOnlyRef.current.reconfigure(EditorState.readOnly.of(!!readOnly)) });
+  }, [readOnly]);
+
+  return <div ref={containerRef} className="h-full text-sm" />;
+}
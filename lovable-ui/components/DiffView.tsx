@@ -0,0 +1,207 @@
+"use client";
+
+import { useState } from "react";
+import {
+  LINE_PREFIXES,
+  formatHunkHeader,
+  type ChangedFile,
+  type DiffHunk,
+  type DiffLine,
+  type FileEdit,
+} from "@/lib/diff";
+
+type DiffMode = "unified" | "split";
+
+const LINE_CLASSES: Record<DiffLine["type"], string> = {
+  context: "text-gray-400",
+  added: "bg-green-900/30 text-green-300",
+  removed: "bg-red-900/30 text-red-300",
+};
+
+// Side by side rows: removed lines on the left next to the lines that replaced them
+function splitRows(lines: DiffLine[]) {
+  const rows: { left?: DiffLine; right?: DiffLine }[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type === "context") {
+      rows.push({ left: lines[index], right: lines[index] });
+      index++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type === "removed") removed.push(lines[index++]);
+    while (index < lines.length && lines[index].type === "added") added.push(lines[index++]);
+    for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+      rows.push({ left: removed[row], right: added[row] });
+    }
+  }
+  return rows;
+}
+
+function DiffStats({ added, removed }: { added: number; removed: number }) {
+  return (
+    <span className="flex-shrink-0 font-mono text-xs">
+      <span className="text-green-500">+{added}</span> <span className="text-red-400">-{removed}</span>
+    </span>
+  );
+}
+
+function LineNumber({ value, hidden }: { value?: number; hidden?: boolean }) {
+  return <span className="w-10 flex-shrink-0 pr-2 text-right text-gray-600 select-none">{hidden ? "" : value}</span>;
+}
+
+function SplitCell({ line, side, partial }: { line?: DiffLine; side: "old" | "new"; partial?: boolean }) {
+  return (
+    <div className={`flex w-1/2 min-w-0 ${line ? LINE_CLASSES[line.type] : "bg-gray-900"}`}>
+      <LineNumber value={side === "old" ? line?.oldNumber : line?.newNumber} hidden={partial} />
+      <span className="whitespace-pre-wrap break-all">{line?.text}</span>
+    </div>
+  );
+}
+
+interface DiffViewProps {
+  hunks: DiffHunk[];
+  // Hunks of replaced text only, their line numbers are not the file's
+  partial?: boolean;
+}
+
+/** The hunks of a diff, unified or side by side. */
+export function DiffView({ hunks, partial }: DiffViewProps) {
+  const [mode, setMode] = useState<DiffMode>("unified");
+
+  if (hunks.length === 0) {
+    return <p className="text-gray-500 text-xs">No changes</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs">
+        {(["unified", "split"] as DiffMode[]).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setMode(option)}
+            className={`px-2 py-0.5 rounded ${mode === option ? "bg-gray-800 text-white" : "text-gray-500 hover:text-gray-300"}`}
+          >
+            {option === "unified" ? "Unified" : "Side by side"}
+          </button>
+        ))}
+        {partial && <span className="text-gray-500">Only the replaced text, the whole file was not seen before</span>}
+      </div>
+
+      <div className="overflow-x-auto rounded border border-gray-800 font-mono text-xs">
+        {hunks.map((hunk, hunkIndex) => (
+          // Unified lines keep their layout and scroll, side by side lines wrap
+          <div key={hunkIndex} className={mode === "unified" ? "min-w-max" : ""}>
+            <div className="px-2 py-0.5 bg-gray-900 text-blue-400/70">{partial ? "···" : formatHunkHeader(hunk)}</div>
+            {mode === "unified"
+              ? hunk.lines.map((line, index) => (
+                  <div key={index} className={`flex ${LINE_CLASSES[line.type]}`}>
+                    <LineNumber value={line.oldNumber} hidden={partial} />
+                    <LineNumber value={line.newNumber} hidden={partial} />
+                    <span className="whitespace-pre">
+                      {LINE_PREFIXES[line.type]} {line.text}
+                    </span>
+                  </div>
+                ))
+              : splitRows(hunk.lines).map((row, index) => (
+                  <div key={index} className="flex">
+                    <SplitCell line={row.left} side="old" partial={partial} />
+                    <SplitCell line={row.right} side="new" partial={partial} />
+                  </div>
+                ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** A Write, Edit or MultiEdit call in the timeline, expands to what it changed. */
+export function FileEditCard({ edit }: { edit: FileEdit }) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-3 border border-gray-800 overflow-hidden">
+      <button
+        type="button"
+        onClick={(e) => {
+          // The replay page selects an event on click, expanding should not
+          e.stopPropagation();
+          setIsOpen(!isOpen);
+        }}
+        className="w-full flex items-start gap-2 text-sm text-left"
+      >
+        <span className="text-blue-400 flex-shrink-0">🔧 {edit.tool}</span>
+        <span className="text-gray-500 break-all">File: {edit.path}</span>
+        <span className="ml-auto flex items-center gap-2">
+          {edit.failed ? (
+            <span className="text-red-400 text-xs flex-shrink-0">failed</span>
+          ) : (
+            <DiffStats added={edit.added} removed={edit.removed} />
+          )}
+          <span className="text-gray-600 text-xs flex-shrink-0">{isOpen ? "▾" : "▸"}</span>
+        </span>
+      </button>
+      {isOpen && (
+        <div className="mt-3">
+          <DiffView hunks={edit.hunks} partial={edit.partial} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ChangedFileRow({ file }: { file: ChangedFile }) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-start gap-2 text-sm text-left py-1"
+      >
+        <span className="text-gray-600 text-xs flex-shrink-0">{isOpen ? "▾" : "▸"}</span>
+        <span className="text-gray-300 break-all">{file.path}</span>
+        {file.created && <span className="text-green-500 text-xs flex-shrink-0">new</span>}
+        <span className="ml-auto flex items-center gap-2">
+          <span className="text-gray-600 text-xs flex-shrink-0">
+            {file.edits} {file.edits === 1 ? "edit" : "edits"}
+          </span>
+          <DiffStats added={file.added} removed={file.removed} />
+        </span>
+      </button>
+      {isOpen && (
+        <div className="mt-1 mb-3">
+          <DiffView hunks={file.hunks} partial={file.partial} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** The files a run changed, each expanding to its diff over the whole run. */
+export function ChangedFiles({ files }: { files: ChangedFile[] }) {
+  if (files.length === 0) return null;
+
+  const added = files.reduce((total, file) => total + file.added, 0);
+  const removed = files.reduce((total, file) => total + file.removed, 0);
+
+  return (
+    <details className="bg-gray-900/50 rounded-lg p-3 border border-gray-800">
+      <summary className="flex items-center gap-2 text-gray-300 text-sm cursor-pointer">
+        📝 {files.length} {files.length === 1 ? "file" : "files"} changed in this run
+        <span className="ml-auto">
+          <DiffStats added={added} removed={removed} />
+        </span>
+      </summary>
+      <div className="mt-2">
+        {files.map((file) => (
+          <ChangedFileRow key={file.path} file={file} />
+        ))}
+      </div>
+    </details>
+  );
+}
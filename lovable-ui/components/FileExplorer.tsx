@@ -0,0 +1,232 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import CodeEditor from "@/components/CodeEditor";
+import type { ProjectFile, ProjectFiles, SavedFile } from "@/lib/jobs/files";
+
+// Tool results arrive in bursts when attaching to a job, reload once they settle
+const RELOAD_DELAY_MS = 500;
+
+interface TreeNode {
+  name: string;
+  path: string;
+  // Set for directories
+  children?: TreeNode[];
+}
+
+/** Nests the project's file paths into directories, directories first. */
+function buildTree(files: string[]): TreeNode[] {
+  const root: TreeNode = { name: "", path: "", children: [] };
+  files.forEach((file) => {
+    let node = root;
+    file.split("/").forEach((name, index, parts) => {
+      const isFile = index === parts.length - 1;
+      let child = node.children!.find((candidate) => candidate.name === name && !candidate.children === isFile);
+      if (!child) {
+        child = { name, path: parts.slice(0, index + 1).join("/"), children: isFile ? undefined : [] };
+        node.children!.push(child);
+      }
+      node = child;
+    });
+  });
+
+  const sort = (nodes: TreeNode[]): TreeNode[] =>
+    nodes
+      .sort((a, b) => (!a.children === !b.children ? a.name.localeCompare(b.name) : a.children ? -1 : 1))
+      .map((node) => (node.children ? { ...node, children: sort(node.children) } : node));
+  return sort(root.children!);
+}
+
+interface FileExplorerProps {
+  jobId: string;
+  // Absolute paths of the files changed so far, "" for steps that may have changed any file
+  changes: string[];
+  // Files can only be saved while no generation is running
+  editable: boolean;
+  onSaved?: (saved: SavedFile) => void;
+}
+
+/** Tree of the files of a job's project next to an editor for the selected file. */
+export default function FileExplorer({ jobId, changes, editable, onSaved }: FileExplorerProps) {
+  const [listing, setListing] = useState<ProjectFiles | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [file, setFile] = useState<ProjectFile | null>(null);
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  const [error, setError] = useState<string | null>(null);
+  // Unsaved content of the selected file
+  const [draft, setDraft] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const seenChangesRef = useRef(0);
+  const isDirty = draft !== null && draft !== file?.content;
+
+  const loadFiles = async () => {
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/files`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to list files");
+      }
+      setListing(data);
+      setError(null);
+    } catch (err: any) {
+      console.error("Error listing files:", err);
+      setError(err.message || "An error occurred");
+    }
+  };
+
+  const loadFile = async (path: string) => {
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/files?path=${encodeURIComponent(path)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to read file");
+      }
+      setFile(data);
+      setDraft(null);
+      setError(null);
+    } catch (err: any) {
+      console.error("Error reading file:", err);
+      setError(err.message || "An error occurred");
+    }
+  };
+
+  useEffect(() => {
+    loadFiles();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jobId]);
+
+  useEffect(() => {
+    if (changes.length === seenChangesRef.current) return;
+    const timer = setTimeout(() => {
+      const fresh = changes.slice(seenChangesRef.current);
+      seenChangesRef.current = changes.length;
+      loadFiles();
+      const selectedPath = listing?.root && selected ? `${listing.root}/${selected}` : undefined;
+      if (selected && !isDirty && fresh.some((change) => change === "" || change === selectedPath)) {
+        loadFile(selected);
+      }
+    }, RELOAD_DELAY_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [changes, selected, listing?.root, isDirty]);
+
+  const select = (path: string) => {
+    if (path === selected) return;
+    if (isDirty && !confirm(`Discard your changes to ${selected}?`)) return;
+    setSelected(path);
+    setFile(null);
+    setDraft(null);
+    setStatus(null);
+    loadFile(path);
+  };
+
+  const save = async () => {
+    if (!selected || !isDirty || !editable || isSaving) return;
+    const content = draft;
+    setIsSaving(true);
+    setStatus(null);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/files?path=${encodeURIComponent(selected)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save file");
+      }
+      const saved = data as SavedFile;
+      setFile(saved.file);
+      // Typing during the save keeps the newer text
+      setDraft((current) => (current === content ? null : current));
+      setStatus(saved.publishedVersion ? `Saved, published version ${saved.publishedVersion}` : "Saved");
+      setError(null);
+      onSaved?.(saved);
+    } catch (err: any) {
+      console.error("Error saving file:", err);
+      setError(err.message || "An error occurred");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderNodes = (nodes: TreeNode[], depth: number) =>
+    nodes.map((node) => (
+      <div key={node.path}>
+        <button
+          type="button"
+          onClick={() =>
+            node.children
+              ? setCollapsed((prev) => ({ ...prev, [node.path]: !prev[node.path] }))
+              : select(node.path)
+          }
+          style={{ paddingLeft: `${depth * 12 + 8}px` }}
+          className={`w-full text-left py-0.5 pr-2 text-sm truncate ${
+            node.path === selected ? "bg-gray-800 text-white" : "text-gray-400 hover:text-gray-200"
+          }`}
+          title={node.path}
+        >
+          {node.children ? `${collapsed[node.path] ? "▸" : "▾"} ${node.name}` : node.name}
+        </button>
+        {node.children && !collapsed[node.path] && renderNodes(node.children, depth + 1)}
+      </div>
+    ));
+
+  return (
+    <div className="flex-1 flex overflow-hidden">
+      {/* File tree */}
+      <div className="w-64 flex-shrink-0 border-r border-gray-800 overflow-y-auto py-2">
+        {listing && listing.files.length > 0 ? (
+          renderNodes(buildTree(listing.files), 0)
+        ) : (
+          <p className="px-3 text-gray-500 text-sm">{listing ? "No files yet" : "Loading files..."}</p>
+        )}
+        {listing?.truncated && (
+          <p className="px-3 pt-2 text-gray-600 text-xs">Only the first {listing.files.length} files are listed</p>
+        )}
+      </div>
+
+      {/* Selected file */}
+      <div className="flex-1 flex flex-col overflow-hidden">
+        {error && <p className="px-4 py-2 text-red-400 text-sm border-b border-gray-800">{error}</p>}
+        {selected && (
+          <div className="flex items-center gap-3 px-4 py-2 border-b border-gray-800 text-sm">
+            <span className="flex-1 text-gray-400 break-all">
+              {selected}
+              {isDirty && " •"}
+              {file && <span className="text-gray-600"> · {file.size.toLocaleString()} bytes</span>}
+            </span>
+            {status && !isDirty && <span className="text-green-400">{status}</span>}
+            {file?.content !== undefined && (
+              <button
+                type="button"
+                onClick={save}
+                disabled={!editable || !isDirty || isSaving}
+                title={editable ? "Save (Ctrl+S)" : "Files can be edited once the generation has finished"}
+                className="px-3 py-1 bg-white text-black rounded-lg hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? "Saving..." : "Save"}
+              </button>
+            )}
+          </div>
+        )}
+        <div className="flex-1 overflow-hidden">
+          {file && file.content !== undefined && (
+            <CodeEditor
+              path={file.path}
+              content={file.content}
+              readOnly={!editable || isSaving}
+              onChange={setDraft}
+              onSave={save}
+            />
+          )}
+          {file && file.content === undefined && (
+            <p className="p-4 text-gray-500 text-sm">Binary or large file, not shown</p>
+          )}
+          {!selected && <p className="p-4 text-gray-500 text-sm">Select a file to view its code</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ProjectHistory as History } from "@/lib/jobs/git";
+import type { HistoryUpdate } from "@/lib/jobs/history";
+
+interface ProjectHistoryProps {
+  jobId: string;
+  // The project can only be changed while no generation is running
+  editable: boolean;
+  onChanged?: (update: HistoryUpdate) => void;
+}
+
+/**
+ * The commits of a job's project, one per Claude turn and manual change.
+ * Any of them can be restored with a new commit, or forked to a branch of
+ * its own.
+ */
+export default function ProjectHistory({ jobId, editable, onChanged }: ProjectHistoryProps) {
+  const [history, setHistory] = useState<History | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // What is being done right now, e.g. "revert:<hash>"
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const loadHistory = async () => {
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/history`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the history");
+      }
+      setHistory(data);
+      setError(null);
+    } catch (err: any) {
+      console.error("Error loading history:", err);
+      setError(err.message || "An error occurred");
+    }
+  };
+
+  // A finished turn has just been committed
+  useEffect(() => {
+    loadHistory();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jobId, editable]);
+
+  const change = async (action: "revert" | "fork" | "checkout", body: Record<string, string>, key: string) => {
+    setBusy(key);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/history/${action}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to change the project");
+      }
+      setHistory(data.history);
+      setError(null);
+      onChanged?.(data);
+    } catch (err: any) {
+      console.error(`Error during ${action}:`, err);
+      setError(err.message || "An error occurred");
+      // A failed republish still moved the files
+      loadHistory();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex items-center gap-3 px-4 py-2 border-b border-gray-800 text-sm text-gray-400">
+        <span>Branch</span>
+        <select
+          value={history?.branch || ""}
+          onChange={(e) => change("checkout", { branch: e.target.value }, "checkout")}
+          disabled={!editable || !!busy || !history || history.branches.length < 2}
+          className="bg-gray-900 border border-gray-800 rounded-lg px-2 py-1 text-gray-200 disabled:opacity-50"
+        >
+          {history?.branches.map((branch) => (
+            <option key={branch} value={branch}>
+              {branch}
+            </option>
+          ))}
+        </select>
+        {busy === "checkout" && <span>Switching...</span>}
+        {!editable && <span className="text-gray-600">Versions can be restored once the generation has finished</span>}
+      </div>
+      {error && <p className="px-4 py-2 text-red-400 text-sm border-b border-gray-800">{error}</p>}
+
+      <div className="flex-1 overflow-y-auto">
+        {!history && <p className="p-4 text-gray-500 text-sm">Loading history...</p>}
+        {history?.commits.length === 0 && (
+          <p className="p-4 text-gray-500 text-sm">No versions yet, every turn is committed once it has finished</p>
+        )}
+        {history?.commits.map((commit, index) => (
+          <div key={commit.hash} className="flex items-center gap-3 px-4 py-3 border-b border-gray-900">
+            <div className="flex-1 min-w-0">
+              <p className="text-gray-200 text-sm truncate" title={commit.subject}>
+                {commit.subject}
+              </p>
+              <p className="text-gray-500 text-xs">
+                {commit.author} · {new Date(commit.date).toLocaleString()} ·{" "}
+                <span className="font-mono">{commit.hash.slice(0, 7)}</span>
+                {index === 0 && <span className="text-green-400"> · current</span>}
+              </p>
+            </div>
+            {index > 0 && (
+              <button
+                type="button"
+                onClick={() => change("revert", { commit: commit.hash }, `revert:${commit.hash}`)}
+                disabled={!editable || !!busy}
+                className="px-3 py-1 text-sm bg-gray-800 text-gray-200 rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {busy === `revert:${commit.hash}` ? "Reverting..." : "Revert to this"}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => change("fork", { commit: commit.hash }, `fork:${commit.hash}`)}
+              disabled={!editable || !!busy}
+              className="px-3 py-1 text-sm bg-gray-800 text-gray-200 rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy === `fork:${commit.hash}` ? "Forking..." : "Fork from here"}
+            </button>
+          </div>
+        ))}
+        {history?.truncated && (
+          <p className="p-4 text-gray-600 text-xs">Only the latest {history.commits.length} versions are listed</p>
+        )}
+      </div>
+    </div>
+  );
+}
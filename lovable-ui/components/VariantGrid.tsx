@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { isFinished, type Job, type VariantGroup } from "@/lib/jobs/types";
+import { formatCost } from "@/lib/usage";
+
+// Status changes are not streamed here, the grid polls until every variant is done
+const POLL_INTERVAL_MS = 3000;
+
+interface VariantGridProps {
+  groupId: string;
+}
+
+/**
+ * The variants generated for one prompt side by side, each with its live
+ * preview once it is done. Keeping one discards the others and continues
+ * with it on the generate page.
+ */
+export default function VariantGrid({ groupId }: VariantGridProps) {
+  const [group, setGroup] = useState<(VariantGroup & { jobs: Job[] }) | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [keeping, setKeeping] = useState<string | null>(null);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/variants/${groupId}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Variants not found");
+        }
+        if (stopped) return;
+        setGroup(data);
+        if (data.jobs.some((job: Job) => !isFinished(job.status))) {
+          timer = setTimeout(load, POLL_INTERVAL_MS);
+        }
+      } catch (err: any) {
+        setError(err.message || "An error occurred");
+      }
+    };
+    load();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [groupId]);
+
+  const keep = async (jobId: string) => {
+    setKeeping(jobId);
+    try {
+      const response = await fetch(`/api/variants/${groupId}/keep`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ jobId }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to keep variant");
+      }
+      // A fresh page attaches to the kept job and allows follow-ups on it
+      window.location.assign(`/generate?job=${jobId}`);
+    } catch (err: any) {
+      console.error("Error keeping variant:", err);
+      setError(err.message || "An error occurred");
+      setKeeping(null);
+    }
+  };
+
+  if (!group) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        {error ? <p className="text-red-400">{error}</p> : <p className="text-gray-400">Loading variants...</p>}
+      </div>
+    );
+  }
+
+  const previewUrl = (job: Job) => job.result?.previewUrl || job.result?.componentUrl;
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="p-4 border-b border-gray-800">
+        <h2 className="text-white font-semibold">{group.jobs.length} variants</h2>
+        <p className="text-gray-400 text-sm mt-1 break-words">{group.prompt}</p>
+        {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
+      </div>
+
+      <div className={`flex-1 grid gap-4 p-4 overflow-auto ${group.jobs.length > 1 ? "grid-cols-2" : "grid-cols-1"}`}>
+        {group.jobs.map((job) => (
+          <div
+            key={job.id}
+            className={`flex flex-col min-h-[360px] bg-gray-950 rounded-lg border ${
+              group.keptJobId === job.id ? "border-green-700" : "border-gray-800"
+            }`}
+          >
+            <div className="flex items-center gap-3 p-3 border-b border-gray-800 text-sm">
+              <span className="text-white font-medium">Variant {(job.variant?.index ?? 0) + 1}</span>
+              <span className="text-gray-500 truncate">
+                {[job.variant?.style, job.options?.model].filter(Boolean).join(" · ")}
+              </span>
+              <span className="ml-auto text-gray-400">
+                {job.status}
+                {job.usage ? ` · ${formatCost(job.usage.costUsd)}` : ""}
+              </span>
+            </div>
+
+            <div className="flex-1 flex items-center justify-center">
+              {previewUrl(job) ? (
+                <iframe src={previewUrl(job)} className="w-full h-full" title={`Variant ${(job.variant?.index ?? 0) + 1}`} />
+              ) : job.status === "failed" || job.status === "cancelled" ? (
+                <p className="text-red-400 text-sm px-4 text-center">{job.error?.message || job.status}</p>
+              ) : (
+                <div className="w-12 h-12 bg-gray-800 rounded-xl animate-pulse"></div>
+              )}
+            </div>
+
+            <div className="flex items-center gap-3 p-3 border-t border-gray-800 text-sm">
+              <a href={`/generate?job=${job.id}`} className="text-gray-500 hover:text-gray-300">
+                Open
+              </a>
+              <a href={`/jobs/${job.id}`} className="text-gray-500 hover:text-gray-300">
+                Replay
+              </a>
+              <button
+                onClick={() => keep(job.id)}
+                disabled={job.status !== "succeeded" || !!keeping}
+                className="ml-auto px-3 py-1 text-white bg-gray-800 rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {keeping === job.id ? "Keeping..." : "Keep this one"}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { dataPath, readJsonFile, writeJsonFile } from "./store";
+
+/** A file the user attached to a prompt: a screenshot, a mockup, some data... */
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+}
+
+/** Where an attachment was copied to for a run, as the generation prompt lists it. */
+export interface AttachedFile {
+  path: string;
+  name: string;
+  mimeType: string;
+}
+
+/** An upload or attachment reference that cannot be used. */
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+/** Set by the job queue for generator scripts, holds the job's attachments as JSON. */
+export const ATTACHMENTS_ENV = "LOVABLE_ATTACHMENTS";
+
+/** Directory, in the workspace or sandbox, that the attachments of a run are copied to. */
+export const ATTACHMENTS_DIR_NAME = ".attachments";
+
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 5;
+
+// Claude Code's Read tool shows these images to the model. SVG is left out,
+// it would be served back to the browser as a script-capable document
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+const TEXT_TYPES = ["text/plain", "text/markdown", "text/csv", "application/json"];
+
+// Browsers often send no type, or a generic one, for these
+const TEXT_EXTENSIONS: Record<string, string> = {
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".csv": "text/csv",
+  ".json": "application/json",
+};
+
+// Each attachment is a directory holding attachment.json and the file itself
+const ATTACHMENTS_DIR = dataPath("attachments");
+
+function attachmentDir(id: string) {
+  if (!/^[\w-]+$/.test(id)) {
+    throw new AttachmentError(`Unknown attachment: ${id}`);
+  }
+  return path.join(ATTACHMENTS_DIR, id);
+}
+
+/** Name the attachment gets on disk and in the generation prompt, unique per attachment. */
+export function attachmentFileName(attachment: Attachment) {
+  const safeName = attachment.name.replace(/[^\w.-]+/g, "_").replace(/^\.+/, "") || "file";
+  return `${attachment.id.slice(0, 8)}-${safeName}`;
+}
+
+/** Path of the attachment's content on this machine. */
+export function attachmentPath(attachment: Attachment) {
+  return path.join(attachmentDir(attachment.id), attachmentFileName(attachment));
+}
+
+/** Checks that an upload can be attached, returns its type. */
+export function checkAttachment(name: string, mimeType: string, size: number): string {
+  const known = mimeType && mimeType !== "application/octet-stream" ? mimeType : undefined;
+  const type = known || TEXT_EXTENSIONS[path.extname(name).toLowerCase()] || mimeType;
+  if (!IMAGE_TYPES.includes(type) && !TEXT_TYPES.includes(type)) {
+    throw new AttachmentError(
+      `${name} has an unsupported type${type ? ` (${type})` : ""}, attach PNG, JPEG, GIF or WebP images, or text, Markdown, CSV or JSON files`
+    );
+  }
+  if (size > MAX_ATTACHMENT_BYTES) {
+    throw new AttachmentError(`${name} is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`);
+  }
+  return type;
+}
+
+/** Validates and stores an uploaded file. */
+export function saveAttachment(name: string, mimeType: string, content: Buffer): Attachment {
+  const type = checkAttachment(name, mimeType, content.length);
+
+  const attachment: Attachment = {
+    id: randomUUID(),
+    name,
+    mimeType: type,
+    size: content.length,
+    createdAt: new Date().toISOString(),
+  };
+  fs.mkdirSync(attachmentDir(attachment.id), { recursive: true });
+  fs.writeFileSync(attachmentPath(attachment), content);
+  writeJsonFile(path.join(attachmentDir(attachment.id), "attachment.json"), attachment);
+  return attachment;
+}
+
+export function getAttachment(id: string): Attachment | undefined {
+  return readJsonFile<Attachment | undefined>(path.join(attachmentDir(id), "attachment.json"), undefined);
+}
+
+/** Looks up the attachments a request refers to by id. */
+export function resolveAttachments(ids: unknown = []): Attachment[] {
+  if (!Array.isArray(ids) || ids.some((id) => typeof id !== "string")) {
+    throw new AttachmentError("attachments must be a list of attachment ids");
+  }
+  if (ids.length > MAX_ATTACHMENTS) {
+    throw new AttachmentError(`At most ${MAX_ATTACHMENTS} files can be attached to a prompt`);
+  }
+  return ids.map((id) => {
+    const attachment = getAttachment(id);
+    if (!attachment) {
+      throw new AttachmentError(`Unknown attachment: ${id}`);
+    }
+    return attachment;
+  });
+}
+
+/** Attachments of the current generator process, none when the script runs standalone. */
+export function getProcessAttachments(): Attachment[] {
+  const attachments = process.env[ATTACHMENTS_ENV];
+  return attachments ? JSON.parse(attachments) : [];
+}
+
+/** Copies attachments into `dir` on this machine, e.g. a code job's workspace. */
+export function copyAttachments(attachments: Attachment[], dir: string): AttachedFile[] {
+  return attachments.map((attachment) => {
+    const target = path.join(dir, attachmentFileName(attachment));
+    fs.mkdirSync(dir, { recursive: true });
+    fs.copyFileSync(attachmentPath(attachment), target);
+    return { path: target, name: attachment.name, mimeType: attachment.mimeType };
+  });
+}
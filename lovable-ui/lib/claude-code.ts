@@ -1,43 +1,68 @@
-import { query, type SDKMessage } from "@anthropic-ai/claude-code";
+import type { SDKMessage } from "@anthropic-ai/claude-code";
+import { randomUUID } from "crypto";
+import { getClaudeProvider, type ClaudeProvider } from "./claude-provider";
+import {
+  loadGenerationPolicy,
+  resolveGenerationOptions,
+  toQueryOptions,
+  type GenerationOptions,
+} from "./generation-options";
+import { createPermissionGuard, getWorkspaceDir } from "./permissions";
+import { createUsageTracker, formatCost, usageFromEvent, type Usage, type UsageEvent } from "./usage";
 
 export interface CodeGenerationResult {
   success: boolean;
   messages: SDKMessage[];
   error?: string;
+  // Reported by Claude Code, or estimated when the generation was stopped
+  usage?: Usage;
 }
 
-export async function generateCodeWithClaude(prompt: string): Promise<CodeGenerationResult> {
+/**
+ * Runs Claude Code in this process, confined to `workspace` (a fresh one by
+ * default). `provider` replaces the API, e.g. with recorded cassettes.
+ */
+export async function generateCodeWithClaude(
+  prompt: string,
+  signal?: AbortSignal,
+  budgetUsd?: number,
+  options: GenerationOptions = resolveGenerationOptions("code"),
+  workspace = getWorkspaceDir(randomUUID()),
+  provider: ClaudeProvider = getClaudeProvider()
+): Promise<CodeGenerationResult> {
+  const usage = createUsageTracker(budgetUsd);
+  const guard = createPermissionGuard({
+    workspace,
+    allowedTools: options.allowedTools,
+    bashCommands: loadGenerationPolicy().bashCommands,
+  });
+  let timeout: NodeJS.Timeout | undefined;
   try {
     const messages: SDKMessage[] = [];
+    let usageEvent: UsageEvent | undefined;
     const abortController = new AbortController();
+    // Lets the caller stop a runaway generation
+    signal?.addEventListener("abort", () => abortController.abort());
+    timeout = setTimeout(() => abortController.abort(), options.timeoutMs);
     
     // Execute the query and collect all messages
-    for await (const message of query({
+    for await (const message of provider.query({
       prompt: prompt,
       abortController: abortController,
-      options: {
-        maxTurns: 10, // Allow multiple turns for complex builds
-        // Grant all necessary permissions for code generation
-        allowedTools: [
-          "Read",
-          "Write",
-          "Edit",
-          "MultiEdit",
-          "Bash",
-          "LS",
-          "Glob",
-          "Grep",
-          "WebSearch",
-          "WebFetch"
-        ]
-      }
+      options: { ...toQueryOptions(options), ...guard.queryOptions }
     })) {
       messages.push(message);
+      usageEvent = usage.add(message) || usageEvent;
+      if (message.type === "assistant" && usage.exceeded()) {
+        abortController.abort();
+        throw new Error(`Stopped after reaching the budget of ${formatCost(budgetUsd!)}`);
+      }
     }
     
     return {
       success: true,
-      messages: messages
+      messages: messages,
+      usage: usageEvent && usageFromEvent(usageEvent)
     };
     
   } catch (error: any) {
@@ -45,7 +70,10 @@ export async function generateCodeWithClaude(prompt: string): Promise<CodeGenera
     return {
       success: false,
       messages: [],
-      error: error.message
+      error: error.message,
+      usage: usageFromEvent(usage.estimated())
     };
+  } finally {
+    clearTimeout(timeout);
   }
 }
\ No newline at end of file
@@ -0,0 +1,142 @@
+import { AbortError, type SDKMessage } from "@anthropic-ai/claude-code";
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { readJsonFile, writeJsonFile } from "../store";
+import type { ClaudeQuery } from "./types";
+
+export const CASSETTE_VERSION = 1;
+
+// Never part of what Claude Code wrote
+const IGNORED_DIRS = ["node_modules", ".git", ".next"];
+
+/** One recorded Claude Code run. */
+export interface Cassette {
+  version: number;
+  prompt: string;
+  recordedAt: string;
+  entries: CassetteEntry[];
+}
+
+export interface CassetteEntry {
+  message: SDKMessage;
+  // Workspace files that changed before the message arrived, base64 encoded,
+  // null for deleted files. Paths are relative to the run's cwd
+  files?: Record<string, string | null>;
+}
+
+/** A replayed prompt that was never recorded. */
+export class CassetteNotFoundError extends Error {
+  constructor(readonly file: string) {
+    super(`No cassette recorded for this prompt (${file}), record one with CLAUDE_PROVIDER=record`);
+    this.name = "CassetteNotFoundError";
+  }
+}
+
+/** Cassettes are named after the prompt, so every call of a run finds its own. */
+export function cassetteFile(dir: string, prompt: string) {
+  const hash = createHash("sha256").update(prompt).digest("hex").slice(0, 16);
+  return path.join(dir, `${hash}.json`);
+}
+
+function promptText(prompt: Parameters<ClaudeQuery>[0]["prompt"]): string {
+  if (typeof prompt !== "string") {
+    throw new Error("Only string prompts can be recorded and replayed");
+  }
+  return prompt;
+}
+
+// Path relative to `root` => content, of every file Claude Code could have written
+function snapshot(root: string, dir = root, files = new Map<string, Buffer>()) {
+  if (!fs.existsSync(dir)) return files;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRS.includes(entry.name)) snapshot(root, fullPath, files);
+    } else if (entry.isFile()) {
+      files.set(path.relative(root, fullPath), fs.readFileSync(fullPath));
+    }
+  }
+  return files;
+}
+
+function changedFiles(before: Map<string, Buffer>, after: Map<string, Buffer>) {
+  const changes: Record<string, string | null> = {};
+  after.forEach((content, file) => {
+    if (!before.get(file)?.equals(content)) changes[file] = content.toString("base64");
+  });
+  before.forEach((_, file) => {
+    if (!after.has(file)) changes[file] = null;
+  });
+  return Object.keys(changes).length > 0 ? changes : undefined;
+}
+
+function applyFiles(root: string, files: Record<string, string | null>) {
+  for (const [file, content] of Object.entries(files)) {
+    const target = path.resolve(root, file);
+    if (!target.startsWith(root + path.sep)) {
+      throw new Error(`Cassette writes outside the workspace: ${file}`);
+    }
+    if (content === null) {
+      fs.rmSync(target, { force: true });
+    } else {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, Buffer.from(content, "base64"));
+    }
+  }
+}
+
+/**
+ * Wraps `query` so every run is saved as a cassette in `dir`, together with
+ * the files it changed in its cwd. The cassette is written when the run
+ * ends, failed runs included.
+ */
+export function recordingQuery(query: ClaudeQuery, dir: string): ClaudeQuery {
+  return async function* (props) {
+    const prompt = promptText(props.prompt);
+    const root = path.resolve(props.options?.cwd || process.cwd());
+    const cassette: Cassette = { version: CASSETTE_VERSION, prompt, recordedAt: new Date().toISOString(), entries: [] };
+    let files = snapshot(root);
+    try {
+      for await (const message of query(props)) {
+        const current = snapshot(root);
+        cassette.entries.push({ message, files: changedFiles(files, current) });
+        files = current;
+        yield message;
+      }
+    } finally {
+      writeJsonFile(cassetteFile(dir, prompt), cassette);
+    }
+  };
+}
+
+/**
+ * Plays back the cassette recorded for the prompt: files are written into
+ * the cwd of the run as they were during the recording, then each message is
+ * yielded as it was received. Aborting throws like the SDK does.
+ */
+export function replayingQuery(dir: string): ClaudeQuery {
+  return async function* (props) {
+    const file = cassetteFile(dir, promptText(props.prompt));
+    const cassette = readJsonFile<Cassette | undefined>(file, undefined);
+    if (!cassette) {
+      throw new CassetteNotFoundError(file);
+    }
+    if (cassette.version !== CASSETTE_VERSION) {
+      throw new Error(`Cassette ${file} has version ${cassette.version}, expected ${CASSETTE_VERSION}`);
+    }
+
+    const root = path.resolve(props.options?.cwd || process.cwd());
+    for (const entry of cassette.entries) {
+      // Give the caller a chance to abort between messages
+      await new Promise((resolve) => setImmediate(resolve));
+      if (props.abortController?.signal.aborted) {
+        throw new AbortError("Claude Code process aborted by user");
+      }
+      if (entry.files) {
+        applyFiles(root, entry.files);
+      }
+      yield entry.message;
+    }
+  };
+}
@@ -0,0 +1,45 @@
+import { query } from "@anthropic-ai/claude-code";
+import { dataPath } from "../store";
+import { recordingQuery, replayingQuery } from "./cassette";
+import type { ClaudeProvider } from "./types";
+
+export * from "./types";
+export {
+  CASSETTE_VERSION,
+  CassetteNotFoundError,
+  cassetteFile,
+  recordingQuery,
+  replayingQuery,
+  type Cassette,
+  type CassetteEntry,
+} from "./cassette";
+
+export function getCassetteDir() {
+  return process.env.CLAUDE_CASSETTE_DIR || dataPath("cassettes");
+}
+
+function createProvider(name: string, cassetteDir: string): ClaudeProvider {
+  switch (name) {
+    case "live":
+      return { name, query };
+    case "record":
+      return { name, query: recordingQuery(query, cassetteDir) };
+    case "replay":
+      return { name, query: replayingQuery(cassetteDir) };
+    default:
+      throw new Error(`Unknown Claude provider: ${name}`);
+  }
+}
+
+/**
+ * Returns how Claude Code runs in this process, selected by CLAUDE_PROVIDER:
+ * "live" (default) calls the API, "record" also saves every run as a cassette
+ * in CLAUDE_CASSETTE_DIR and "replay" plays the cassettes back without
+ * network or API key.
+ */
+export function getClaudeProvider(
+  name = process.env.CLAUDE_PROVIDER || "live",
+  cassetteDir = getCassetteDir()
+): ClaudeProvider {
+  return createProvider(name, cassetteDir);
+}
@@ -0,0 +1,9 @@
+import type { query } from "@anthropic-ai/claude-code";
+
+/** The SDK's query(), or something that behaves like it. */
+export type ClaudeQuery = typeof query;
+
+export interface ClaudeProvider {
+  readonly name: string;
+  query: ClaudeQuery;
+}
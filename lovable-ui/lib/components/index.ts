@@ -0,0 +1,4 @@
+export * from "./request";
+export * from "./naming";
+export * from "./templates";
+export * from "./registry";
@@ -0,0 +1,214 @@
+import { getClaudeProvider } from "../claude-provider";
+import { dataPath, readJsonFile, updateJsonFile } from "../store";
+import { createUsageTracker, type UsageEvent } from "../usage";
+import { MAX_COMPONENT_NAME_LENGTH, validateComponentName, type ComponentRequest } from "./request";
+
+// Names being generated but not published yet, so parallel jobs don't pick the same one
+const RESERVATIONS_FILE = dataPath("component-names.json");
+
+// A job that never published gives its name back after this long
+const RESERVATION_TTL_MS = 2 * 60 * 60 * 1000;
+
+const FALLBACK_NAME = "component";
+const MAX_NAME_WORDS = 4;
+const MAX_SUFFIX = 100;
+const REGISTRY_TIMEOUT_MS = 5000;
+
+// Words of a prompt that say nothing about the component
+const STOP_WORDS = new Set([
+  "a", "an", "the", "and", "or", "of", "for", "to", "in", "on", "with", "that", "which", "this", "it",
+  "its", "is", "are", "be", "as", "at", "by", "from", "into", "using", "use", "me", "my", "i", "we",
+  "our", "you", "your", "please", "create", "make", "build", "generate", "write", "add", "design",
+  "implement", "show", "shows", "display", "displays", "new", "simple", "modern", "beautiful", "nice",
+  "clean", "responsive", "component", "components", "widget", "some", "should", "can", "will", "has",
+  "have", "include", "including", "multiple", "different", "proper",
+]);
+
+interface Reservation {
+  jobId?: string;
+  reservedAt: string;
+}
+
+/** The name a component is published under. */
+export interface ComponentName {
+  name: string;
+  // Latest version in the registry when publishing a new version of an existing component
+  publishedVersion?: string;
+}
+
+function slugify(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, " ")
+    .split(/[\s-]+/)
+    .filter(Boolean);
+}
+
+// Cuts at a word boundary, so names never end mid-word
+function joinWords(words: string[]) {
+  let name = "";
+  for (const word of words) {
+    const next = name ? `${name}-${word}` : word;
+    if (next.length > MAX_COMPONENT_NAME_LENGTH) break;
+    name = next;
+  }
+  return name;
+}
+
+/** Name from the keywords of the prompt, e.g. "Create a modern pricing card with a toggle" => "pricing-card-toggle". */
+export function proposeComponentName(prompt?: string) {
+  const words = slugify(prompt || "");
+  const keywords = words.filter((word) => !STOP_WORDS.has(word));
+  return joinWords((keywords.length > 0 ? keywords : words).slice(0, MAX_NAME_WORDS)) || FALLBACK_NAME;
+}
+
+/**
+ * Asks Claude for a short name for the component, falling back to
+ * proposeComponentName when the answer is not a valid name. Returns the
+ * usage of the call, so it counts toward the job's budget.
+ */
+export async function suggestComponentNameWithClaude(
+  prompt: string
+): Promise<{ name: string; usage?: UsageEvent }> {
+  const tracker = createUsageTracker();
+  let answer = "";
+  let usage: UsageEvent | undefined;
+  try {
+    for await (const message of getClaudeProvider().query({
+      prompt:
+        "Reply with only a name for the UI component described below: 1 to 4 lowercase English words " +
+        `joined by "-", at most ${MAX_COMPONENT_NAME_LENGTH} characters, e.g. pricing-card.\n\n${prompt}`,
+      options: { maxTurns: 1, allowedTools: [] },
+    })) {
+      usage = tracker.add(message) || usage;
+      if (message.type === "result" && message.subtype === "success") {
+        answer = message.result;
+      }
+    }
+  } catch (error: any) {
+    console.log(`⚠️ Could not ask Claude for a component name: ${error.message}`);
+  }
+
+  const name = joinWords(slugify(answer.trim().split("\n")[0]));
+  return { name: name && !validateComponentName(name) ? name : proposeComponentName(prompt), usage };
+}
+
+/**
+ * Versions of `name` published to the registry at `registryUrl`, empty when
+ * the name is free. Undefined when the registry can't be reached.
+ */
+export async function getPublishedVersions(registryUrl: string, name: string): Promise<string[] | undefined> {
+  try {
+    const response = await fetch(`${registryUrl.replace(/\/?$/, "/")}${name}/~info`, {
+      headers: { Accept: "application/json" },
+      signal: AbortSignal.timeout(REGISTRY_TIMEOUT_MS),
+    });
+    if (response.status === 404) {
+      return [];
+    }
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    const info = await response.json();
+    return info.allVersions || (info.version ? [info.version] : []);
+  } catch (error: any) {
+    console.log(`⚠️ Could not check ${name} in the registry: ${error.message}`);
+    return undefined;
+  }
+}
+
+function compareVersions(a: string, b: string) {
+  const partsA = a.split(/[.-]/).map(Number);
+  const partsB = b.split(/[.-]/).map(Number);
+  for (let i = 0; i < 3; i++) {
+    if ((partsA[i] || 0) !== (partsB[i] || 0)) return (partsA[i] || 0) - (partsB[i] || 0);
+  }
+  return 0;
+}
+
+/** The patch version after the latest of `versions`, e.g. ["1.0.0", "1.0.2"] => "1.0.3". */
+export function nextPatchVersion(versions: string[]) {
+  const latest = latestVersion(versions) || "0.0.0";
+  const [major, minor, patch] = latest.split(/[.-]/).map((part) => Number(part) || 0);
+  return `${major}.${minor}.${patch + 1}`;
+}
+
+function latestVersion(versions: string[]) {
+  return versions.slice().sort(compareVersions).pop();
+}
+
+function isReservedByOther(reservation: Reservation | undefined, jobId?: string) {
+  return (
+    !!reservation &&
+    reservation.jobId !== jobId &&
+    Date.now() - new Date(reservation.reservedAt).getTime() < RESERVATION_TTL_MS
+  );
+}
+
+function readReservations() {
+  return readJsonFile<Record<string, Reservation>>(RESERVATIONS_FILE, {});
+}
+
+// False when another job got the name first; `shared` names may be reserved by several jobs
+async function reserveName(name: string, jobId: string | undefined, shared = false) {
+  let reserved = false;
+  await updateJsonFile<Record<string, Reservation>>(RESERVATIONS_FILE, {}, (reservations) => {
+    if (!shared && isReservedByOther(reservations[name], jobId)) {
+      return;
+    }
+    reservations[name] = { jobId, reservedAt: new Date().toISOString() };
+    reserved = true;
+  });
+  return reserved;
+}
+
+/**
+ * Picks the name a new component is published under. Starts from the name
+ * the user asked for, or one proposed from the prompt, and checks it against
+ * the registry and the names other jobs are generating:
+ * - "suffix" takes the first free name of `name`, `name-2`, `name-3`...
+ * - "version" keeps the name, and the component is published as the next
+ *   version of the existing one
+ *
+ * The chosen name stays reserved for `jobId` until it is released or expires.
+ */
+export async function chooseComponentName(
+  request: ComponentRequest,
+  registryUrl: string,
+  options: { prompt?: string; proposed?: string; jobId?: string } = {}
+): Promise<ComponentName> {
+  const base = request.name || options.proposed || proposeComponentName(options.prompt);
+  const problem = validateComponentName(base);
+  if (problem) {
+    throw new Error(`Invalid component name "${base}": ${problem}`);
+  }
+
+  if (request.onConflict === "version") {
+    const versions = await getPublishedVersions(registryUrl, base);
+    await reserveName(base, options.jobId, true);
+    return { name: base, publishedVersion: versions?.length ? latestVersion(versions) : undefined };
+  }
+
+  for (let suffix = 1; suffix <= MAX_SUFFIX; suffix++) {
+    const ending = suffix === 1 ? "" : `-${suffix}`;
+    const name = `${base.slice(0, MAX_COMPONENT_NAME_LENGTH - ending.length).replace(/[-_]+$/, "")}${ending}`;
+    if (isReservedByOther(readReservations()[name], options.jobId)) {
+      continue;
+    }
+    // An unreachable registry can't tell, the publish step reports the conflict
+    const versions = await getPublishedVersions(registryUrl, name);
+    if ((!versions || versions.length === 0) && (await reserveName(name, options.jobId))) {
+      return { name };
+    }
+  }
+  throw new Error(`No free component name left for "${base}"`);
+}
+
+/** Gives back a name reserved by `jobId`, once it is published or the job failed. */
+export async function releaseComponentName(name: string, jobId?: string) {
+  await updateJsonFile<Record<string, Reservation>>(RESERVATIONS_FILE, {}, (reservations) => {
+    if (reservations[name]?.jobId === jobId) {
+      delete reservations[name];
+    }
+  });
+}
@@ -0,0 +1,50 @@
+import type { Sandbox } from "../sandbox/types";
+import { getPublishedVersions, nextPatchVersion } from "./naming";
+
+export const REGISTRY_PORT = 3030;
+
+// Builds and publishes can take a while the first time
+const BUILD_TIMEOUT_MS = 180000;
+
+// The end of a failed command's output, enough to see the error
+const MAX_ERROR_OUTPUT = 2000;
+
+/** Where processes in `sandbox` reach the registry, which runs on the host. */
+export function getRegistryUrl(sandbox: Sandbox) {
+  return process.env.OC_REGISTRY_URL || `http://${sandbox.hostAlias}:${REGISTRY_PORT}/`;
+}
+
+/** Where this machine reaches the registry, e.g. to check which names are taken. */
+export function getHostRegistryUrl() {
+  return process.env.OC_REGISTRY_URL || `http://localhost:${REGISTRY_PORT}/`;
+}
+
+/**
+ * Builds the component `name` in `componentDir` and publishes it as its next
+ * patch version, e.g. after its files were edited by hand. Returns the version.
+ */
+export async function republishComponent(sandbox: Sandbox, componentDir: string, name: string): Promise<string> {
+  const build = await sandbox.exec("oc build .", componentDir, undefined, BUILD_TIMEOUT_MS);
+  if (build.exitCode !== 0) {
+    throw new Error(`oc build failed:\n${build.result.slice(-MAX_ERROR_OUTPUT)}`);
+  }
+
+  // Published versions are immutable, so every publish needs a new one. Restoring an earlier
+  // version of the project also restores an older package.json, so continue after the registry's latest
+  const published = await getPublishedVersions(getHostRegistryUrl(), name);
+  const bump = await sandbox.exec(
+    published?.length
+      ? `npm version ${nextPatchVersion(published)} --no-git-tag-version --allow-same-version`
+      : "npm version patch --no-git-tag-version",
+    componentDir
+  );
+  if (bump.exitCode !== 0) {
+    throw new Error(`npm version failed:\n${bump.result.slice(-MAX_ERROR_OUTPUT)}`);
+  }
+
+  const publish = await sandbox.exec(`oc publish . ${getRegistryUrl(sandbox)}`, componentDir, undefined, BUILD_TIMEOUT_MS);
+  if (publish.exitCode !== 0) {
+    throw new Error(`oc publish failed:\n${publish.result.slice(-MAX_ERROR_OUTPUT)}`);
+  }
+  return bump.result.trim().replace(/^v/, "");
+}
@@ -0,0 +1,93 @@
+import { COMPONENT_TEMPLATES, COMPONENT_TYPES, type ComponentTemplate, type ComponentType } from "./templates";
+
+/**
+ * What to do when the name of a new component is already published:
+ * - "suffix": publish under a free name like `price-card-2`
+ * - "version": publish as the next version of the existing component
+ */
+export type NameConflict = "suffix" | "version";
+
+/** What a component job generates and how it names it, chosen by the user. */
+export interface ComponentRequest {
+  // Proposed from the prompt when unset
+  name?: string;
+  onConflict: NameConflict;
+  type: ComponentType;
+  template: ComponentTemplate;
+}
+
+/** A component request value that cannot be used. */
+export class ComponentRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ComponentRequestError";
+  }
+}
+
+/** Set by the job queue for the component generator, holds the resolved request as JSON. */
+export const COMPONENT_REQUEST_ENV = "LOVABLE_COMPONENT_REQUEST";
+
+const NAME_CONFLICTS: NameConflict[] = ["suffix", "version"];
+
+// Longer names are cut at a word boundary
+export const MAX_COMPONENT_NAME_LENGTH = 40;
+
+/**
+ * Returns why `name` cannot be a component name, or undefined when it can.
+ * OC accepts letters, digits, "-" and "_"; the name is also the npm package
+ * name, which must be lowercase and cannot start with "_".
+ */
+export function validateComponentName(name: string): string | undefined {
+  if (!name) {
+    return "Component name is empty";
+  }
+  if (name.length > MAX_COMPONENT_NAME_LENGTH) {
+    return `Component name is longer than ${MAX_COMPONENT_NAME_LENGTH} characters`;
+  }
+  if (!/^[a-z0-9][a-z0-9_-]*$/.test(name)) {
+    return "Component names may only contain lowercase letters, digits, \"-\" and \"_\", and must start with a letter or digit";
+  }
+  return undefined;
+}
+
+/** Validates the component settings of a request, unset values get their defaults. */
+export function resolveComponentRequest(input: unknown = {}): ComponentRequest {
+  if (input === null || typeof input !== "object" || Array.isArray(input)) {
+    throw new ComponentRequestError("component must be an object");
+  }
+  const { name, onConflict = "suffix", type = "ui", template = "vanilla" } = input as Record<string, unknown>;
+
+  if (name !== undefined && name !== "") {
+    if (typeof name !== "string") {
+      throw new ComponentRequestError("component.name must be a string");
+    }
+    const problem = validateComponentName(name);
+    if (problem) {
+      throw new ComponentRequestError(problem);
+    }
+  }
+  if (!NAME_CONFLICTS.includes(onConflict as NameConflict)) {
+    throw new ComponentRequestError(`component.onConflict must be one of: ${NAME_CONFLICTS.join(", ")}`);
+  }
+  if (!Object.keys(COMPONENT_TYPES).includes(type as string)) {
+    throw new ComponentRequestError(`component.type must be one of: ${Object.keys(COMPONENT_TYPES).join(", ")}`);
+  }
+  if (!Object.keys(COMPONENT_TEMPLATES).includes(template as string)) {
+    throw new ComponentRequestError(
+      `component.template must be one of: ${Object.keys(COMPONENT_TEMPLATES).join(", ")}`
+    );
+  }
+
+  return {
+    name: (name as string) || undefined,
+    onConflict: onConflict as NameConflict,
+    type: type as ComponentType,
+    template: template as ComponentTemplate,
+  };
+}
+
+/** Request of the current generator process, or the defaults when the script runs standalone. */
+export function getProcessComponentRequest(): ComponentRequest {
+  const resolved = process.env[COMPONENT_REQUEST_ENV];
+  return resolveComponentRequest(resolved ? JSON.parse(resolved) : {});
+}
@@ -0,0 +1,23 @@
+/**
+ * What a component does:
+ * - "ui": presentational, renders the parameters it is given
+ * - "data": loads or computes its data in server.js before rendering
+ * - "composite": combines several parts, or other components, into one
+ */
+export type ComponentType = "ui" | "data" | "composite";
+
+/** Framework the view is written in, each maps to an OC template type. */
+export type ComponentTemplate = "vanilla" | "react" | "vue" | "svelte";
+
+export const COMPONENT_TYPES: Record<ComponentType, { label: string; description: string }> = {
+  ui: { label: "UI", description: "Presentational, renders its parameters" },
+  data: { label: "Data-driven", description: "Fetches or computes data in server.js" },
+  composite: { label: "Composite", description: "Combines several parts or components" },
+};
+
+export const COMPONENT_TEMPLATES: Record<ComponentTemplate, { label: string; ocTemplate: string }> = {
+  vanilla: { label: "Vanilla JS", ocTemplate: "oc-template-es6" },
+  react: { label: "React", ocTemplate: "oc-template-react" },
+  vue: { label: "Vue", ocTemplate: "oc-template-vue" },
+  svelte: { label: "Svelte", ocTemplate: "oc-template-svelte" },
+};
@@ -0,0 +1,350 @@
+import { MAX_TOOL_RESULT_LENGTH, type GenerationEvent } from "./events";
+
+/** One line of a diff, numbered in the version(s) of the file it belongs to. */
+export interface DiffLine {
+  type: "context" | "added" | "removed";
+  text: string;
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+/** A run of changed lines with the unchanged lines around them, as in a unified diff. */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+/** What one Write, Edit or MultiEdit call changed in a file. */
+export interface FileEdit {
+  tool: string;
+  path: string;
+  hunks: DiffHunk[];
+  added: number;
+  removed: number;
+  // The file did not exist before, as far as the run shows
+  created: boolean;
+  // The file before the call was not seen in the run, only the replaced text is compared
+  partial: boolean;
+  // The tool reported an error, the file was left as it was
+  failed: boolean;
+  // The whole file around the call, unless partial
+  before?: string;
+  after?: string;
+}
+
+/** A file changed by a run, all its edits together. */
+export interface ChangedFile {
+  path: string;
+  edits: number;
+  hunks: DiffHunk[];
+  added: number;
+  removed: number;
+  created: boolean;
+  partial: boolean;
+}
+
+export const FILE_EDIT_TOOLS = ["Write", "Edit", "MultiEdit"];
+
+/** How unified diffs mark each kind of line. */
+export const LINE_PREFIXES: Record<DiffLine["type"], string> = {
+  context: " ",
+  added: "+",
+  removed: "-",
+};
+
+const CONTEXT_LINES = 3;
+
+// Above this many compared line pairs, the changed middle of a file is shown replaced as a whole
+const MAX_DIFF_CELLS = 1000000;
+
+// Lines of a Read result, "     1→text" (older Claude Code versions use a tab)
+const READ_LINE = /^\s*(\d+)(?:→|\t)(.*)$/;
+
+type ToolUseEvent = Extract<GenerationEvent, { type: "tool_use" }>;
+type ToolResultEvent = Extract<GenerationEvent, { type: "tool_result" }>;
+
+function splitLines(text: string) {
+  if (!text) return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/** Line diff of two versions of a file, from their longest common subsequence. */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  const lines: DiffLine[] = [];
+  let oldNumber = 1;
+  let newNumber = 1;
+  const push = (type: DiffLine["type"], text: string) => {
+    const line: DiffLine = { type, text };
+    if (type !== "added") line.oldNumber = oldNumber++;
+    if (type !== "removed") line.newNumber = newNumber++;
+    lines.push(line);
+  };
+
+  // Edits usually touch a small part of the file, only the middle is compared
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  a.slice(0, start).forEach((text) => push("context", text));
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_DIFF_CELLS) {
+    a.slice(start, endA).forEach((text) => push("removed", text));
+    b.slice(start, endB).forEach((text) => push("added", text));
+  } else {
+    // lcs[i * (m + 1) + j]: length of the longest common subsequence of the middles from line i and j on
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] =
+          a[start + i] === b[start + j]
+            ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        push("context", a[start + i]);
+        i++;
+        j++;
+      } else if (j >= m || (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+        push("removed", a[start + i]);
+        i++;
+      } else {
+        push("added", b[start + j]);
+        j++;
+      }
+    }
+  }
+  a.slice(endA).forEach((text) => push("context", text));
+  return lines;
+}
+
+function toHunk(lines: DiffLine[], start: number, end: number): DiffHunk {
+  const before = lines.slice(0, start);
+  const hunk = lines.slice(start, end);
+  const oldBefore = before.filter((line) => line.type !== "added").length;
+  const newBefore = before.filter((line) => line.type !== "removed").length;
+  const oldLines = hunk.filter((line) => line.type !== "added").length;
+  const newLines = hunk.filter((line) => line.type !== "removed").length;
+  return {
+    oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+    oldLines,
+    newStart: newLines > 0 ? newBefore + 1 : newBefore,
+    newLines,
+    lines: hunk,
+  };
+}
+
+/** Groups the changes of a diff into hunks with `context` unchanged lines around them. */
+export function diffHunks(lines: DiffLine[], context = CONTEXT_LINES): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type === "context") {
+      index++;
+      continue;
+    }
+    // Changes close enough for their contexts to meet share a hunk
+    let lastChange = index;
+    let next = index + 1;
+    while (next < lines.length && next - lastChange <= 2 * context) {
+      if (lines[next].type !== "context") lastChange = next;
+      next++;
+    }
+    const end = Math.min(lines.length, lastChange + context + 1);
+    hunks.push(toHunk(lines, Math.max(0, index - context), end));
+    index = end;
+  }
+  return hunks;
+}
+
+/** Numbers of added and removed lines in the hunks. */
+export function countChanges(hunks: DiffHunk[]) {
+  let added = 0;
+  let removed = 0;
+  hunks.forEach((hunk) =>
+    hunk.lines.forEach((line) => {
+      if (line.type === "added") added++;
+      if (line.type === "removed") removed++;
+    })
+  );
+  return { added, removed };
+}
+
+/** Header of a hunk in a unified diff, e.g. "@@ -12,7 +12,9 @@". */
+export function formatHunkHeader(hunk: DiffHunk) {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+/** The changes between two versions of a file as a unified diff, as `diff -u` would print it. */
+export function formatUnifiedDiff(path: string, before: string, after: string) {
+  const hunks = diffHunks(diffLines(before, after));
+  const lines = [`--- a/${path}`, `+++ b/${path}`];
+  hunks.forEach((hunk) => {
+    lines.push(formatHunkHeader(hunk));
+    hunk.lines.forEach((line) => lines.push(`${LINE_PREFIXES[line.type]}${line.text}`));
+  });
+  return lines.join("\n");
+}
+
+// The whole file when the Read result holds all of it, undefined when it was cut off
+function parseReadResult(content: string) {
+  if (content.length > MAX_TOOL_RESULT_LENGTH) return undefined;
+  const lines: string[] = [];
+  for (const line of content.split("\n")) {
+    const match = READ_LINE.exec(line);
+    if (!match || Number(match[1]) !== lines.length + 1) break;
+    lines.push(match[2]);
+  }
+  return lines.length > 0 ? `${lines.join("\n")}\n` : undefined;
+}
+
+// Like the Edit tool, undefined when the text to replace is not in the file
+function replaceText(text: string, oldString: string, newString: string, all?: boolean) {
+  const index = oldString ? text.indexOf(oldString) : -1;
+  if (index < 0) return undefined;
+  return all
+    ? text.split(oldString).join(newString)
+    : text.slice(0, index) + newString + text.slice(index + oldString.length);
+}
+
+function wholeFileEdit(tool: string, path: string, before: string, after: string, created: boolean): FileEdit {
+  const hunks = diffHunks(diffLines(before, after));
+  return { tool, path, hunks, ...countChanges(hunks), created, partial: false, failed: false, before, after };
+}
+
+// `previous` is the file before the call: its content, null when it exists
+// but its content was not seen, undefined when it was never seen
+function toFileEdit(tool: string, input: any, path: string, previous: string | null | undefined): FileEdit | undefined {
+  if (tool === "Write") {
+    if (typeof input.content !== "string") return undefined;
+    if (previous === null) {
+      const hunks = diffHunks(diffLines("", input.content));
+      return { tool, path, hunks, ...countChanges(hunks), created: false, partial: true, failed: false };
+    }
+    return wholeFileEdit(tool, path, previous || "", input.content, previous === undefined);
+  }
+
+  const replacements: any[] | undefined =
+    tool === "Edit" ? [input] : tool === "MultiEdit" && Array.isArray(input.edits) ? input.edits : undefined;
+  if (
+    !replacements ||
+    replacements.some((edit) => typeof edit?.old_string !== "string" || typeof edit?.new_string !== "string")
+  ) {
+    return undefined;
+  }
+
+  if (typeof previous === "string") {
+    let text: string | undefined = previous;
+    replacements.forEach((edit) => {
+      text = text === undefined ? undefined : replaceText(text, edit.old_string, edit.new_string, edit.replace_all);
+    });
+    if (text !== undefined) {
+      return wholeFileEdit(tool, path, previous, text, false);
+    }
+  }
+
+  // Only the replaced text is known, each replacement is a hunk of its own
+  const hunks = replacements.map((edit) => {
+    const lines = diffLines(edit.old_string, edit.new_string);
+    return toHunk(lines, 0, lines.length);
+  });
+  return { tool, path, hunks, ...countChanges(hunks), created: false, partial: true, failed: false };
+}
+
+/**
+ * Follows the files a run writes and edits through its tool events, and
+ * diffs each Write, Edit and MultiEdit call against the version of the file
+ * before it. Versions come from the earlier calls and from Read results that
+ * hold the whole file; an edit of a file never seen in full is diffed on the
+ * replaced text only. Returns the edit of each file-modifying tool_use event,
+ * keyed by the event object.
+ */
+export function trackFileEdits(events: ReadonlyArray<{ type: string }>): Map<object, FileEdit> {
+  const edits = new Map<object, FileEdit>();
+  // Content of the files seen so far, null when a file exists but its content is unknown
+  const versions: Record<string, string | null> = {};
+  const calls: Record<string, { edit: FileEdit; previous: string | null | undefined }> = {};
+  const reads: Record<string, { path: string; whole: boolean }> = {};
+
+  events.forEach((event) => {
+    if (event.type === "tool_use") {
+      const { id, name, input } = event as ToolUseEvent;
+      const path = input?.file_path;
+      if (typeof path !== "string") return;
+
+      if (name === "Read") {
+        if (id) reads[id] = { path, whole: input.offset === undefined && input.limit === undefined };
+        return;
+      }
+      if (!FILE_EDIT_TOOLS.includes(name)) return;
+      const previous = path in versions ? versions[path] : undefined;
+      const edit = toFileEdit(name, input, path, previous);
+      if (!edit) return;
+      versions[path] = edit.after ?? null;
+      edits.set(event, edit);
+      if (id) calls[id] = { edit, previous };
+    } else if (event.type === "tool_result") {
+      const { toolUseId, content, isError } = event as ToolResultEvent;
+      if (!toolUseId) return;
+
+      const call = calls[toolUseId];
+      if (call && isError) {
+        call.edit.failed = true;
+        if (call.previous === undefined) {
+          delete versions[call.edit.path];
+        } else {
+          versions[call.edit.path] = call.previous;
+        }
+      }
+      const read = reads[toolUseId];
+      if (read && !isError) {
+        const whole = read.whole ? parseReadResult(content) : undefined;
+        versions[read.path] = whole ?? versions[read.path] ?? null;
+      }
+    }
+  });
+  return edits;
+}
+
+/** Puts the successful edits of each file together, in the order the files were first changed. */
+export function summarizeFileEdits(edits: FileEdit[]): ChangedFile[] {
+  const byPath: Record<string, FileEdit[]> = {};
+  const paths: string[] = [];
+  edits
+    .filter((edit) => !edit.failed)
+    .forEach((edit) => {
+      if (!byPath[edit.path]) {
+        byPath[edit.path] = [];
+        paths.push(edit.path);
+      }
+      byPath[edit.path].push(edit);
+    });
+
+  return paths.map((path) => {
+    const fileEdits = byPath[path];
+    const first = fileEdits[0];
+    const last = fileEdits[fileEdits.length - 1];
+    const partial = fileEdits.some((edit) => edit.partial);
+    // Whole versions give one diff from before the first edit to after the last
+    const hunks = partial
+      ? fileEdits.reduce<DiffHunk[]>((all, edit) => all.concat(edit.hunks), [])
+      : diffHunks(diffLines(first.before || "", last.after || ""));
+    return { path, edits: fileEdits.length, hunks, ...countChanges(hunks), created: first.created, partial };
+  });
+}
@@ -0,0 +1,89 @@
+import * as fs from "fs";
+import {
+  parseEventLine,
+  serializeEvent,
+  type GenerationEvent,
+  type GenerationStage,
+} from "./events";
+
+/**
+ * File descriptor the parent process reads NDJSON events from. Keeping events
+ * off stdout means human-readable logging can change freely.
+ */
+export const EVENTS_FD_ENV = "LOVABLE_EVENTS_FD";
+
+/** Id of the job a generator runs for, set by the job queue. */
+export const JOB_ID_ENV = "LOVABLE_JOB_ID";
+
+export type EmitEvent = (event: GenerationEvent) => void;
+
+/** Returns an emitter that writes to the events fd, or a no-op when run standalone. */
+export function createEventEmitter(): EmitEvent {
+  const fd = process.env[EVENTS_FD_ENV] ? parseInt(process.env[EVENTS_FD_ENV]!) : undefined;
+  return (event) => {
+    if (fd !== undefined) {
+      fs.writeSync(fd, serializeEvent(event) + "\n");
+    }
+  };
+}
+
+/** Emits matching stage_started / stage_finished / error events around each step. */
+export function createStageTracker(emit: EmitEvent) {
+  let current: { stage: GenerationStage; startedAt: number } | undefined;
+
+  const finish = (ok = true, message?: string) => {
+    if (!current) return;
+    emit({
+      type: "stage_finished",
+      stage: current.stage,
+      ok,
+      durationMs: Date.now() - current.startedAt,
+      message,
+    });
+    current = undefined;
+  };
+
+  return {
+    start(stage: GenerationStage, label: string) {
+      finish();
+      current = { stage, startedAt: Date.now() };
+      emit({ type: "stage_started", stage, label });
+    },
+    finish,
+    /** Closes the running stage as failed and reports the error against it. */
+    fail(error: Error) {
+      const stage = current?.stage;
+      finish(false, error.message);
+      emit({
+        type: "error",
+        code: stage ? `${stage}_failed` : "internal_error",
+        message: error.message,
+      });
+    },
+  };
+}
+
+export type StageTracker = ReturnType<typeof createStageTracker>;
+
+/**
+ * Splits the output of an in-sandbox runner into protocol events, which are
+ * validated and re-emitted, and plain output lines, which are logged.
+ */
+export function forwardRunnerOutput(
+  output: string,
+  emit: EmitEvent,
+  log: (line: string) => void = console.log
+) {
+  for (const line of output.split("\n")) {
+    // Anything that looks like an event must parse, so version mismatches are reported
+    if (!line.startsWith('{"v":')) {
+      if (line.trim()) log(line);
+      continue;
+    }
+    try {
+      emit(parseEventLine(line));
+    } catch (error: any) {
+      emit({ type: "error", code: "protocol_error", message: error.message });
+    }
+  }
+}
@@ -0,0 +1,261 @@
+import type { SDKMessage } from "@anthropic-ai/claude-code";
+
+/**
+ * Events exchanged between the generator scripts, the API routes and the
+ * generate page. Generators write them as NDJSON (one serialized event per
+ * line) and routes forward them to the browser over SSE.
+ *
+ * Bump EVENT_PROTOCOL_VERSION on any breaking change to the shapes below.
+ */
+export const EVENT_PROTOCOL_VERSION = 1;
+
+export type GenerationStage =
+  | "sandbox"
+  | "toolchain"
+  | "scaffold"
+  | "generate"
+  | "install"
+  | "build"
+  | "repair"
+  | "publish"
+  | "preview";
+
+export type ErrorCode =
+  | `${GenerationStage}_failed`
+  | "invalid_request"
+  | "protocol_error"
+  | "process_failed"
+  | "missing_artifact"
+  | "cancelled"
+  | "budget_exceeded"
+  | "internal_error";
+
+export type Artifact =
+  | { kind: "sandbox"; sandboxId: string }
+  | { kind: "component"; name: string; url: string }
+  | { kind: "preview"; url: string };
+
+export type GenerationEvent =
+  | { type: "stage_started"; stage: GenerationStage; label: string }
+  | { type: "stage_finished"; stage: GenerationStage; ok: boolean; durationMs?: number; message?: string }
+  | { type: "assistant_text"; text: string }
+  | { type: "tool_use"; id?: string; name: string; input: any }
+  | { type: "tool_result"; toolUseId?: string; content: string; isError?: boolean }
+  | ({ type: "artifact" } & Artifact)
+  | { type: "log"; message: string }
+  // A tool call the permission guard refused, Claude sees `message` as the tool's error
+  | { type: "permission_denied"; tool: string; message: string; input?: any }
+  | {
+      // One Claude Code run: the generation itself, or a repair
+      type: "usage";
+      inputTokens: number;
+      outputTokens: number;
+      cacheReadTokens: number;
+      cacheCreationTokens: number;
+      costUsd: number;
+      numTurns?: number;
+      durationMs?: number;
+      // Set when the run was stopped before Claude Code reported its cost
+      estimated?: boolean;
+    }
+  | { type: "error"; code: ErrorCode; message: string }
+  | {
+      type: "complete";
+      sandboxId?: string;
+      previewUrl?: string;
+      componentName?: string;
+      componentUrl?: string;
+      // Claude Code session to resume for follow-up prompts
+      sessionId?: string;
+    };
+
+export type GenerationEventType = GenerationEvent["type"];
+
+export class EventValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EventValidationError";
+  }
+}
+
+const STAGES: GenerationStage[] = [
+  "sandbox",
+  "toolchain",
+  "scaffold",
+  "generate",
+  "install",
+  "build",
+  "repair",
+  "publish",
+  "preview",
+];
+
+// Tool results can be whole files, keep the stream light
+export const MAX_TOOL_RESULT_LENGTH = 2000;
+
+function requireString(value: any, field: string) {
+  if (typeof value[field] !== "string") {
+    throw new EventValidationError(`"${value.type}" event requires a string "${field}"`);
+  }
+}
+
+function requireNumber(value: any, field: string) {
+  if (typeof value[field] !== "number") {
+    throw new EventValidationError(`"${value.type}" event requires a number "${field}"`);
+  }
+}
+
+function optionalString(value: any, field: string) {
+  if (value[field] !== undefined && typeof value[field] !== "string") {
+    throw new EventValidationError(`"${value.type}" event field "${field}" must be a string`);
+  }
+}
+
+/** Checks that an unknown value is a well-formed event of the current protocol version. */
+export function validateEvent(value: unknown): GenerationEvent {
+  if (!value || typeof value !== "object") {
+    throw new EventValidationError("Event must be an object");
+  }
+  const event = value as any;
+
+  switch (event.type) {
+    case "stage_started":
+      requireString(event, "label");
+    // falls through
+    case "stage_finished":
+      if (!STAGES.includes(event.stage)) {
+        throw new EventValidationError(`Unknown stage "${event.stage}"`);
+      }
+      if (event.type === "stage_finished" && typeof event.ok !== "boolean") {
+        throw new EventValidationError(`"stage_finished" event requires a boolean "ok"`);
+      }
+      break;
+    case "assistant_text":
+      requireString(event, "text");
+      break;
+    case "tool_use":
+      requireString(event, "name");
+      optionalString(event, "id");
+      break;
+    case "tool_result":
+      requireString(event, "content");
+      optionalString(event, "toolUseId");
+      break;
+    case "artifact":
+      if (event.kind === "sandbox") {
+        requireString(event, "sandboxId");
+      } else if (event.kind === "component") {
+        requireString(event, "name");
+        requireString(event, "url");
+      } else if (event.kind === "preview") {
+        requireString(event, "url");
+      } else {
+        throw new EventValidationError(`Unknown artifact kind "${event.kind}"`);
+      }
+      break;
+    case "log":
+      requireString(event, "message");
+      break;
+    case "permission_denied":
+      requireString(event, "tool");
+      requireString(event, "message");
+      break;
+    case "usage":
+      for (const field of ["inputTokens", "outputTokens", "cacheReadTokens", "cacheCreationTokens", "costUsd"]) {
+        requireNumber(event, field);
+      }
+      break;
+    case "error":
+      requireString(event, "code");
+      requireString(event, "message");
+      break;
+    case "complete":
+      for (const field of ["sandboxId", "previewUrl", "componentName", "componentUrl", "sessionId"]) {
+        optionalString(event, field);
+      }
+      break;
+    default:
+      throw new EventValidationError(`Unknown event type "${event.type}"`);
+  }
+
+  return event as GenerationEvent;
+}
+
+/** Serializes an event as one NDJSON line (without the trailing newline). */
+export function serializeEvent(event: GenerationEvent): string {
+  return JSON.stringify({ v: EVENT_PROTOCOL_VERSION, ...event });
+}
+
+/** Parses and validates one NDJSON line produced by `serializeEvent`. */
+export function parseEventLine(line: string): GenerationEvent {
+  let value: any;
+  try {
+    value = JSON.parse(line);
+  } catch {
+    throw new EventValidationError(`Invalid JSON: ${line.substring(0, 100)}`);
+  }
+  if (value?.v !== EVENT_PROTOCOL_VERSION) {
+    throw new EventValidationError(
+      `Unsupported protocol version ${value?.v} (expected ${EVENT_PROTOCOL_VERSION})`
+    );
+  }
+  const { v, ...event } = value;
+  return validateEvent(event);
+}
+
+/**
+ * Returns a function that accepts arbitrary chunks of text and calls
+ * `onLine` for every complete, non-empty line.
+ */
+export function createLineSplitter(onLine: (line: string) => void) {
+  let buffer = "";
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || ""; // Keep incomplete line in buffer
+      for (const line of lines) {
+        if (line.trim()) onLine(line);
+      }
+    },
+    flush() {
+      if (buffer.trim()) onLine(buffer);
+      buffer = "";
+    },
+  };
+}
+
+function toolResultText(content: any): string {
+  const text = Array.isArray(content)
+    ? content.map((block: any) => (block.type === "text" ? block.text : `[${block.type}]`)).join("\n")
+    : String(content ?? "");
+  return text.length > MAX_TOOL_RESULT_LENGTH ? `${text.substring(0, MAX_TOOL_RESULT_LENGTH)}...` : text;
+}
+
+/** Maps one Claude Code SDK message to the events it represents. */
+export function eventsFromSdkMessage(message: SDKMessage): GenerationEvent[] {
+  const events: GenerationEvent[] = [];
+
+  if (message.type === "assistant") {
+    for (const block of message.message.content) {
+      if (block.type === "text") {
+        events.push({ type: "assistant_text", text: block.text });
+      } else if (block.type === "tool_use") {
+        events.push({ type: "tool_use", id: block.id, name: block.name, input: block.input });
+      }
+    }
+  } else if (message.type === "user" && Array.isArray(message.message.content)) {
+    for (const block of message.message.content) {
+      if (block.type === "tool_result") {
+        events.push({
+          type: "tool_result",
+          toolUseId: block.tool_use_id,
+          content: toolResultText(block.content),
+          isError: block.is_error || false,
+        });
+      }
+    }
+  }
+
+  return events;
+}
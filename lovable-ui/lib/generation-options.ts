@@ -0,0 +1,181 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { JobKind } from "./jobs/types";
+
+/** How Claude Code runs for one generation, the same for every generation path. */
+export interface GenerationOptions {
+  // Claude Code picks its default model when unset
+  model?: string;
+  maxTurns: number;
+  allowedTools: string[];
+  disallowedTools: string[];
+  appendSystemPrompt?: string;
+  // Time a single Claude Code run may take
+  timeoutMs: number;
+}
+
+/**
+ * Limits for the options requests may ask for, read from the file in
+ * GENERATION_POLICY_FILE (default: generation-policy.json in the app
+ * directory). Anything the file leaves out keeps the built-in value.
+ */
+export interface GenerationPolicy {
+  // Models requests may choose, the first one is the default. Requests cannot pick a model when empty
+  models: string[];
+  maxTurns: number;
+  // Tools requests may allow, others are dropped
+  tools: string[];
+  maxTimeoutMs: number;
+  maxSystemPromptLength: number;
+  // Programs Bash may run in generations on the web server. "*" allows any but
+  // interpreters and package runners like node or npx, which must be named
+  bashCommands: string[];
+  // Options for requests that do not set them, per kind of generation
+  defaults: Record<JobKind, Partial<GenerationOptions>>;
+}
+
+/** An options value in a request that cannot be clamped into the policy. */
+export class GenerationOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GenerationOptionsError";
+  }
+}
+
+/** Set by the job queue for generator scripts, holds the resolved options as JSON. */
+export const GENERATION_OPTIONS_ENV = "LOVABLE_GENERATION_OPTIONS";
+
+export const DEFAULT_ALLOWED_TOOLS = ["Read", "Write", "Edit", "MultiEdit", "Bash", "LS", "Glob", "Grep"];
+
+const DEFAULT_POLICY: GenerationPolicy = {
+  models: [],
+  maxTurns: 30,
+  tools: [...DEFAULT_ALLOWED_TOOLS, "WebSearch", "WebFetch"],
+  maxTimeoutMs: 20 * 60 * 1000,
+  maxSystemPromptLength: 2000,
+  // No interpreters or package runners: they run code whose paths the guard cannot see
+  bashCommands: [
+    "tsc", "ls", "cat", "head", "tail", "wc", "grep", "mkdir", "touch", "cp", "mv", "rm",
+    "echo", "pwd", "cd", "sort", "diff",
+  ],
+  defaults: {
+    code: { maxTurns: 10, allowedTools: [...DEFAULT_ALLOWED_TOOLS, "WebSearch", "WebFetch"] },
+    website: { maxTurns: 20 },
+    component: { maxTurns: 15 },
+  },
+};
+
+export function getPolicyFile() {
+  return path.resolve(process.env.GENERATION_POLICY_FILE || "generation-policy.json");
+}
+
+/** Reads the policy file on every call, so edits apply to the next request. */
+export function loadGenerationPolicy(file = getPolicyFile()): GenerationPolicy {
+  if (!fs.existsSync(file)) {
+    return DEFAULT_POLICY;
+  }
+  let policy: Partial<GenerationPolicy>;
+  try {
+    policy = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`Invalid generation policy ${file}: ${error.message}`);
+  }
+  return {
+    ...DEFAULT_POLICY,
+    ...policy,
+    defaults: {
+      code: { ...DEFAULT_POLICY.defaults.code, ...policy.defaults?.code },
+      website: { ...DEFAULT_POLICY.defaults.website, ...policy.defaults?.website },
+      component: { ...DEFAULT_POLICY.defaults.component, ...policy.defaults?.component },
+    },
+  };
+}
+
+function optionalNumber(input: any, field: string): number | undefined {
+  if (input[field] === undefined) return undefined;
+  if (typeof input[field] !== "number" || !Number.isFinite(input[field])) {
+    throw new GenerationOptionsError(`options.${field} must be a number`);
+  }
+  return input[field];
+}
+
+function optionalString(input: any, field: string): string | undefined {
+  if (input[field] === undefined) return undefined;
+  if (typeof input[field] !== "string") {
+    throw new GenerationOptionsError(`options.${field} must be a string`);
+  }
+  return input[field];
+}
+
+function optionalTools(input: any, field: string): string[] | undefined {
+  if (input[field] === undefined) return undefined;
+  if (!Array.isArray(input[field]) || input[field].some((tool: unknown) => typeof tool !== "string")) {
+    throw new GenerationOptionsError(`options.${field} must be an array of tool names`);
+  }
+  return input[field];
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(Math.max(Math.round(value), min), max);
+}
+
+/**
+ * Turns the options of a request into the options a generation runs with:
+ * unset values come from the policy defaults for `kind` (or from `base`,
+ * the options of the job a follow-up continues), numbers are clamped, tools
+ * outside the policy are dropped and unknown models are rejected.
+ */
+export function resolveGenerationOptions(
+  kind: JobKind,
+  input: unknown = {},
+  base?: GenerationOptions,
+  policy = loadGenerationPolicy()
+): GenerationOptions {
+  if (input === null || typeof input !== "object" || Array.isArray(input)) {
+    throw new GenerationOptionsError("options must be an object");
+  }
+  const defaults = { ...policy.defaults[kind], ...base };
+
+  const model = optionalString(input, "model") ?? defaults.model ?? policy.models[0];
+  if (optionalString(input, "model") !== undefined && !policy.models.includes(model!)) {
+    throw new GenerationOptionsError(
+      policy.models.length > 0
+        ? `Model ${model} is not allowed, use one of: ${policy.models.join(", ")}`
+        : "This server does not allow choosing a model"
+    );
+  }
+
+  const appendSystemPrompt = optionalString(input, "appendSystemPrompt") ?? defaults.appendSystemPrompt;
+  if (appendSystemPrompt && appendSystemPrompt.length > policy.maxSystemPromptLength) {
+    throw new GenerationOptionsError(
+      `options.appendSystemPrompt is longer than ${policy.maxSystemPromptLength} characters`
+    );
+  }
+
+  const allowedTools = (optionalTools(input, "allowedTools") ?? defaults.allowedTools ?? DEFAULT_ALLOWED_TOOLS)
+    .filter((tool) => policy.tools.includes(tool));
+
+  return {
+    model: model || undefined,
+    maxTurns: clamp(optionalNumber(input, "maxTurns") ?? defaults.maxTurns ?? 10, 1, policy.maxTurns),
+    allowedTools,
+    disallowedTools: optionalTools(input, "disallowedTools") ?? defaults.disallowedTools ?? [],
+    appendSystemPrompt: appendSystemPrompt || undefined,
+    timeoutMs: clamp(optionalNumber(input, "timeoutMs") ?? defaults.timeoutMs ?? 600000, 60000, policy.maxTimeoutMs),
+  };
+}
+
+/**
+ * Options of the current generator process: what the job queue resolved
+ * for it, or the policy defaults when a script runs standalone.
+ */
+export function getProcessGenerationOptions(kind: JobKind): GenerationOptions {
+  const resolved = process.env[GENERATION_OPTIONS_ENV];
+  return resolved ? JSON.parse(resolved) : resolveGenerationOptions(kind);
+}
+
+/** The Claude Code query options for a generation, `timeoutMs` is enforced by the caller. */
+export function toQueryOptions(options: GenerationOptions) {
+  const { timeoutMs, ...queryOptions } = options;
+  return queryOptions;
+}
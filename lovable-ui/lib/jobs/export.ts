@@ -0,0 +1,124 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createZip, type ZipEntry } from "../zip";
+import { MAX_PROJECT_FILES, findJob, openProject, type Project } from "./files";
+import { getJob, getTranscript } from "./store";
+import { JobRequestError, type Job, type TranscriptRun } from "./types";
+
+/** A job's project packed into a zip archive. */
+export interface ProjectArchive {
+  fileName: string;
+  content: Buffer;
+}
+
+/** What writing a project into a local directory changed. */
+export interface SyncResult {
+  // Relative paths of the files created or overwritten
+  written: string[];
+  unchanged: number;
+}
+
+export interface ExportOptions {
+  // Adds GENERATION_LOG_FILE with Claude Code's transcript of every turn
+  includeLog?: boolean;
+}
+
+// Claude Code's transcript, next to the project's files when it is asked for
+export const GENERATION_LOG_FILE = "generation-log.json";
+
+// Files are downloaded from the sandbox a few at a time
+const DOWNLOAD_CONCURRENCY = 8;
+
+// The generation and its follow-ups up to `job`, oldest first
+function getJobChain(job: Job): Job[] {
+  const chain = [job];
+  while (chain[0].parentJobId) {
+    const parent = getJob(chain[0].parentJobId);
+    if (!parent) break;
+    chain.unshift(parent);
+  }
+  return chain;
+}
+
+/** The name of an exported project: the component's, or the kind and the generation's id. */
+export function getExportName(job: Job): string {
+  const componentName = job.result?.componentName || job.resumeFrom?.componentName;
+  return componentName || `${job.kind === "code" ? "project" : job.kind}-${getJobChain(job)[0].id.slice(0, 8)}`;
+}
+
+/** The transcripts of every Claude Code run of the generation and its follow-ups up to `job`. */
+export function getGenerationLog(job: Job): Buffer {
+  const runs = getJobChain(job).reduce<TranscriptRun[]>((all, link) => all.concat(getTranscript(link.id)), []);
+  return Buffer.from(JSON.stringify(runs, null, 2));
+}
+
+/** Every file of a project, without installed packages, build output and hidden directories like .git. */
+export async function readAllProjectFiles(project: Project): Promise<ZipEntry[]> {
+  const paths = (await project.list()).sort();
+  if (paths.length > MAX_PROJECT_FILES) {
+    throw new JobRequestError(`The project has more than ${MAX_PROJECT_FILES} files, too many to export`, 413);
+  }
+  const files: ZipEntry[] = [];
+  for (let start = 0; start < paths.length; start += DOWNLOAD_CONCURRENCY) {
+    const batch = paths.slice(start, start + DOWNLOAD_CONCURRENCY);
+    const contents = await Promise.all(batch.map((file) => project.read(file)));
+    batch.forEach((file, index) => files.push({ path: file, content: contents[index] }));
+  }
+  return files;
+}
+
+/** The files of a job's project, and the name to export them under. */
+export async function collectProjectFiles(
+  jobId: string,
+  options: ExportOptions = {}
+): Promise<{ name: string; files: ZipEntry[] }> {
+  const job = findJob(jobId);
+  const project = await openProject(job);
+  // Until a component has a name its directory is unknown
+  if (!project?.versioned) {
+    throw new JobRequestError(`Job ${jobId} has no project to export yet`, 409);
+  }
+  const files = await readAllProjectFiles(project);
+  if (files.length === 0) {
+    throw new JobRequestError(`The project of job ${jobId} has no files yet`, 409);
+  }
+  if (options.includeLog) {
+    files.push({ path: GENERATION_LOG_FILE, content: getGenerationLog(job) });
+  }
+  return { name: getExportName(job), files };
+}
+
+/**
+ * Packs the files of a job's project into a zip archive with one directory,
+ * named after the project, at its top.
+ */
+export async function exportProjectZip(jobId: string, options: ExportOptions = {}): Promise<ProjectArchive> {
+  const { name, files } = await collectProjectFiles(jobId, options);
+  return {
+    fileName: `${name}.zip`,
+    content: createZip(files.map((file) => ({ path: `${name}/${file.path}`, content: file.content }))),
+  };
+}
+
+/**
+ * Writes a project's files into `dir`, leaving the ones that are already up
+ * to date alone. Local files the project doesn't have are kept.
+ */
+export function writeProjectFiles(files: ZipEntry[], dir: string): SyncResult {
+  const root = path.resolve(dir);
+  const result: SyncResult = { written: [], unchanged: 0 };
+  files.forEach((file) => {
+    const target = path.resolve(root, file.path);
+    if (!target.startsWith(root + path.sep)) {
+      throw new Error(`${file.path} is outside ${root}`);
+    }
+    if (fs.existsSync(target) && fs.readFileSync(target).equals(file.content)) {
+      result.unchanged++;
+      return;
+    }
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, file.content);
+    result.written.push(file.path);
+  });
+  return result;
+}
@@ -0,0 +1,405 @@
+import * as fs from "fs";
+import * as path from "path";
+import { republishComponent } from "../components";
+import { formatUnifiedDiff } from "../diff";
+import { getWorkspaceDir } from "../permissions";
+import { dataPath } from "../store";
+import { SandboxNotFoundError, WEBSITE_PROJECT_DIR, getSandboxProvider, type ExecResult, type Sandbox } from "../sandbox";
+import { run } from "../sandbox/local";
+import { USER_AUTHOR, commitAll, commitMessage, type Repository } from "./git";
+import { appendJobEvent, getJob, listJobs, updateJob } from "./store";
+import { JobNotFoundError, JobRequestError, isFinished, type Job, type ManualEdit } from "./types";
+
+/** The files of a job's project, as the file explorer lists them. */
+export interface ProjectFiles {
+  // Absolute path of the project in the workspace or sandbox, tool calls name files under it.
+  // Unset until the job has a workspace or sandbox
+  root?: string;
+  // Relative to root, sorted
+  files: string[];
+  // There were more than MAX_PROJECT_FILES files, the rest are left out
+  truncated: boolean;
+}
+
+/** One file of a job's project. */
+export interface ProjectFile {
+  path: string;
+  size: number;
+  // Left out for binary files and files over MAX_PROJECT_FILE_BYTES
+  content?: string;
+}
+
+/** A file saved from the code editor. */
+export interface SavedFile {
+  file: ProjectFile;
+  // Set when the save published a new version of the job's component
+  publishedVersion?: string;
+}
+
+export const MAX_PROJECT_FILES = 1000;
+export const MAX_PROJECT_FILE_BYTES = 1024 * 1024;
+
+// Diffs of manual edits go into the next prompt, big rewrites are cut short
+const MAX_MANUAL_EDIT_DIFF_LENGTH = 4000;
+
+// Commands in the project, e.g. git, must not hang a request
+const PROJECT_EXEC_TIMEOUT_MS = 60000;
+
+// Installed packages and build output, hidden directories (.git, the runner's files...) are skipped too
+const SKIPPED_DIRS = ["node_modules", ".next", "_package"];
+
+export interface Project extends Repository {
+  root: string;
+  // False while a component has no name yet and its files are searched in the whole sandbox
+  versioned: boolean;
+  list(): Promise<string[]>;
+  read(relativePath: string): Promise<Buffer>;
+  write(relativePath: string, content: string): Promise<void>;
+  // Set for published components, publishes the project as a new version
+  publish?: () => Promise<string>;
+}
+
+// Changes to the same project run one after the other, so commits and publishes don't race
+const pendingChanges: Record<string, Promise<unknown>> = {};
+
+function isSkippedDir(name: string) {
+  return SKIPPED_DIRS.includes(name) || name.startsWith(".");
+}
+
+// The generation a chain of follow-ups started from, they all work on its project
+function getRootJob(job: Job): Job {
+  let root = job;
+  while (root.parentJobId) {
+    const parent = getJob(root.parentJobId);
+    if (!parent) break;
+    root = parent;
+  }
+  return root;
+}
+
+/** Follow-ups work on the files of the generation they continue, so they share its workspace. */
+export function getJobWorkspace(job: Job): string {
+  return getWorkspaceDir(getRootJob(job).id);
+}
+
+// The history of a workspace is kept out of it, where Claude can't write
+function getJobGitDir(job: Job): string {
+  return dataPath("git", getRootJob(job).id);
+}
+
+function listWorkspaceFiles(dir: string, prefix = ""): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).reduce<string[]>((files, entry) => {
+    if (entry.isDirectory() && !isSkippedDir(entry.name)) {
+      return files.concat(listWorkspaceFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`));
+    }
+    return entry.isFile() ? files.concat(`${prefix}${entry.name}`) : files;
+  }, []);
+}
+
+// Claude may have left symlinks pointing out of the workspace
+function isInsideWorkspace(root: string, target: string) {
+  return fs.realpathSync(target).startsWith(fs.realpathSync(root) + path.sep);
+}
+
+function workspaceProject(root: string, gitDir: string): Project {
+  return {
+    root,
+    gitDir,
+    list: async () => (fs.existsSync(root) ? listWorkspaceFiles(root) : []),
+    read: async (relativePath) => {
+      const file = path.join(root, relativePath);
+      if (!fs.existsSync(file) || !isInsideWorkspace(root, file)) {
+        throw new JobNotFoundError(relativePath, "File");
+      }
+      return fs.readFileSync(file);
+    },
+    write: async (relativePath, content) => {
+      const file = path.join(root, relativePath);
+      // Checked like reads, a symlinked directory or file would have the write land outside the workspace
+      const dir = path.dirname(file);
+      const dirInside = fs.existsSync(dir) && (path.resolve(dir) === path.resolve(root) || isInsideWorkspace(root, dir));
+      // lstat, since a dangling symlink doesn't exist but writing to it creates its target
+      const existing = fs.lstatSync(file, { throwIfNoEntry: false });
+      if (!dirInside || (existing && (!fs.existsSync(file) || !isInsideWorkspace(root, file)))) {
+        throw new JobNotFoundError(relativePath, "File");
+      }
+      fs.writeFileSync(file, content);
+    },
+    exec: async (command, env) => {
+      const { exitCode, output } = await run("bash", ["-c", command], {
+        cwd: root,
+        env: { ...process.env, ...env },
+        timeoutMs: PROJECT_EXEC_TIMEOUT_MS,
+      });
+      return { exitCode, result: output.toString() };
+    },
+    versioned: true,
+  };
+}
+
+function sandboxProject(sandbox: Sandbox, root: string, componentName?: string, versioned = true): Project {
+  const skipped = SKIPPED_DIRS.concat(".*")
+    .map((name) => `-name '${name}'`)
+    .join(" -o ");
+  return {
+    root,
+    list: async () => {
+      // The project directory may not be there yet
+      const result = await sandbox.exec(
+        `cd '${root}' 2>/dev/null || exit 0; ` +
+          `find . -type d \\( ${skipped} \\) ! -name . -prune -o -type f -print | head -n ${MAX_PROJECT_FILES + 1}`
+      );
+      if (result.exitCode !== 0) {
+        throw new Error(`Could not list the files in ${root}: ${result.result}`);
+      }
+      return result.result
+        .split("\n")
+        .filter((line) => line.startsWith("./"))
+        .map((line) => line.slice(2));
+    },
+    read: async (relativePath) => {
+      const check = await sandbox.exec(`test -f '${root}/${relativePath}' && echo yes || echo no`);
+      if (check.result.trim() !== "yes") {
+        throw new JobNotFoundError(relativePath, "File");
+      }
+      return sandbox.downloadFile(`${root}/${relativePath}`);
+    },
+    write: (relativePath, content) => sandbox.uploadFile(content, `${root}/${relativePath}`),
+    exec: (command, env): Promise<ExecResult> => sandbox.exec(command, root, env, PROJECT_EXEC_TIMEOUT_MS),
+    publish: componentName ? () => republishComponent(sandbox, root, componentName) : undefined,
+    versioned,
+  };
+}
+
+/** Where the job's files are: its workspace for code jobs, its project in the sandbox otherwise. */
+export async function openProject(job: Job): Promise<Project | undefined> {
+  if (job.kind === "code") {
+    return workspaceProject(getJobWorkspace(job), getJobGitDir(job));
+  }
+
+  const sandboxId = job.sandboxId || job.result?.sandboxId || job.resumeFrom?.sandboxId;
+  if (!sandboxId) {
+    return undefined;
+  }
+  let sandbox: Sandbox;
+  try {
+    sandbox = await getSandboxProvider().get(sandboxId);
+  } catch (error: any) {
+    if (error instanceof SandboxNotFoundError) {
+      throw new JobRequestError(`The sandbox of job ${job.id} was removed`, 410);
+    }
+    throw error;
+  }
+
+  const rootDir = await sandbox.getUserRootDir();
+  if (job.kind === "website") {
+    return sandboxProject(sandbox, `${rootDir}/${WEBSITE_PROJECT_DIR}`);
+  }
+  // Until the component has a name, its directory is somewhere in the sandbox's root
+  const componentName = job.result?.componentName || job.resumeFrom?.componentName;
+  return componentName
+    ? sandboxProject(sandbox, `${rootDir}/${componentName}`, componentName)
+    : sandboxProject(sandbox, rootDir, undefined, false);
+}
+
+/**
+ * The project a generator script made in a sandbox, e.g. one run from the
+ * command line: the directory of the component `componentName`, the website
+ * project without it. Throws SandboxNotFoundError for removed sandboxes.
+ */
+export async function openSandboxProject(sandboxId: string, componentName?: string): Promise<Project> {
+  const sandbox = await getSandboxProvider().get(sandboxId);
+  const rootDir = await sandbox.getUserRootDir();
+  return componentName
+    ? sandboxProject(sandbox, `${rootDir}/${componentName}`, componentName)
+    : sandboxProject(sandbox, `${rootDir}/${WEBSITE_PROJECT_DIR}`);
+}
+
+export function findJob(jobId: string) {
+  const job = getJob(jobId);
+  if (!job) {
+    throw new JobNotFoundError(jobId);
+  }
+  return job;
+}
+
+// Project paths are relative and stay inside the project, out of hidden files like .git the explorer doesn't show
+function checkProjectPath(relativePath: string) {
+  const normalized = path.posix.normalize(relativePath);
+  if (
+    !relativePath ||
+    path.posix.isAbsolute(normalized) ||
+    normalized.split("/").some((segment) => segment.startsWith(".")) ||
+    // Sandbox paths go into quoted shell commands
+    /['\\\0]/.test(normalized)
+  ) {
+    throw new JobRequestError(`Invalid file path: ${relativePath}`);
+  }
+  return normalized;
+}
+
+/** Lists the files Claude generated for a job, without installed packages, build output and hidden files. */
+export async function listProjectFiles(jobId: string): Promise<ProjectFiles> {
+  const project = await openProject(findJob(jobId));
+  if (!project) {
+    return { files: [], truncated: false };
+  }
+  // Exports keep files like .gitignore, but the editor can't open them
+  const files = (await project.list()).filter((file) => !/(^|\/)\./.test(file)).sort();
+  return { root: project.root, files: files.slice(0, MAX_PROJECT_FILES), truncated: files.length > MAX_PROJECT_FILES };
+}
+
+/** Reads one file of a job's project, `relativePath` is relative to its root. */
+export async function readProjectFile(jobId: string, relativePath: string): Promise<ProjectFile> {
+  const filePath = checkProjectPath(relativePath);
+  const project = await openProject(findJob(jobId));
+  if (!project) {
+    throw new JobNotFoundError(filePath, "File");
+  }
+
+  const content = await project.read(filePath);
+  // Text files have no NUL bytes, at least not near the start
+  const binary = content.subarray(0, 8000).includes(0);
+  return {
+    path: filePath,
+    size: content.length,
+    content: binary || content.length > MAX_PROJECT_FILE_BYTES ? undefined : content.toString("utf-8"),
+  };
+}
+
+/** Claude must not work on the files while they are changed by hand. */
+export function checkEditable(job: Job) {
+  if (!isFinished(job.status)) {
+    throw new JobRequestError(`Job ${job.id} is still running, edit its files once it has finished`, 409);
+  }
+  // Every job of a chain of follow-ups works on the same project, not only the job's own follow-ups
+  const rootId = getRootJob(job).id;
+  const running = listJobs().find(
+    (other) => other.id !== job.id && !isFinished(other.status) && getRootJob(other).id === rootId
+  );
+  if (running) {
+    throw new JobRequestError(
+      `Job ${running.id} is running on the project of job ${job.id}, edit its files once it has finished`,
+      409
+    );
+  }
+}
+
+/**
+ * Runs `change` once the earlier changes to the job's project are done.
+ * Follow-ups work on their parent's project, so they wait for the same changes.
+ */
+export async function withProjectLock<T>(job: Job, change: () => Promise<T>): Promise<T> {
+  const key = getRootJob(job).id;
+  const pending = (pendingChanges[key] || Promise.resolve()).catch(() => undefined).then(change);
+  pendingChanges[key] = pending;
+  try {
+    return await pending;
+  } finally {
+    if (pendingChanges[key] === pending) {
+      delete pendingChanges[key];
+    }
+  }
+}
+
+/**
+ * Records a change made by hand on the job for its next follow-up, publishes
+ * a component again and commits the change as `subject`. `done` says what
+ * happened for the error when publishing fails. Returns the published version.
+ */
+export async function recordManualChange(
+  job: Job,
+  project: Project,
+  edit: ManualEdit,
+  done: string,
+  subject: string
+): Promise<string | undefined> {
+  const diff =
+    edit.diff.length > MAX_MANUAL_EDIT_DIFF_LENGTH
+      ? `${edit.diff.slice(0, MAX_MANUAL_EDIT_DIFF_LENGTH)}\n... (cut short, read the files for the rest)`
+      : edit.diff;
+  await updateJob(job.id, { manualEdits: [...(getJob(job.id)?.manualEdits || []), { ...edit, diff }] });
+
+  try {
+    if (!project.publish) {
+      return undefined;
+    }
+    let publishedVersion: string;
+    try {
+      publishedVersion = await project.publish();
+    } catch (error: any) {
+      appendJobEvent(job.id, { type: "log", message: "Failed to republish the component" });
+      throw new JobRequestError(`${done}, but republishing the component failed: ${error.message}`, 422);
+    }
+    appendJobEvent(job.id, { type: "log", message: `✓ Published version ${publishedVersion}` });
+    return publishedVersion;
+  } finally {
+    // After publishing, so the commit has the component's new version too
+    await commitManualChange(job, project, subject);
+  }
+}
+
+// The change is made either way, only its version in the history is missing
+async function commitManualChange(job: Job, project: Project, subject: string) {
+  if (!project.versioned) {
+    return;
+  }
+  try {
+    await commitAll(project, commitMessage(subject, undefined, job.id), USER_AUTHOR);
+  } catch (error: any) {
+    console.error(`[Job ${job.id}] Failed to commit "${subject}":`, error.message);
+    appendJobEvent(job.id, { type: "log", message: `Failed to commit to the project history: ${error.message}` });
+  }
+}
+
+async function saveFile(job: Job, filePath: string, content: string): Promise<SavedFile> {
+  checkEditable(job);
+  const project = await openProject(job);
+  if (!project) {
+    throw new JobNotFoundError(filePath, "File");
+  }
+
+  const previous = await project.read(filePath);
+  if (previous.subarray(0, 8000).includes(0)) {
+    throw new JobRequestError(`${filePath} is a binary file and can't be edited`);
+  }
+  const before = previous.toString("utf-8");
+  const file: ProjectFile = { path: filePath, size: Buffer.byteLength(content), content };
+  if (before === content) {
+    return { file };
+  }
+
+  await project.write(filePath, content);
+  appendJobEvent(job.id, { type: "log", message: `✏️ Edited ${filePath} by hand` });
+  const publishedVersion = await recordManualChange(
+    job,
+    project,
+    { path: filePath, editedAt: new Date().toISOString(), diff: formatUnifiedDiff(filePath, before, content) },
+    `Saved ${filePath}`,
+    `Edit ${filePath}`
+  );
+  return { file, publishedVersion };
+}
+
+/**
+ * Saves a file of a finished job's project edited by hand. The edit is
+ * committed to the project's history and recorded on the job for the next
+ * follow-up, and a component is built and published again; website dev
+ * servers reload the file themselves.
+ */
+export async function writeProjectFile(jobId: string, relativePath: string, content: unknown): Promise<SavedFile> {
+  const filePath = checkProjectPath(relativePath);
+  if (typeof content !== "string") {
+    throw new JobRequestError("content must be a string");
+  }
+  if (Buffer.byteLength(content) > MAX_PROJECT_FILE_BYTES) {
+    throw new JobRequestError(`Files over ${MAX_PROJECT_FILE_BYTES / 1024 / 1024} MB can't be edited`, 413);
+  }
+  const job = findJob(jobId);
+  return withProjectLock(job, () => saveFile(job, filePath, content));
+}
+
+/** Changes the user made by hand since the turn a follow-up continues, the follow-up's prompt lists them. */
+export function getPendingManualEdits(job: Job): ManualEdit[] {
+  return (job.parentJobId && getJob(job.parentJobId)?.manualEdits) || [];
+}
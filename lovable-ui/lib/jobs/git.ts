@@ -0,0 +1,170 @@
+import type { ExecResult } from "../sandbox";
+
+/** Where git runs: the project's directory in a sandbox or workspace. */
+export interface Repository {
+  exec(command: string, env?: Record<string, string>): Promise<ExecResult>;
+  // Where the repository's own files are, the project's .git unless set. Claude can write
+  // anything in a workspace, hooks or a core.fsmonitor there would run on the host
+  gitDir?: string;
+}
+
+export interface GitAuthor {
+  name: string;
+  email: string;
+}
+
+export const CLAUDE_AUTHOR: GitAuthor = { name: "Claude", email: "claude@lovable.local" };
+export const USER_AUTHOR: GitAuthor = { name: "User", email: "user@lovable.local" };
+
+/** One version in a project's history. */
+export interface HistoryCommit {
+  hash: string;
+  author: string;
+  date: string;
+  subject: string;
+  // The job whose turn or edit made the commit
+  jobId?: string;
+}
+
+/** The history of a job's project, newest commit first. */
+export interface ProjectHistory {
+  // Unset before the first commit
+  branch?: string;
+  branches: string[];
+  commits: HistoryCommit[];
+  // There were more than MAX_HISTORY_COMMITS commits, the older ones are left out
+  truncated: boolean;
+}
+
+export const MAX_HISTORY_COMMITS = 100;
+
+// Never committed: installed packages, build output and the files attached to prompts
+const EXCLUDED_PATHS = ["node_modules", ".next", "_package", ".attachments"];
+
+// Handed to git in the environment, so commit messages never go through the shell
+const MESSAGE_ENV = "LOVABLE_COMMIT_MSG";
+
+// The repository's directory in commands, GIT_DIR is set when it is not the project's .git
+const GIT_DIR = '"${GIT_DIR:-.git}"';
+
+const JOB_TRAILER = "Lovable-Job";
+
+// The end of a failed command's output, enough to see the error
+const MAX_ERROR_OUTPUT = 2000;
+
+const MAX_SUBJECT_LENGTH = 72;
+
+function execInRepository(repo: Repository, command: string, env: Record<string, string> = {}) {
+  return repo.exec(command, repo.gitDir ? { ...env, GIT_DIR: repo.gitDir, GIT_WORK_TREE: "." } : env);
+}
+
+async function git(repo: Repository, command: string, author?: GitAuthor, env?: Record<string, string>): Promise<string> {
+  const authorEnv: Record<string, string> = author
+    ? {
+        GIT_AUTHOR_NAME: author.name,
+        GIT_AUTHOR_EMAIL: author.email,
+        GIT_COMMITTER_NAME: author.name,
+        GIT_COMMITTER_EMAIL: author.email,
+      }
+    : {};
+  const result = await execInRepository(repo, command, { ...authorEnv, ...env });
+  if (result.exitCode !== 0) {
+    throw new Error(`git failed:\n${result.result.trim().slice(-MAX_ERROR_OUTPUT)}`);
+  }
+  return result.result;
+}
+
+/** Turns a project into a git repository, unless it is one already. */
+export async function initRepository(repo: Repository) {
+  await git(
+    repo,
+    `test -d ${GIT_DIR} || { mkdir -p ${GIT_DIR} && git init -q && git symbolic-ref HEAD refs/heads/main; } && ` +
+      `{ grep -qx node_modules ${GIT_DIR}/info/exclude 2>/dev/null || ` +
+      `{ mkdir -p ${GIT_DIR}/info && printf '%s\\n' ${EXCLUDED_PATHS.join(" ")} >> ${GIT_DIR}/info/exclude; }; }`
+  );
+}
+
+/**
+ * The message of a commit. `body` is e.g. the prompt of the turn, left out
+ * when the subject already holds all of it.
+ */
+export function commitMessage(subject: string, body: string | undefined, jobId: string): string {
+  const firstLine = subject.trim().split("\n")[0];
+  const shortSubject =
+    firstLine.length > MAX_SUBJECT_LENGTH ? `${firstLine.slice(0, MAX_SUBJECT_LENGTH - 3)}...` : firstLine;
+  const fullBody = body && !shortSubject.endsWith(body.trim()) ? `${body.trim()}\n\n` : "";
+  return `${shortSubject}\n\n${fullBody}${JOB_TRAILER}: ${jobId}\n`;
+}
+
+/** Commits every change in the project. Returns the new commit's hash, or undefined when nothing changed. */
+export async function commitAll(repo: Repository, message: string, author: GitAuthor): Promise<string | undefined> {
+  await initRepository(repo);
+  const output = await git(
+    repo,
+    `git add -A && { git diff --cached --quiet && exit 0; printf '%s' "$${MESSAGE_ENV}" | git commit -q -F - && git rev-parse HEAD; }`,
+    author,
+    { [MESSAGE_ENV]: message }
+  );
+  // Warnings, e.g. about line endings, come before the hash
+  const hash = output.trim().split("\n").pop()!;
+  return /^[0-9a-f]{40}$/.test(hash) ? hash : undefined;
+}
+
+function parseCommit(record: string): HistoryCommit {
+  const [hash, author, date, body] = record.replace(/^\n/, "").split("\x1f");
+  const jobId = new RegExp(`^${JOB_TRAILER}: (\\S+)$`, "m").exec(body)?.[1];
+  return { hash, author, date, subject: body.split("\n")[0], jobId };
+}
+
+const LOG_FORMAT = "'--format=%H%x1f%an%x1f%aI%x1f%B%x1e'";
+
+/** The commits of the current branch and the project's branches. */
+export async function readHistory(repo: Repository): Promise<ProjectHistory> {
+  // Workspaces are inside the server's directory, whose repository is not the project's
+  if ((await execInRepository(repo, `test -d ${GIT_DIR}`)).exitCode !== 0) {
+    return { branches: [], commits: [], truncated: false };
+  }
+  const [branch, branches, log] = await Promise.all([
+    git(repo, "git symbolic-ref --short -q HEAD 2>/dev/null || true"),
+    git(repo, "git for-each-ref '--format=%(refname:short)' refs/heads"),
+    git(repo, `git rev-parse -q --verify HEAD >/dev/null || exit 0; git log -n ${MAX_HISTORY_COMMITS + 1} ${LOG_FORMAT}`),
+  ]);
+  const commits = log
+    .split("\x1e")
+    .filter((record) => record.trim())
+    .map(parseCommit);
+  return {
+    branch: branch.trim() || undefined,
+    branches: branches.split("\n").filter(Boolean),
+    commits: commits.slice(0, MAX_HISTORY_COMMITS),
+    truncated: commits.length > MAX_HISTORY_COMMITS,
+  };
+}
+
+/** Looks up a commit by its hash, undefined when the project has no such commit. */
+export async function findCommit(repo: Repository, hash: string): Promise<HistoryCommit | undefined> {
+  if (!/^[0-9a-f]{4,40}$/.test(hash)) {
+    return undefined;
+  }
+  const result = await execInRepository(repo, `git log -n 1 ${LOG_FORMAT} ${hash}^{commit} --`);
+  return result.exitCode === 0 && result.result.trim() ? parseCommit(result.result.split("\x1e")[0]) : undefined;
+}
+
+export function isBranchName(name: string) {
+  return /^[A-Za-z0-9][A-Za-z0-9._-]*(\/[A-Za-z0-9._-]+)*$/.test(name) && !name.includes("..") && !name.endsWith(".lock");
+}
+
+/** How the project's files change going from the current commit to `ref`, as a unified diff. */
+export function diffTo(repo: Repository, ref: string): Promise<string> {
+  return git(repo, `git diff HEAD ${ref} --`);
+}
+
+/** Replaces the project's files with those of `hash`, the change is left to be committed. */
+export async function restoreCommit(repo: Repository, hash: string) {
+  await git(repo, `git read-tree -u --reset ${hash}`);
+}
+
+/** Switches the project to `branch`, created at `startPoint` when given. */
+export async function checkout(repo: Repository, branch: string, startPoint?: string) {
+  await git(repo, startPoint ? `git checkout -q -b ${branch} ${startPoint}` : `git checkout -q ${branch}`);
+}
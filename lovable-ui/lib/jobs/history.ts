@@ -0,0 +1,204 @@
+import {
+  checkEditable,
+  findJob,
+  openProject,
+  recordManualChange,
+  withProjectLock,
+  type Project,
+} from "./files";
+import {
+  CLAUDE_AUTHOR,
+  USER_AUTHOR,
+  checkout,
+  commitAll,
+  commitMessage,
+  diffTo,
+  findCommit,
+  isBranchName,
+  readHistory,
+  restoreCommit,
+  type HistoryCommit,
+  type ProjectHistory,
+} from "./git";
+import { appendJobEvent } from "./store";
+import { JobNotFoundError, JobRequestError, type Job, type JobStatus } from "./types";
+
+/** The project's history after a revert, fork or branch switch. */
+export interface HistoryUpdate {
+  history: ProjectHistory;
+  // Set when the change published a new version of the job's component
+  publishedVersion?: string;
+}
+
+const EMPTY_HISTORY: ProjectHistory = { branches: [], commits: [], truncated: false };
+
+async function openVersionedProject(job: Job): Promise<Project> {
+  const project = await openProject(job);
+  if (!project || !project.versioned) {
+    throw new JobRequestError(`Job ${job.id} has no project history yet`, 409);
+  }
+  return project;
+}
+
+async function findHistoryCommit(project: Project, hash: unknown): Promise<HistoryCommit> {
+  if (!hash || typeof hash !== "string") {
+    throw new JobRequestError("commit is required");
+  }
+  const commit = await findCommit(project, hash);
+  if (!commit) {
+    throw new JobNotFoundError(hash, "Commit");
+  }
+  return commit;
+}
+
+// Files changed outside a turn or the editor, e.g. by a dev server, are kept before the project moves
+function commitUncommitted(job: Job, project: Project) {
+  return commitAll(project, commitMessage("Save uncommitted changes", undefined, job.id), USER_AUTHOR);
+}
+
+// Tells the next follow-up what happened to the files, republishes a component and commits what changed
+async function finishHistoryChange(
+  job: Job,
+  project: Project,
+  summary: string,
+  subject: string,
+  description: string,
+  diff: string
+): Promise<HistoryUpdate> {
+  appendJobEvent(job.id, { type: "log", message: `✓ ${summary}` });
+  // E.g. a branch switch to the same files
+  if (!diff.trim()) {
+    return { history: await readHistory(project) };
+  }
+  const publishedVersion = await recordManualChange(
+    job,
+    project,
+    { description, editedAt: new Date().toISOString(), diff: diff.trimEnd() },
+    summary,
+    subject
+  );
+  return { history: await readHistory(project), publishedVersion };
+}
+
+/** The history of a job's project, shared with its follow-ups. Empty until the first turn is committed. */
+export async function getProjectHistory(jobId: string): Promise<ProjectHistory> {
+  const project = await openProject(findJob(jobId));
+  return project?.versioned ? readHistory(project) : EMPTY_HISTORY;
+}
+
+/**
+ * Commits what a Claude turn changed in the job's project, with the prompt
+ * in the message. Failed and cancelled turns are committed too, so they can
+ * be undone. Returns the commit's hash, undefined when nothing changed.
+ */
+export function commitJobTurn(job: Job, status: JobStatus): Promise<string | undefined> {
+  return withProjectLock(job, async () => {
+    const project = await openProject(job);
+    // A generation that failed early may not have created the project
+    if (!project?.versioned || (await project.list()).length === 0) {
+      return undefined;
+    }
+    const subject = `${job.parentJobId ? "Follow-up" : "Generate"}${status === "succeeded" ? "" : ` (${status})`}: ${job.prompt}`;
+    return commitAll(project, commitMessage(subject, job.prompt, job.id), CLAUDE_AUTHOR);
+  });
+}
+
+/**
+ * Restores the files of an earlier commit with a new commit on top, so the
+ * revert can be undone like any other change.
+ */
+export async function revertProject(jobId: string, hash: unknown): Promise<HistoryUpdate> {
+  const job = findJob(jobId);
+  return withProjectLock(job, async () => {
+    checkEditable(job);
+    const project = await openVersionedProject(job);
+    const target = await findHistoryCommit(project, hash);
+    await commitUncommitted(job, project);
+
+    const diff = await diffTo(project, target.hash);
+    if (!diff.trim()) {
+      return { history: await readHistory(project) };
+    }
+    const shortHash = target.hash.slice(0, 7);
+    await restoreCommit(project, target.hash);
+    return finishHistoryChange(
+      job,
+      project,
+      `Reverted the project to ${shortHash}`,
+      `Revert to ${shortHash}: ${target.subject}`,
+      `The user restored the earlier version "${target.subject}", which changed the files like this:`,
+      diff
+    );
+  });
+}
+
+/**
+ * Starts a new branch at an earlier commit and switches the project to it.
+ * The later commits stay on the previous branch. `branch` defaults to
+ * fork-<commit>.
+ */
+export async function forkProject(jobId: string, hash: unknown, branch?: unknown): Promise<HistoryUpdate> {
+  if (branch !== undefined && branch !== "" && (typeof branch !== "string" || !isBranchName(branch))) {
+    throw new JobRequestError(`Invalid branch name: ${branch}`);
+  }
+  const requested = branch ? (branch as string) : undefined;
+  const job = findJob(jobId);
+  return withProjectLock(job, async () => {
+    checkEditable(job);
+    const project = await openVersionedProject(job);
+    const target = await findHistoryCommit(project, hash);
+    const shortHash = target.hash.slice(0, 7);
+    const { branches } = await readHistory(project);
+    if (requested && branches.includes(requested)) {
+      throw new JobRequestError(`Branch ${requested} already exists`, 409);
+    }
+    let name = requested || `fork-${shortHash}`;
+    for (let suffix = 2; branches.includes(name); suffix++) {
+      name = `fork-${shortHash}-${suffix}`;
+    }
+    await commitUncommitted(job, project);
+
+    const diff = await diffTo(project, target.hash);
+    await checkout(project, name, target.hash);
+    return finishHistoryChange(
+      job,
+      project,
+      `Forked ${name} from ${shortHash}`,
+      // Only a component's new version is committed
+      `Fork ${name} from ${shortHash}`,
+      `The user went back to the earlier version "${target.subject}" on a new branch, later changes are gone from the files:`,
+      diff
+    );
+  });
+}
+
+/** Switches the project to another of its branches. */
+export async function switchBranch(jobId: string, branch: unknown): Promise<HistoryUpdate> {
+  if (!branch || typeof branch !== "string") {
+    throw new JobRequestError("branch is required");
+  }
+  const job = findJob(jobId);
+  return withProjectLock(job, async () => {
+    checkEditable(job);
+    const project = await openVersionedProject(job);
+    const history = await readHistory(project);
+    if (!history.branches.includes(branch)) {
+      throw new JobNotFoundError(branch, "Branch");
+    }
+    if (history.branch === branch) {
+      return { history };
+    }
+    await commitUncommitted(job, project);
+
+    const diff = await diffTo(project, branch);
+    await checkout(project, branch);
+    return finishHistoryChange(
+      job,
+      project,
+      `Switched the project to ${branch}`,
+      `Switch to ${branch}`,
+      `The user switched the project to the branch ${branch}, which changed the files like this:`,
+      diff
+    );
+  });
+}
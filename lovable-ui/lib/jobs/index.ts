@@ -0,0 +1,296 @@
+import { randomUUID } from "crypto";
+import { AttachmentError, resolveAttachments } from "../attachments";
+import { ComponentRequestError, resolveComponentRequest } from "../components";
+import { GenerationOptionsError, resolveGenerationOptions, type GenerationOptions } from "../generation-options";
+import { requiresDaytonaApiKey } from "../sandbox";
+import { formatCost, getBudgets } from "../usage";
+import { getJobQueue } from "./queue";
+import { createVariantGroup, getJob, getVariantGroup, updateVariantGroup } from "./store";
+import { getDailySpend } from "./usage";
+import { JobNotFoundError, JobRequestError, type Job, type JobKind, type VariantGroup } from "./types";
+
+export * from "./types";
+export {
+  GENERATION_LOG_FILE,
+  collectProjectFiles,
+  exportProjectZip,
+  readAllProjectFiles,
+  writeProjectFiles,
+  type ExportOptions,
+  type ProjectArchive,
+  type SyncResult,
+} from "./export";
+export {
+  MAX_PROJECT_FILES,
+  MAX_PROJECT_FILE_BYTES,
+  getJobWorkspace,
+  getPendingManualEdits,
+  listProjectFiles,
+  openSandboxProject,
+  readProjectFile,
+  writeProjectFile,
+  type ProjectFile,
+  type ProjectFiles,
+  type SavedFile,
+} from "./files";
+export { MAX_HISTORY_COMMITS, type HistoryCommit, type ProjectHistory } from "./git";
+export { forkProject, getProjectHistory, revertProject, switchBranch, type HistoryUpdate } from "./history";
+export { JobQueue, getJobConcurrency, getJobQueue } from "./queue";
+export { appendTranscript, getJob, getTranscript, getVariantGroup, listJobs, readJobEvents } from "./store";
+export { getLastEventId, jobEventsResponse } from "./stream";
+export { getDailySpend, jobDay, releaseJobBudget, reserveJobBudget, today } from "./usage";
+
+const JOB_KINDS: JobKind[] = ["code", "website", "component"];
+
+// Each variant is a full generation with its own sandbox or workspace
+export const MAX_VARIANTS = 4;
+
+/** How one variant differs from the others. */
+interface VariantRequest {
+  style?: string;
+  model?: string;
+}
+
+function checkApiKeys(kind: JobKind) {
+  // "code" jobs use whatever credentials Claude Code finds on the server
+  if (kind !== "code" && (!process.env.ANTHROPIC_API_KEY || (requiresDaytonaApiKey() && !process.env.DAYTONA_API_KEY))) {
+    throw new JobRequestError("Missing API keys", 500);
+  }
+}
+
+function checkDailyBudget() {
+  const { daily } = getBudgets();
+  if (daily !== undefined && getDailySpend() >= daily) {
+    throw new JobRequestError(`Today's generation budget of ${formatCost(daily)} is spent`, 429);
+  }
+}
+
+function resolveOptions(kind: JobKind, options: unknown, base?: GenerationOptions) {
+  try {
+    return resolveGenerationOptions(kind, options ?? {}, base);
+  } catch (error: any) {
+    if (error instanceof GenerationOptionsError) {
+      throw new JobRequestError(error.message);
+    }
+    throw error;
+  }
+}
+
+function resolveComponent(kind: JobKind, component: unknown) {
+  if (component === undefined || component === null) {
+    return kind === "component" ? resolveComponentRequest() : undefined;
+  }
+  if (kind !== "component") {
+    throw new JobRequestError(`${kind} jobs don't take component settings`);
+  }
+  try {
+    return resolveComponentRequest(component);
+  } catch (error: any) {
+    if (error instanceof ComponentRequestError) {
+      throw new JobRequestError(error.message);
+    }
+    throw error;
+  }
+}
+
+function resolveJobAttachments(attachments: unknown) {
+  try {
+    const resolved = resolveAttachments(attachments ?? []);
+    return resolved.length > 0 ? resolved : undefined;
+  } catch (error: any) {
+    if (error instanceof AttachmentError) {
+      throw new JobRequestError(error.message);
+    }
+    throw error;
+  }
+}
+
+function checkRequest(kind: unknown, prompt: unknown): { kind: JobKind; prompt: string } {
+  if (!prompt || typeof prompt !== "string") {
+    throw new JobRequestError("Prompt is required");
+  }
+  if (!JOB_KINDS.includes(kind as JobKind)) {
+    throw new JobRequestError(`Unknown job kind: ${kind}`);
+  }
+  checkApiKeys(kind as JobKind);
+  checkDailyBudget();
+  return { kind: kind as JobKind, prompt };
+}
+
+/** Validates a generation request and queues it, throwing JobRequestError when it is rejected. */
+export function submitJob(
+  kind: unknown,
+  prompt: unknown,
+  options?: unknown,
+  component?: unknown,
+  attachments?: unknown
+): Job {
+  const request = checkRequest(kind, prompt);
+  return getJobQueue().submit(request.kind, request.prompt, {
+    options: resolveOptions(request.kind, options),
+    component: resolveComponent(request.kind, component),
+    attachments: resolveJobAttachments(attachments),
+  });
+}
+
+function resolveVariants(variants: unknown): VariantRequest[] {
+  if (typeof variants === "number") {
+    if (!Number.isInteger(variants) || variants < 1 || variants > MAX_VARIANTS) {
+      throw new JobRequestError(`variants must be between 1 and ${MAX_VARIANTS}`);
+    }
+    return Array.from({ length: variants }, () => ({}));
+  }
+  if (!Array.isArray(variants) || variants.length < 1 || variants.length > MAX_VARIANTS) {
+    throw new JobRequestError(`variants must be a number or a list of 1 to ${MAX_VARIANTS} variants`);
+  }
+  return variants.map((variant, index) => {
+    if (variant === null || typeof variant !== "object" || Array.isArray(variant)) {
+      throw new JobRequestError(`variants[${index}] must be an object`);
+    }
+    const { style, model } = variant;
+    if ((style !== undefined && typeof style !== "string") || (model !== undefined && typeof model !== "string")) {
+      throw new JobRequestError(`variants[${index}].style and .model must be strings`);
+    }
+    return { style: style || undefined, model: model || undefined };
+  });
+}
+
+// The variant's model replaces the requested one, its style is added to the system prompt
+function variantOptions(options: unknown, variant: VariantRequest): unknown {
+  if ((!variant.style && !variant.model) || (options != null && typeof options !== "object")) {
+    return options;
+  }
+  const base = (options || {}) as Record<string, unknown>;
+  const direction = variant.style && `Design direction for this variant: ${variant.style}`;
+  return {
+    ...base,
+    ...(variant.model ? { model: variant.model } : {}),
+    ...(direction
+      ? {
+          appendSystemPrompt:
+            typeof base.appendSystemPrompt === "string" && base.appendSystemPrompt
+              ? `${base.appendSystemPrompt}\n\n${direction}`
+              : direction,
+        }
+      : {}),
+  };
+}
+
+/**
+ * Queues one job per variant of the same prompt, each in its own sandbox or
+ * workspace. `variants` is a count, or a list of styles and models to give
+ * each variant a different direction. Nothing is queued when any variant is
+ * rejected.
+ */
+export function submitVariants(
+  kind: unknown,
+  prompt: unknown,
+  options: unknown,
+  component: unknown,
+  variants: unknown,
+  attachments?: unknown
+): VariantGroup {
+  const request = checkRequest(kind, prompt);
+  const specs = resolveVariants(variants);
+  const resolved = specs.map((spec) => resolveOptions(request.kind, variantOptions(options, spec)));
+  const componentRequest = resolveComponent(request.kind, component);
+  const attached = resolveJobAttachments(attachments);
+  if (componentRequest?.onConflict === "version" && specs.length > 1) {
+    throw new JobRequestError("Variants are published under names of their own, onConflict \"version\" is not supported");
+  }
+
+  const groupId = randomUUID();
+  const jobs = specs.map((spec, index) =>
+    getJobQueue().submit(request.kind, request.prompt, {
+      options: resolved[index],
+      component: componentRequest,
+      attachments: attached,
+      variant: { groupId, index, count: specs.length, style: spec.style },
+    })
+  );
+  const group: VariantGroup = {
+    id: groupId,
+    kind: request.kind,
+    prompt: request.prompt,
+    jobIds: jobs.map((job) => job.id),
+    createdAt: new Date().toISOString(),
+  };
+  createVariantGroup(group);
+  return group;
+}
+
+/**
+ * Marks the variant the user keeps to continue with. The other variants are
+ * discarded unless `discardOthers` is false: still running ones are stopped
+ * and their sandboxes removed.
+ */
+export async function keepVariant(groupId: string, jobId: unknown, discardOthers = true): Promise<VariantGroup> {
+  const group = getVariantGroup(groupId);
+  if (!group) {
+    throw new JobNotFoundError(groupId, "Variant group");
+  }
+  if (typeof jobId !== "string" || !group.jobIds.includes(jobId)) {
+    throw new JobRequestError(`Job ${jobId} is not a variant of ${groupId}`);
+  }
+  const job = getJob(jobId);
+  if (job?.status !== "succeeded") {
+    throw new JobRequestError(`Job ${jobId} is ${job?.status}, only successful variants can be kept`, 409);
+  }
+
+  const kept = await updateVariantGroup(groupId, { keptJobId: jobId });
+  if (discardOthers) {
+    for (const otherId of group.jobIds.filter((id) => id !== jobId)) {
+      await getJobQueue()
+        .discard(otherId)
+        .catch((error) => console.error(`[Jobs] Failed to discard variant ${otherId}:`, error.message));
+    }
+  }
+  return kept;
+}
+
+/**
+ * Queues a follow-up prompt that continues a finished job: same sandbox and
+ * project, and the same Claude Code session when the parent reported one.
+ * Options the request leaves out are taken from the parent.
+ */
+export function submitFollowUp(parentJobId: string, prompt: unknown, options?: unknown, attachments?: unknown): Job {
+  if (!prompt || typeof prompt !== "string") {
+    throw new JobRequestError("Prompt is required");
+  }
+  const parent = getJob(parentJobId);
+  if (!parent) {
+    throw new JobNotFoundError(parentJobId);
+  }
+  if (parent.status !== "succeeded" || !parent.result) {
+    throw new JobRequestError(`Job ${parentJobId} is ${parent.status}, only successful generations can be continued`, 409);
+  }
+  if (parent.kind !== "code" && !parent.result.sandboxId) {
+    throw new JobRequestError(`Job ${parentJobId} has no sandbox to continue in`, 409);
+  }
+  checkApiKeys(parent.kind);
+  checkDailyBudget();
+
+  return getJobQueue().submit(parent.kind, prompt, {
+    parentJobId,
+    resumeFrom: parent.result,
+    options: resolveOptions(parent.kind, options, parent.options),
+    component: parent.component,
+    attachments: resolveJobAttachments(attachments),
+  });
+}
+
+/** Builds the JSON error response for a failed job API call. */
+export function jobErrorResponse(error: any): Response {
+  let status = 500;
+  if (error instanceof JobRequestError) {
+    status = error.status;
+  } else if (error instanceof JobNotFoundError) {
+    status = 404;
+  } else {
+    console.error("[API] Error:", error);
+  }
+  return new Response(
+    JSON.stringify({ error: error.message || "Internal server error" }),
+    { status, headers: { "Content-Type": "application/json" } }
+  );
+}
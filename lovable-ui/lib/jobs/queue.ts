@@ -0,0 +1,280 @@
+import { EventEmitter } from "events";
+import type { GenerationEvent } from "../events";
+import { getSandboxProvider } from "../sandbox";
+import { addUsage, emptyUsage, formatCost, usageFromEvent, type Usage } from "../usage";
+import { commitJobTurn } from "./history";
+import { runJob } from "./runners";
+import { appendJobEvent, createJob, getJob, listJobs, updateJob } from "./store";
+import { releaseJobBudget, reserveJobBudget } from "./usage";
+import {
+  JobNotFoundError,
+  JobRequestError,
+  isFinished,
+  type Job,
+  type JobEventRecord,
+  type JobKind,
+  type JobResult,
+} from "./types";
+
+interface RunningJob {
+  controller: AbortController;
+  // Remove the job's sandbox once the cancelled generator has stopped
+  teardown: boolean;
+}
+
+export function getJobConcurrency() {
+  return parseInt(process.env.JOB_CONCURRENCY || "2") || 2;
+}
+
+/**
+ * Runs generation jobs in the background, at most `concurrency` at a time.
+ * Jobs and their events are persisted, so they outlive the request that
+ * started them and can be observed from any other request.
+ */
+export class JobQueue {
+  private readonly pending: string[] = [];
+  private readonly running = new Map<string, RunningJob>();
+  private readonly events = new EventEmitter();
+
+  constructor(readonly concurrency = getJobConcurrency()) {
+    // Every open event stream subscribes, the default limit of 10 is far too low
+    this.events.setMaxListeners(0);
+  }
+
+  /** Picks up jobs left behind by a previous server process. */
+  async recover() {
+    for (const job of listJobs()) {
+      if (job.status === "running") {
+        // Whatever was driving the job died with the old process
+        this.record(job.id, {
+          type: "error",
+          code: "internal_error",
+          message: "The server restarted while this job was running",
+        });
+        await updateJob(job.id, {
+          status: "failed",
+          finishedAt: new Date().toISOString(),
+          error: { code: "internal_error", message: "Interrupted by a server restart" },
+        });
+      } else if (job.status === "queued") {
+        this.pending.push(job.id);
+      }
+    }
+    this.drain();
+  }
+
+  submit(kind: JobKind, prompt: string, details: Pick<Job, "parentJobId" | "resumeFrom" | "options" | "component" | "variant" | "attachments"> = {}): Job {
+    const job = createJob(kind, prompt, details);
+    this.pending.push(job.id);
+    this.drain();
+    return job;
+  }
+
+  /**
+   * Calls `listener` for every event recorded from now on for `jobId`, and
+   * with null once the job has finished.
+   */
+  subscribe(jobId: string, listener: (record: JobEventRecord | null) => void): () => void {
+    this.events.on(jobId, listener);
+    return () => {
+      this.events.off(jobId, listener);
+    };
+  }
+
+  /**
+   * Cancels a queued job right away, or stops a running one. A running job
+   * turns "cancelled" once its generator has exited; with `teardown` its
+   * sandbox is removed as well.
+   */
+  async cancel(jobId: string, options: { teardown?: boolean } = {}): Promise<Job> {
+    const job = getJob(jobId);
+    if (!job) {
+      throw new JobNotFoundError(jobId);
+    }
+    if (isFinished(job.status)) {
+      throw new JobRequestError(`Job ${jobId} is already ${job.status}`, 409);
+    }
+
+    const pendingIndex = this.pending.indexOf(jobId);
+    if (pendingIndex !== -1) {
+      this.pending.splice(pendingIndex, 1);
+      const error = { code: "cancelled" as const, message: "Generation cancelled before it started" };
+      this.record(jobId, { type: "error", ...error });
+      const cancelled = await updateJob(jobId, { status: "cancelled", finishedAt: new Date().toISOString(), error });
+      this.events.emit(jobId, null);
+      return cancelled;
+    }
+
+    const run = this.running.get(jobId);
+    if (!run) {
+      throw new JobRequestError(`Job ${jobId} is not running in this server`, 409);
+    }
+    run.teardown = run.teardown || !!options.teardown;
+    if (!run.controller.signal.aborted) {
+      console.log(`[Job ${jobId}] Cancelling`);
+      this.record(jobId, { type: "log", message: "Cancelling generation..." });
+      run.controller.abort();
+    }
+    return job;
+  }
+
+  /**
+   * Throws a job's result away: an unfinished job is cancelled and its
+   * sandbox removed, a finished one only loses its sandbox.
+   */
+  async discard(jobId: string): Promise<void> {
+    const job = getJob(jobId);
+    if (!job) {
+      throw new JobNotFoundError(jobId);
+    }
+    if (!isFinished(job.status)) {
+      await this.cancel(jobId, { teardown: true });
+    } else if (job.sandboxId) {
+      await this.removeSandbox(jobId, job.sandboxId);
+    }
+  }
+
+  private record(jobId: string, event: GenerationEvent) {
+    const record = appendJobEvent(jobId, event);
+    this.events.emit(jobId, record);
+    return record;
+  }
+
+  private drain() {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const jobId = this.pending.shift()!;
+      const run: RunningJob = { controller: new AbortController(), teardown: false };
+      this.running.set(jobId, run);
+      this.execute(jobId, run)
+        .catch((error) => console.error(`[Job ${jobId}] Failed to update job:`, error))
+        .finally(() => {
+          // The job's usage is final by now, what it didn't spend goes back to the daily budget
+          releaseJobBudget(jobId);
+          this.running.delete(jobId);
+          this.drain();
+        });
+    }
+  }
+
+  private async execute(jobId: string, run: RunningJob) {
+    const job = getJob(jobId);
+    if (!job) {
+      throw new JobNotFoundError(jobId);
+    }
+
+    await updateJob(jobId, { status: "running", startedAt: new Date().toISOString() });
+
+    // Jobs queued before the daily budget ran out, or while running jobs hold the rest of it, must not start
+    const budgetUsd = reserveJobBudget(jobId, this.concurrency);
+    if (budgetUsd === 0) {
+      const error = { code: "budget_exceeded" as const, message: "Today's generation budget is spent" };
+      this.record(jobId, { type: "error", ...error });
+      await updateJob(jobId, { status: "failed", finishedAt: new Date().toISOString(), error });
+      this.events.emit(jobId, null);
+      console.log(`[Job ${jobId}] failed: daily budget spent`);
+      return;
+    }
+    console.log(
+      `[Job ${jobId}] Started ${job.kind} generation` +
+        (budgetUsd !== undefined ? ` with a budget of ${formatCost(budgetUsd)}` : "")
+    );
+
+    let result: JobResult | undefined;
+    let error: Job["error"];
+    let sandboxId: string | undefined;
+    let usage: Usage | undefined;
+    try {
+      await runJob(
+        job,
+        (event) => {
+          if (event.type === "complete") {
+            const { type, ...details } = event;
+            result = details;
+          } else if (event.type === "error" && !error) {
+            error = { code: event.code, message: event.message };
+          } else if (event.type === "artifact" && event.kind === "sandbox") {
+            sandboxId = event.sandboxId;
+            updateJob(jobId, { sandboxId }).catch((e) =>
+              console.error(`[Job ${jobId}] Failed to record sandbox:`, e.message)
+            );
+          } else if (event.type === "usage") {
+            // Recorded right away so the daily budget sees what running jobs spend
+            usage = addUsage(usage || emptyUsage(), usageFromEvent(event));
+            updateJob(jobId, { usage }).catch((e) =>
+              console.error(`[Job ${jobId}] Failed to record usage:`, e.message)
+            );
+          }
+          this.record(jobId, event);
+        },
+        run.controller.signal,
+        budgetUsd
+      );
+    } catch (e: any) {
+      console.error(`[Job ${jobId}] Error during generation:`, e);
+      error = { code: "internal_error", message: e.message };
+      this.record(jobId, { type: "error", ...error });
+    }
+
+    let status: Job["status"];
+    if (run.controller.signal.aborted) {
+      status = "cancelled";
+      error = { code: "cancelled", message: "Generation cancelled" };
+      result = undefined;
+      this.record(jobId, { type: "error", ...error });
+      if (run.teardown && sandboxId) {
+        await this.removeSandbox(jobId, sandboxId);
+      }
+    } else {
+      if (!error && !result) {
+        error = { code: "missing_artifact", message: "Job finished without a result" };
+      }
+      status = error ? "failed" : "succeeded";
+    }
+    if (!(status === "cancelled" && run.teardown)) {
+      await this.commitTurn({ ...job, sandboxId: sandboxId || job.sandboxId, result }, status);
+    }
+    await updateJob(jobId, { status, finishedAt: new Date().toISOString(), result, error, usage });
+    // Lets open event streams know nothing else is coming
+    this.events.emit(jobId, null);
+    console.log(`[Job ${jobId}] ${status}` + (usage ? `, spent ${formatCost(usage.costUsd)}` : ""));
+  }
+
+  // Every turn becomes a version in the project's history, before the job is finished and its files can be edited
+  private async commitTurn(job: Job, status: Job["status"]) {
+    try {
+      const commit = await commitJobTurn(job, status);
+      if (commit) {
+        this.record(job.id, { type: "log", message: `✓ Committed ${commit.slice(0, 7)} to the project history` });
+      }
+    } catch (e: any) {
+      console.error(`[Job ${job.id}] Failed to commit to the project history:`, e.message);
+      this.record(job.id, { type: "log", message: `Failed to commit to the project history: ${e.message}` });
+    }
+  }
+
+  private async removeSandbox(jobId: string, sandboxId: string) {
+    try {
+      await getSandboxProvider().remove(sandboxId);
+      this.record(jobId, { type: "log", message: `✓ Removed sandbox ${sandboxId}` });
+    } catch (e: any) {
+      console.error(`[Job ${jobId}] Failed to remove sandbox ${sandboxId}:`, e.message);
+      this.record(jobId, { type: "log", message: `Failed to remove sandbox ${sandboxId}: ${e.message}` });
+    }
+  }
+}
+
+const globalForJobs = globalThis as unknown as { jobQueue?: JobQueue };
+
+/**
+ * Returns the process-wide queue. It lives on globalThis because Next.js may
+ * load the route modules more than once in development.
+ */
+export function getJobQueue(): JobQueue {
+  if (!globalForJobs.jobQueue) {
+    globalForJobs.jobQueue = new JobQueue();
+    globalForJobs.jobQueue.recover().catch((error) => {
+      console.error("[Jobs] Failed to recover jobs:", error);
+    });
+  }
+  return globalForJobs.jobQueue;
+}
@@ -0,0 +1,241 @@
+import type { SDKMessage } from "@anthropic-ai/claude-code";
+import { spawn } from "child_process";
+import path from "path";
+import type { Readable } from "stream";
+import { ATTACHMENTS_DIR_NAME, ATTACHMENTS_ENV, copyAttachments } from "../attachments";
+import { getClaudeProvider } from "../claude-provider";
+import { COMPONENT_REQUEST_ENV } from "../components";
+import { EVENTS_FD_ENV, JOB_ID_ENV, type EmitEvent } from "../event-emitter";
+import { createLineSplitter, eventsFromSdkMessage, parseEventLine, type GenerationEvent } from "../events";
+import {
+  GENERATION_OPTIONS_ENV,
+  loadGenerationPolicy,
+  resolveGenerationOptions,
+  toQueryOptions,
+} from "../generation-options";
+import { createPermissionGuard } from "../permissions";
+import { withAttachments, withManualEdits } from "../prompts";
+import { BUDGET_ENV, createUsageTracker, formatCost } from "../usage";
+import { getJobWorkspace, getPendingManualEdits } from "./files";
+import { appendTranscript } from "./store";
+import type { Job, JobKind } from "./types";
+
+// How long a cancelled generator gets to stop Claude in its sandbox before it is killed
+const CANCEL_GRACE_MS = 15000;
+
+const GENERATOR_SCRIPTS: Record<Exclude<JobKind, "code">, string> = {
+  website: "generate-in-daytona.ts",
+  component: "generate-oc-component-in-daytona.ts",
+};
+
+/**
+ * Runs Claude Code inside the web server process. The run is confined to the
+ * job's workspace by the permission guard, denied tool calls are reported as
+ * events.
+ */
+async function runCodeJob(job: Job, emit: EmitEvent, signal: AbortSignal, budgetUsd?: number) {
+  const options = job.options || resolveGenerationOptions("code");
+  const workspace = getJobWorkspace(job);
+  const guard = createPermissionGuard({
+    workspace,
+    allowedTools: options.allowedTools,
+    bashCommands: loadGenerationPolicy().bashCommands,
+  });
+  // Inside the workspace, so the guard lets Claude read them
+  const attached = copyAttachments(job.attachments || [], `${workspace}/${ATTACHMENTS_DIR_NAME}`);
+  const prompt = withAttachments(withManualEdits(job.prompt, getPendingManualEdits(job)), attached);
+  const abortController = new AbortController();
+  signal.addEventListener("abort", () => abortController.abort());
+  let timedOut = false;
+  const timeout = setTimeout(() => {
+    timedOut = true;
+    abortController.abort();
+  }, options.timeoutMs);
+  const usage = createUsageTracker(budgetUsd);
+  let overBudget = false;
+  const messages: SDKMessage[] = [];
+  let sessionId: string | undefined;
+
+  try {
+    for await (const message of getClaudeProvider().query({
+      prompt,
+      abortController: abortController,
+      options: {
+        ...toQueryOptions(options),
+        ...guard.queryOptions,
+        resume: job.resumeFrom?.sessionId,
+      }
+    })) {
+      messages.push(message);
+      sessionId = message.session_id;
+      console.log(`[Job ${job.id}] Message ${messages.length} - Type: ${message.type}`);
+
+      // The guard has answered before Claude Code reports the tool result
+      for (const denial of guard.readDenials()) {
+        console.log(`[Job ${job.id}] Denied ${denial.tool}: ${denial.message}`);
+        emit(denial);
+      }
+
+      for (const event of eventsFromSdkMessage(message)) {
+        emit(event);
+      }
+
+      const usageEvent = usage.add(message);
+      if (usageEvent) {
+        emit(usageEvent);
+      }
+      if (message.type === "assistant" && usage.exceeded()) {
+        overBudget = true;
+        emit(usage.estimated());
+        emit({
+          type: "error",
+          code: "budget_exceeded",
+          message: `Stopped after reaching the budget of ${formatCost(budgetUsd!)}`,
+        });
+        abortController.abort();
+        return;
+      }
+
+      if (message.type === "result" && message.subtype !== "success") {
+        emit({
+          type: "error",
+          code: "generate_failed",
+          message: `Generation stopped: ${message.subtype}`,
+        });
+        return;
+      }
+    }
+  } catch (error) {
+    // Aborting makes the SDK throw, that is the expected way out
+    if (overBudget) return;
+    if (signal.aborted || timedOut) {
+      // The run never reported its cost, record what it has spent so far
+      emit(usage.estimated());
+      if (timedOut) {
+        emit({
+          type: "error",
+          code: "generate_failed",
+          message: `Generation timed out after ${Math.round(options.timeoutMs / 1000)}s`,
+        });
+      }
+      return;
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+    await appendTranscript(job.id, job.parentJobId ? "follow-up" : "generate", messages);
+  }
+
+  emit({ type: "complete", sessionId });
+}
+
+/** Command line flags that make a generator script continue a previous generation. */
+function followUpArgs(job: Job): string[] {
+  const from = job.resumeFrom;
+  if (!from) return [];
+  const args = ["--follow-up"];
+  if (from.sessionId) args.push("--session", from.sessionId);
+  if (from.componentName) args.push("--component", from.componentName);
+  if (from.sandboxId) args.push(from.sandboxId);
+  return args;
+}
+
+/**
+ * Runs one of the sandbox generator scripts in a child process. Protocol
+ * events arrive on fd 3, stdout lines are forwarded as logs and stderr goes
+ * to the server log.
+ */
+async function runScriptJob(job: Job, script: string, emit: EmitEvent, signal: AbortSignal, budgetUsd?: number) {
+  const scriptPath = path.join(process.cwd(), "scripts", script);
+  // The script is loaded with `node --import tsx` because the tsx CLI wrapper would not pass fd 3 on
+  const prompt = withManualEdits(job.prompt, getPendingManualEdits(job));
+  // After "--", so a prompt that looks like a flag or a sandbox id is still the prompt
+  const child = spawn(process.execPath, ["--import", "tsx", scriptPath, ...followUpArgs(job), "--", prompt], {
+    env: {
+      ...process.env,
+      [EVENTS_FD_ENV]: "3",
+      [JOB_ID_ENV]: job.id,
+      ...(budgetUsd !== undefined ? { [BUDGET_ENV]: String(budgetUsd) } : {}),
+      ...(job.options ? { [GENERATION_OPTIONS_ENV]: JSON.stringify(job.options) } : {}),
+      ...(job.component ? { [COMPONENT_REQUEST_ENV]: JSON.stringify(job.component) } : {}),
+      ...(job.attachments?.length ? { [ATTACHMENTS_ENV]: JSON.stringify(job.attachments) } : {}),
+    },
+    stdio: ["ignore", "pipe", "pipe", "pipe"],
+  });
+
+  let completeEvent: GenerationEvent | undefined;
+  let reportedError = false;
+
+  const events = createLineSplitter((line) => {
+    let event: GenerationEvent;
+    try {
+      event = parseEventLine(line);
+    } catch (error: any) {
+      console.error(`[Job ${job.id}] Invalid generator event:`, error.message);
+      event = { type: "error", code: "protocol_error", message: error.message };
+    }
+
+    if (event.type === "complete") {
+      completeEvent = event;
+    } else if (event.type === "error") {
+      reportedError = true;
+    }
+    emit(event);
+  });
+
+  const logs = createLineSplitter((line) => {
+    emit({ type: "log", message: line.trim() });
+  });
+
+  (child.stdio[3] as Readable).on("data", (data) => events.push(data.toString()));
+  child.stdout!.on("data", (data) => logs.push(data.toString()));
+  child.stderr!.on("data", (data) => {
+    console.error(`[Job ${job.id}] [Generator Error]:`, data.toString());
+  });
+
+  // SIGTERM lets the generator stop the runner inside the sandbox first
+  const cancel = () => {
+    child.kill("SIGTERM");
+    setTimeout(() => child.kill("SIGKILL"), CANCEL_GRACE_MS).unref();
+  };
+  signal.addEventListener("abort", cancel);
+
+  const exitCode = await new Promise<number | null>((resolve, reject) => {
+    child.on("close", resolve);
+    child.on("error", reject);
+  }).finally(() => signal.removeEventListener("abort", cancel));
+  events.flush();
+  logs.flush();
+
+  if (signal.aborted) {
+    // The queue reports the cancellation itself
+    return;
+  }
+  if (exitCode !== 0) {
+    if (!reportedError) {
+      emit({
+        type: "error",
+        code: "process_failed",
+        message: `Generator exited with code ${exitCode}`,
+      });
+    }
+  } else if (!completeEvent) {
+    emit({
+      type: "error",
+      code: "missing_artifact",
+      message: `Generator finished without reporting a ${job.kind === "component" ? "component" : "preview"} URL`,
+    });
+  }
+}
+
+/**
+ * Runs a job to completion, reporting progress and the outcome through
+ * `emit`. Aborting `signal` stops the generation and resolves early, and
+ * Claude Code is stopped once it has spent `budgetUsd`.
+ */
+export function runJob(job: Job, emit: EmitEvent, signal: AbortSignal, budgetUsd?: number): Promise<void> {
+  if (job.kind === "code") {
+    return runCodeJob(job, emit, signal, budgetUsd);
+  }
+  return runScriptJob(job, GENERATOR_SCRIPTS[job.kind], emit, signal, budgetUsd);
+}
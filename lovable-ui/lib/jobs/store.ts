@@ -0,0 +1,197 @@
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import { createLineSplitter, type GenerationEvent } from "../events";
+import { dataPath, readJsonFile, updateJsonFile, withFileLockSync, writeJsonFile } from "../store";
+import type { SDKMessage } from "@anthropic-ai/claude-code";
+import {
+  JobNotFoundError,
+  type Job,
+  type JobEventRecord,
+  type JobKind,
+  type TranscriptRun,
+  type VariantGroup,
+} from "./types";
+
+// Each job is a directory holding job.json, an append-only events.ndjson and
+// the transcript.json of its Claude Code runs
+const JOBS_DIR = dataPath("jobs");
+
+// One <group-id>.json per set of variants
+const VARIANTS_DIR = dataPath("variants");
+
+// How much of the end of the log is read for its last sequence number
+const SEQ_TAIL_BYTES = 64 * 1024;
+
+function jobDir(jobId: string) {
+  if (!/^[\w-]+$/.test(jobId)) {
+    throw new JobNotFoundError(jobId);
+  }
+  return `${JOBS_DIR}/${jobId}`;
+}
+
+function jobFile(jobId: string) {
+  return `${jobDir(jobId)}/job.json`;
+}
+
+function eventsFile(jobId: string) {
+  return `${jobDir(jobId)}/events.ndjson`;
+}
+
+function transcriptFile(jobId: string) {
+  return `${jobDir(jobId)}/transcript.json`;
+}
+
+export function createJob(
+  kind: JobKind,
+  prompt: string,
+  details: Pick<Job, "parentJobId" | "resumeFrom" | "options" | "component" | "variant" | "attachments"> = {}
+): Job {
+  const job: Job = {
+    id: randomUUID(),
+    kind,
+    prompt,
+    status: "queued",
+    ...details,
+    sandboxId: details.resumeFrom?.sandboxId,
+    createdAt: new Date().toISOString(),
+  };
+  writeJsonFile(jobFile(job.id), job);
+  return job;
+}
+
+export function getJob(jobId: string): Job | undefined {
+  return readJsonFile<Job | undefined>(jobFile(jobId), undefined);
+}
+
+export function listJobs(): Job[] {
+  if (!fs.existsSync(JOBS_DIR)) {
+    return [];
+  }
+  return fs
+    .readdirSync(JOBS_DIR)
+    .map((jobId) => getJob(jobId))
+    .filter((job): job is Job => !!job)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function updateJob(jobId: string, changes: Partial<Omit<Job, "id">>): Promise<Job> {
+  const job = await updateJsonFile<Job | undefined>(jobFile(jobId), undefined, (job) => {
+    if (!job) {
+      throw new JobNotFoundError(jobId);
+    }
+    return { ...job, ...changes };
+  });
+  return job!;
+}
+
+/** Returns the recorded events of a job with a sequence number above `afterSeq`. */
+export function readJobEvents(jobId: string, afterSeq = 0): JobEventRecord[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(eventsFile(jobId), "utf-8");
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const records: JobEventRecord[] = [];
+  const lines = createLineSplitter((line) => {
+    try {
+      const record: JobEventRecord = JSON.parse(line);
+      if (record.seq > afterSeq) records.push(record);
+    } catch {
+      // A line cut short by a crash, the rest of the log is still usable
+    }
+  });
+  lines.push(content);
+  lines.flush();
+  return records;
+}
+
+// Sequence number of the last complete record in the log, 0 for an empty or missing one
+function readLastSeq(jobId: string): number {
+  let fd: number;
+  try {
+    fd = fs.openSync(eventsFile(jobId), "r");
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return 0;
+    }
+    throw error;
+  }
+  try {
+    const size = fs.fstatSync(fd).size;
+    const start = Math.max(size - SEQ_TAIL_BYTES, 0);
+    const tail = Buffer.alloc(size - start);
+    fs.readSync(fd, tail, 0, tail.length, start);
+    // Unless the tail is the whole log, its first line may be cut off
+    const lines = tail.toString("utf-8").split("\n").slice(start > 0 ? 1 : 0);
+    for (let i = lines.length - 1; i >= 0; i--) {
+      try {
+        return JSON.parse(lines[i]).seq;
+      } catch {
+        // Empty, or a line cut short by a crash
+      }
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  // Records bigger than the tail
+  const existing = readJobEvents(jobId);
+  return existing.length > 0 ? existing[existing.length - 1].seq : 0;
+}
+
+/**
+ * Appends an event to the job's log and returns the stored record. The log
+ * is locked while the next sequence number is read from it, so the web app
+ * and scripts can append to the same job.
+ */
+export function appendJobEvent(jobId: string, event: GenerationEvent): JobEventRecord {
+  const file = eventsFile(jobId);
+  return withFileLockSync(file, () => {
+    const record: JobEventRecord = { seq: readLastSeq(jobId) + 1, ts: new Date().toISOString(), event };
+    fs.appendFileSync(file, JSON.stringify(record) + "\n");
+    return record;
+  });
+}
+
+/** Returns the Claude Code runs recorded for a job, oldest first. */
+export function getTranscript(jobId: string): TranscriptRun[] {
+  return readJsonFile<TranscriptRun[]>(transcriptFile(jobId), []);
+}
+
+/**
+ * Records the messages of one Claude Code run of a job. Generator scripts
+ * call this from their own process, so the file is updated under its lock.
+ */
+export async function appendTranscript(jobId: string, label: string, messages: SDKMessage[]): Promise<void> {
+  const run: TranscriptRun = { label, recordedAt: new Date().toISOString(), messages };
+  await updateJsonFile<TranscriptRun[]>(transcriptFile(jobId), [], (runs) => [...runs, run]);
+}
+
+function variantGroupFile(groupId: string) {
+  if (!/^[\w-]+$/.test(groupId)) {
+    throw new JobNotFoundError(groupId, "Variant group");
+  }
+  return `${VARIANTS_DIR}/${groupId}.json`;
+}
+
+export function createVariantGroup(group: VariantGroup) {
+  writeJsonFile(variantGroupFile(group.id), group);
+}
+
+export function getVariantGroup(groupId: string): VariantGroup | undefined {
+  return readJsonFile<VariantGroup | undefined>(variantGroupFile(groupId), undefined);
+}
+
+export async function updateVariantGroup(groupId: string, changes: Partial<Omit<VariantGroup, "id">>) {
+  const group = await updateJsonFile<VariantGroup | undefined>(variantGroupFile(groupId), undefined, (group) => {
+    if (!group) {
+      throw new JobNotFoundError(groupId, "Variant group");
+    }
+    return { ...group, ...changes };
+  });
+  return group!;
+}
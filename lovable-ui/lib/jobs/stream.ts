@@ -0,0 +1,82 @@
+import { getJobQueue } from "./queue";
+import { getJob, readJobEvents } from "./store";
+import { isFinished, type JobEventRecord } from "./types";
+
+/**
+ * Reads the sequence number a reconnecting client has already seen, from the
+ * standard `Last-Event-ID` header or a `lastEventId` query parameter (for
+ * clients such as EventSource polyfills that cannot set headers).
+ */
+export function getLastEventId(req: Request): number {
+  const value = req.headers.get("Last-Event-ID") ?? new URL(req.url).searchParams.get("lastEventId");
+  const seq = parseInt(value || "");
+  return Number.isFinite(seq) && seq > 0 ? seq : 0;
+}
+
+/**
+ * Streams a job's events as server-sent events: everything recorded after
+ * `afterSeq`, then live events until the job finishes, followed by
+ * `data: [DONE]`. Each event carries its sequence number as SSE id.
+ */
+export function jobEventsResponse(
+  jobId: string,
+  options: { afterSeq?: number; signal?: AbortSignal } = {}
+): Response {
+  const encoder = new TextEncoder();
+  const stream = new TransformStream();
+  const writer = stream.writable.getWriter();
+
+  let lastSeq = options.afterSeq || 0;
+  let done = false;
+  // Replayed and live events must reach the client in order, so writes are chained
+  let chain = Promise.resolve();
+
+  const send = async (record: JobEventRecord) => {
+    if (done || record.seq <= lastSeq) return;
+    lastSeq = record.seq;
+    await writer.write(encoder.encode(`id: ${record.seq}\ndata: ${JSON.stringify(record.event)}\n\n`));
+  };
+
+  const finish = async () => {
+    if (done) return;
+    done = true;
+    unsubscribe();
+    await writer.write(encoder.encode("data: [DONE]\n\n"));
+    await writer.close();
+  };
+
+  const enqueue = (write: () => Promise<void>) => {
+    chain = chain.then(write).catch(() => {
+      // The client went away
+      done = true;
+      unsubscribe();
+    });
+  };
+
+  enqueue(async () => {
+    for (const record of readJobEvents(jobId, lastSeq)) {
+      await send(record);
+    }
+    const job = getJob(jobId);
+    if (!job || isFinished(job.status)) {
+      await finish();
+    }
+  });
+  const unsubscribe = getJobQueue().subscribe(jobId, (record) => {
+    enqueue(() => (record ? send(record) : finish()));
+  });
+
+  options.signal?.addEventListener("abort", () => {
+    done = true;
+    unsubscribe();
+  });
+
+  return new Response(stream.readable, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "X-Job-Id": jobId,
+    },
+  });
+}
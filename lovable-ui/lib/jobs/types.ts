@@ -0,0 +1,124 @@
+import type { SDKMessage } from "@anthropic-ai/claude-code";
+import type { Attachment } from "../attachments";
+import type { ComponentRequest } from "../components";
+import type { ErrorCode, GenerationEvent } from "../events";
+import type { GenerationOptions } from "../generation-options";
+import type { Usage } from "../usage";
+
+/**
+ * What a job generates:
+ * - "code": runs Claude Code directly in the web server process
+ * - "website": a Next.js site in a sandbox (scripts/generate-in-daytona.ts)
+ * - "component": an OpenComponent in a sandbox (scripts/generate-oc-component-in-daytona.ts)
+ */
+export type JobKind = "code" | "website" | "component";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export interface JobResult {
+  sandboxId?: string;
+  previewUrl?: string;
+  componentName?: string;
+  componentUrl?: string;
+  sessionId?: string;
+}
+
+/** Where a job stands among the variants generated for the same prompt. */
+export interface JobVariant {
+  groupId: string;
+  // 0-based, in the order the variants were requested
+  index: number;
+  count: number;
+  // Design direction given to this variant, if any
+  style?: string;
+}
+
+/** A change the user made by hand after a job finished, shown to the next Claude turn. */
+export interface ManualEdit {
+  // The file edited in the code editor, unset for changes to the whole project
+  path?: string;
+  // What happened, for changes other than a file edit, e.g. restoring an earlier version
+  description?: string;
+  editedAt: string;
+  // Unified diff of the change, cut short for big rewrites
+  diff: string;
+}
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  prompt: string;
+  status: JobStatus;
+  // Known as soon as the generator reports it, before the job finishes
+  sandboxId?: string;
+  // Follow-ups continue in the sandbox, Claude session and component of their parent
+  parentJobId?: string;
+  resumeFrom?: JobResult;
+  // Resolved against the generation policy when the job is submitted
+  options?: GenerationOptions;
+  // How a component job names what it publishes
+  component?: ComponentRequest;
+  variant?: JobVariant;
+  // Files attached to the prompt, copied into the sandbox or workspace for Claude to read
+  attachments?: Attachment[];
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  result?: JobResult;
+  error?: { code: ErrorCode; message: string };
+  // Total of the job's "usage" events, kept up to date while it runs
+  usage?: Usage;
+  // Made in the code editor or project history once the job finished, the next follow-up is told about them
+  manualEdits?: ManualEdit[];
+}
+
+/** Jobs generating variants of one prompt side by side, until the user keeps one of them. */
+export interface VariantGroup {
+  id: string;
+  kind: JobKind;
+  prompt: string;
+  jobIds: string[];
+  createdAt: string;
+  keptJobId?: string;
+}
+
+/** One line of a job's events.ndjson file. */
+export interface JobEventRecord {
+  seq: number;
+  ts: string;
+  event: GenerationEvent;
+}
+
+/** One Claude Code run of a job with every SDK message it produced, kept in transcript.json. */
+export interface TranscriptRun {
+  // What the run did, e.g. "generate" or "repair 1"
+  label: string;
+  recordedAt: string;
+  messages: SDKMessage[];
+}
+
+/** Everything recorded about a job, as served by /api/jobs/:id/transcript. */
+export interface JobTranscript {
+  job: Job;
+  events: JobEventRecord[];
+  runs: TranscriptRun[];
+}
+
+export class JobNotFoundError extends Error {
+  constructor(jobId: string, what = "Job") {
+    super(`${what} ${jobId} not found`);
+    this.name = "JobNotFoundError";
+  }
+}
+
+/** A job request the API should reject, `status` is the HTTP status to answer with. */
+export class JobRequestError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "JobRequestError";
+  }
+}
+
+export function isFinished(status: JobStatus) {
+  return status === "succeeded" || status === "failed" || status === "cancelled";
+}
@@ -0,0 +1,62 @@
+import { getBudgets } from "../usage";
+import { getJob, listJobs } from "./store";
+import type { Job } from "./types";
+
+// Budgets of running jobs, by job id. Held against the daily budget until the
+// job finishes, so jobs running side by side can't spend it more than once
+const reservations = new Map<string, { day: string; budgetUsd: number }>();
+
+/** UTC day a job's spending counts towards, e.g. "2024-05-01". */
+export function jobDay(job: Job) {
+  return (job.startedAt || job.createdAt).slice(0, 10);
+}
+
+export function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/** What all jobs started on `day` have spent, running ones included. */
+export function getDailySpend(day = today()) {
+  return listJobs()
+    .filter((job) => jobDay(job) === day)
+    .reduce((total, job) => total + (job.usage?.costUsd || 0), 0);
+}
+
+// What running jobs of `day` may still spend of their reservations
+function getReservedSpend(day: string) {
+  let reserved = 0;
+  reservations.forEach((reservation, jobId) => {
+    if (reservation.day === day) {
+      const spent = getJob(jobId)?.usage?.costUsd || 0;
+      reserved += Math.max(reservation.budgetUsd - spent, 0);
+    }
+  });
+  return reserved;
+}
+
+/**
+ * Budget of a job that is about to start: the per-job budget, capped by its
+ * share of what is left of today's budget once the budgets of running jobs
+ * are held back. What is left is shared among the `concurrency` jobs that may
+ * run at once, so one job can't hold all of it while others wait to start.
+ * The budget is reserved until releaseJobBudget(). Undefined when neither
+ * budget is set.
+ */
+export function reserveJobBudget(jobId: string, concurrency: number): number | undefined {
+  const budgets = getBudgets();
+  if (budgets.daily === undefined) {
+    return budgets.job;
+  }
+  const day = today();
+  const left = Math.max(budgets.daily - getDailySpend(day) - getReservedSpend(day), 0);
+  const running = Array.from(reservations.values()).filter((reservation) => reservation.day === day).length;
+  const share = left / Math.max(concurrency - running, 1);
+  const budgetUsd = budgets.job === undefined ? share : Math.min(budgets.job, share);
+  reservations.set(jobId, { day, budgetUsd });
+  return budgetUsd;
+}
+
+/** Gives what a finished job didn't spend of its budget back to the daily budget. */
+export function releaseJobBudget(jobId: string) {
+  reservations.delete(jobId);
+}
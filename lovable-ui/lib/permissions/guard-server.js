@@ -0,0 +1,317 @@
+// Permission guard for Claude Code runs in the web server process.
+//
+// Claude Code starts this file as a stdio MCP server and, because it is named
+// in `permissionPromptToolName`, asks its "approve" tool before running any
+// tool that is not pre-approved. Everything the guard needs comes from the
+// environment (see lib/permissions/index.ts):
+// - LOVABLE_WORKSPACE: the only directory file tools and Bash may touch
+// - LOVABLE_ALLOWED_TOOLS: JSON array of the tools the job may use
+// - LOVABLE_BASH_COMMANDS: JSON array of the programs Bash may run, "*" for
+//   any but the CODE_RUNNERS
+// - LOVABLE_DENIALS_FILE: every denial is appended there as one JSON line
+const fs = require('fs');
+const path = require('path');
+const readline = require('readline');
+
+const TOOL_NAME = 'approve';
+
+// Input field holding the path each file tool works on
+const FILE_TOOLS = {
+  Read: 'file_path',
+  Write: 'file_path',
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  NotebookRead: 'notebook_path',
+  NotebookEdit: 'notebook_path',
+  LS: 'path',
+  Glob: 'path',
+  Grep: 'path'
+};
+
+// File tools that change files, they must stay out of .git
+const WRITE_TOOLS = ['Write', 'Edit', 'MultiEdit', 'NotebookEdit'];
+
+// Input field holding the glob of the files a search tool looks at, relative to its path
+const GLOB_FIELDS = {
+  Glob: 'pattern',
+  Grep: 'glob'
+};
+
+const workspace = realpath(process.env.LOVABLE_WORKSPACE || process.cwd());
+const allowedTools = JSON.parse(process.env.LOVABLE_ALLOWED_TOOLS || '[]');
+const bashCommands = JSON.parse(process.env.LOVABLE_BASH_COMMANDS || '[]');
+const denialsFile = process.env.LOVABLE_DENIALS_FILE;
+
+// Resolves symlinks of the longest existing part of `target`, so a link
+// inside the workspace cannot point a write outside of it
+function realpath(target) {
+  const missing = [];
+  let current = path.resolve(target);
+  while (!fs.existsSync(current)) {
+    missing.unshift(path.basename(current));
+    const parent = path.dirname(current);
+    if (parent === current) break;
+    current = parent;
+  }
+  return path.join(fs.realpathSync(current), ...missing);
+}
+
+function insideWorkspace(target) {
+  const resolved = realpath(path.resolve(workspace, target));
+  return resolved === workspace || resolved.startsWith(workspace + path.sep);
+}
+
+// Git runs in projects, a config or hook written there runs whatever it names
+function inGitDir(target) {
+  return target.split(/[\\/]/).includes('.git');
+}
+
+// Returns why a glob reaches outside of `base`: `/etc/**` and `../**` do
+function checkGlob(glob, base) {
+  if (!path.isAbsolute(glob) && !glob.split('/').includes('..')) {
+    return undefined;
+  }
+  const parts = glob.split('/');
+  const literal = parts.findIndex((part) => /[*?[{]/.test(part));
+  if (literal !== -1 && parts.slice(literal).includes('..')) {
+    return glob + ' may match files outside the workspace';
+  }
+  const prefix = literal === -1 ? parts : parts.slice(0, literal);
+  const target = path.resolve(base, prefix.join('/') || '.');
+  return insideWorkspace(target) ? undefined : glob + ' is outside the workspace';
+}
+
+// Programs that run code or other programs given to them, so their arguments
+// say nothing about what they touch. "*" does not cover them, Bash may only
+// run the ones bashCommands names
+const CODE_RUNNERS = [
+  'node', 'npm', 'npx', 'pnpm', 'yarn', 'bun', 'bunx', 'deno', 'tsx', 'ts-node',
+  'python', 'perl', 'ruby', 'php', 'lua', 'sh', 'bash', 'zsh', 'dash', 'ksh', 'fish',
+  'awk', 'gawk', 'sed', 'find', 'xargs', 'env', 'eval', 'exec', 'source', '.', 'command',
+  'builtin', 'nohup', 'nice', 'timeout', 'time', 'watch', 'sudo', 'su', 'make', 'git'
+];
+
+class CommandError extends Error {}
+
+// Splits a command line into its simple commands, each a list of words with
+// the quotes removed. Whatever the shell would expand is refused, the guard
+// cannot know what it expands to
+function parseCommand(command) {
+  const commands = [];
+  let words = [];
+  // null between words, so '' can be an empty quoted word
+  let word = null;
+  let quote = null;
+  const append = (text) => { word = (word === null ? '' : word) + text; };
+  const endWord = () => {
+    if (word !== null) words.push(word);
+    word = null;
+  };
+  const endCommand = () => {
+    endWord();
+    if (words.length > 0) commands.push(words);
+    words = [];
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const c = command[i];
+    if (quote === "'") {
+      if (c === "'") quote = null;
+      else append(c);
+    } else if (c === '\\') {
+      const next = command[++i];
+      if (next === undefined) throw new CommandError('Command ends with an escape');
+      // Inside double quotes a backslash only escapes what would be special there
+      if (quote === '"' && !'$`"\\\n'.includes(next)) append(c);
+      if (next !== '\n') append(next);
+    } else if (c === '$' || c === '`') {
+      throw new CommandError('Variables and command substitution are not allowed');
+    } else if (quote === '"') {
+      if (c === '"') quote = null;
+      else append(c);
+    } else if (c === "'" || c === '"') {
+      quote = c;
+      append('');
+    } else if (c === '#' && word === null) {
+      while (i + 1 < command.length && command[i + 1] !== '\n') i++;
+    } else if (c === ' ' || c === '\t') {
+      endWord();
+    } else if (c === '&' && command[i + 1] === '>') {
+      // &>file redirects both outputs, the target is checked like any path
+      endWord();
+    } else if (c === '\n' || c === ';' || c === '&' || c === '|') {
+      endCommand();
+    } else if (c === '<' || c === '>') {
+      if (command[i + 1] === '(') throw new CommandError('Process substitution is not allowed');
+      // The file descriptor of 2>file is not an argument
+      if (word !== null && /^\d+$/.test(word)) word = null;
+      endWord();
+      if (command[i + 1] === c) i++;
+      // 2>&1 and >&- name file descriptors, not files
+      if (command[i + 1] === '&' && /[\d-]/.test(command[i + 2] || '')) {
+        i += 2;
+        while (/\d/.test(command[i + 1] || '')) i++;
+      } else if (command[i + 1] === '&') {
+        i++;
+      }
+    } else if ('*?[{'.includes(c)) {
+      throw new CommandError('Globs and brace expansion are not allowed, quote the argument');
+    } else if (c === '(' || c === ')') {
+      throw new CommandError('Subshells are not allowed');
+    } else {
+      append(c);
+    }
+  }
+  if (quote) throw new CommandError('Unterminated quote');
+  endCommand();
+  return commands;
+}
+
+// The paths an argument may name: `--out=/etc/x` and `-o/etc/x` name /etc/x
+function argumentPaths(word) {
+  return word.split(/[=:,]/)
+    .map((part) => part.replace(/^-+[A-Za-z]*(?=[/~.])/, ''))
+    .filter((part) => part.includes('/') || part.startsWith('~') || part === '..')
+    // 2>/dev/null is as common as it is harmless
+    .filter((part) => part !== '/dev/null');
+}
+
+function checkBash(command) {
+  if (typeof command !== 'string' || !command.trim()) {
+    return 'Empty command';
+  }
+  let commands;
+  try {
+    commands = parseCommand(command);
+  } catch (error) {
+    if (error instanceof CommandError) return error.message;
+    throw error;
+  }
+  const anyCommand = bashCommands.includes('*');
+
+  for (const words of commands) {
+    if (/^[A-Za-z_]\w*=/.test(words[0])) {
+      return 'Setting environment variables is not allowed';
+    }
+    if (words[0].includes('/')) {
+      return words[0] + ' must be run by its name';
+    }
+    const program = words[0];
+    // python3.12 is python
+    const runsCode = CODE_RUNNERS.includes(program.replace(/[\d.]+$/, '') || program);
+    if (!bashCommands.includes(program) && (runsCode || !anyCommand)) {
+      return '"' + program + '" is not an allowed command';
+    }
+    // A bare `cd` goes home and `cd -` back to wherever the last one came from
+    if (program === 'cd' && !words.slice(1).some((word) => word !== '-' && !word.startsWith('-'))) {
+      return 'cd needs a directory inside the workspace';
+    }
+    // Not a sandbox: catches paths spelled out in arguments, like `rm -rf ../app` or `--out=/etc/x`
+    for (const word of words.slice(1)) {
+      if (word.split(/[=:,]/).some(inGitDir)) {
+        return '.git is managed by the server';
+      }
+      for (const value of argumentPaths(word)) {
+        if (!insideWorkspace(value.replace(/^~/, process.env.HOME || '/'))) {
+          return value + ' is outside the workspace';
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+/** Returns why `toolName` may not run with `input`, or undefined when it may. */
+function checkTool(toolName, input) {
+  if (!allowedTools.includes(toolName)) {
+    return toolName + ' is not enabled for this generation';
+  }
+  if (FILE_TOOLS[toolName]) {
+    const target = input && input[FILE_TOOLS[toolName]];
+    if (target && !insideWorkspace(target)) {
+      return target + ' is outside the workspace';
+    }
+    if (target && WRITE_TOOLS.includes(toolName) && inGitDir(path.relative(workspace, realpath(path.resolve(workspace, target))))) {
+      return '.git is managed by the server';
+    }
+  }
+  const glob = GLOB_FIELDS[toolName] && input && input[GLOB_FIELDS[toolName]];
+  if (typeof glob === 'string') {
+    const reason = checkGlob(glob, path.resolve(workspace, (input && input.path) || '.'));
+    if (reason) return reason;
+  }
+  if (toolName === 'Bash') {
+    return checkBash(input && input.command);
+  }
+  return undefined;
+}
+
+function approve(args) {
+  const toolName = args.tool_name;
+  const input = args.input || {};
+  const reason = checkTool(toolName, input);
+  if (!reason) {
+    return { behavior: 'allow', updatedInput: input };
+  }
+  if (denialsFile) {
+    fs.appendFileSync(denialsFile, JSON.stringify({ tool: toolName, message: reason, input: input }) + '\n');
+  }
+  return { behavior: 'deny', message: 'Permission denied: ' + reason };
+}
+
+function handle(request) {
+  switch (request.method) {
+    case 'initialize':
+      return {
+        protocolVersion: request.params && request.params.protocolVersion,
+        capabilities: { tools: {} },
+        serverInfo: { name: 'lovable-permissions', version: '1.0.0' }
+      };
+    case 'ping':
+      return {};
+    case 'tools/list':
+      return {
+        tools: [{
+          name: TOOL_NAME,
+          description: 'Decides whether Claude Code may run a tool',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              tool_name: { type: 'string' },
+              input: { type: 'object' },
+              tool_use_id: { type: 'string' }
+            },
+            required: ['tool_name', 'input']
+          }
+        }]
+      };
+    case 'tools/call':
+      if (request.params.name !== TOOL_NAME) {
+        throw Object.assign(new Error('Unknown tool ' + request.params.name), { code: -32602 });
+      }
+      return { content: [{ type: 'text', text: JSON.stringify(approve(request.params.arguments || {})) }] };
+    default:
+      throw Object.assign(new Error('Method not found: ' + request.method), { code: -32601 });
+  }
+}
+
+// MCP over stdio: one JSON-RPC message per line
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  if (!line.trim()) return;
+  let request;
+  try {
+    request = JSON.parse(line);
+  } catch (error) {
+    return;
+  }
+  // Notifications get no answer
+  if (request.id === undefined) return;
+
+  let response;
+  try {
+    response = { jsonrpc: '2.0', id: request.id, result: handle(request) };
+  } catch (error) {
+    response = { jsonrpc: '2.0', id: request.id, error: { code: error.code || -32603, message: error.message } };
+  }
+  process.stdout.write(JSON.stringify(response) + '\n');
+});
@@ -0,0 +1,91 @@
+import type { Options } from "@anthropic-ai/claude-code";
+import * as fs from "fs";
+import * as path from "path";
+import type { GenerationEvent } from "../events";
+import { dataPath } from "../store";
+
+const GUARD_SERVER = path.join(process.cwd(), "lib", "permissions", "guard-server.js");
+
+const SERVER_NAME = "lovable";
+
+// Claude Code names MCP tools mcp__<server>__<tool>
+const PERMISSION_TOOL = `mcp__${SERVER_NAME}__approve`;
+
+// Tools that never touch the filesystem, Claude Code runs them without asking the guard
+const UNGUARDED_TOOLS = ["WebSearch", "WebFetch", "TodoRead", "TodoWrite"];
+
+export type PermissionDeniedEvent = Extract<GenerationEvent, { type: "permission_denied" }>;
+
+export interface PermissionGuard {
+  workspace: string;
+  // Spread into the query() options of the run to guard
+  queryOptions: Pick<Options, "cwd" | "allowedTools" | "mcpServers" | "permissionPromptToolName">;
+  /** Returns a "permission_denied" event for each denial since the last call. */
+  readDenials(): PermissionDeniedEvent[];
+}
+
+/** Directory a local generation works in, created on first use. */
+export function getWorkspaceDir(workspaceId: string) {
+  if (!/^[\w-]+$/.test(workspaceId)) {
+    throw new Error(`Invalid workspace id: ${workspaceId}`);
+  }
+  const dir = dataPath("workspaces", workspaceId);
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+/**
+ * Confines a Claude Code run to `workspace`: it starts there, file tools may
+ * only touch paths inside it and Bash may only run `bashCommands` ("*" for
+ * any program but interpreters and package runners) on paths inside it.
+ * Neither may change anything in a .git directory.
+ * Tools outside `allowedTools` are denied.
+ *
+ * Every tool that could touch the filesystem is left out of Claude Code's
+ * own allow list, so it has to ask guard-server.js first.
+ */
+export function createPermissionGuard(options: {
+  workspace: string;
+  allowedTools: string[];
+  bashCommands: string[];
+}): PermissionGuard {
+  const denialsFile = `${options.workspace}.denials.ndjson`;
+  // Follow-ups share the workspace, only report denials of this run
+  let offset = fs.existsSync(denialsFile) ? fs.statSync(denialsFile).size : 0;
+
+  return {
+    workspace: options.workspace,
+    queryOptions: {
+      cwd: options.workspace,
+      allowedTools: options.allowedTools.filter((tool) => UNGUARDED_TOOLS.includes(tool)),
+      mcpServers: {
+        [SERVER_NAME]: {
+          type: "stdio",
+          command: process.execPath,
+          args: [GUARD_SERVER],
+          env: {
+            LOVABLE_WORKSPACE: options.workspace,
+            LOVABLE_ALLOWED_TOOLS: JSON.stringify(options.allowedTools),
+            LOVABLE_BASH_COMMANDS: JSON.stringify(options.bashCommands),
+            LOVABLE_DENIALS_FILE: denialsFile,
+          },
+        },
+      },
+      permissionPromptToolName: PERMISSION_TOOL,
+    },
+    readDenials() {
+      if (!fs.existsSync(denialsFile)) return [];
+      const content = fs.readFileSync(denialsFile);
+      const lines = content.subarray(offset).toString().split("\n");
+      // Keep a line the guard is still writing for the next call
+      const complete = lines.slice(0, -1);
+      offset += complete.reduce((total, line) => total + Buffer.byteLength(line) + 1, 0);
+      return complete
+        .filter((line) => line.trim())
+        .map((line): PermissionDeniedEvent => {
+          const denial = JSON.parse(line);
+          return { type: "permission_denied", tool: denial.tool, message: denial.message, input: denial.input };
+        });
+    },
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Prompts sent to Claude Code by the sandbox generators. They are built on
+ * the host and handed to the in-sandbox runner as data, so user input never
+ * ends up in generated code or shell commands.
+ */
+
+import type { AttachedFile } from "./attachments";
+import type { ComponentTemplate, ComponentType } from "./components/templates";
+import type { ManualEdit } from "./jobs/types";
+
+export const DEFAULT_WEBSITE_PROMPT = "Create a modern blog website with markdown support and a dark theme";
+
+export const DEFAULT_COMPONENT_PROMPT = "Create a beautiful, reusable UI component";
+
+export function buildWebsitePrompt(prompt?: string): string {
+  return `${prompt || DEFAULT_WEBSITE_PROMPT}
+
+  Important requirements:
+  - Create a NextJS app with TypeScript and Tailwind CSS
+  - Use the app directory structure
+  - Create all files in the current directory
+  - Include a package.json with all necessary dependencies
+  - Make the design modern and responsive
+  - Add at least a home page and one other page
+  - Include proper navigation between pages
+  `;
+}
+
+// How the view is written, per OC template
+const TEMPLATE_SECTIONS: Record<ComponentTemplate, string> = {
+  vanilla: `The component uses the oc-template-es6 template. The view is an ES module whose default export takes
+     the model returned by server.js and returns the component's HTML as a string. Use plain JavaScript
+     and template literals, no framework.`,
+  react: `The component uses the oc-template-react template. The view is a React function component written in
+     JSX and exported as default; it receives the object returned by server.js as props. Use hooks for
+     client-side state, and do not add other UI libraries.`,
+  vue: `The component uses the oc-template-vue template. The view is a Vue single-file component (.vue) with
+     <template>, <script> and <style scoped> blocks; it receives the object returned by server.js as props.`,
+  svelte: `The component uses the oc-template-svelte template. The view is a Svelte component (.svelte); the
+     object returned by server.js arrives as props (export let ...). Keep styles in its <style> block.`,
+};
+
+// What the component does and what server.js is for, per component type
+const TYPE_SECTIONS: Record<ComponentType, string> = {
+  ui: `Create a presentational UI component. Everything it shows comes from its parameters, each with a
+     sensible default. server.js only passes the parameters on to the view, it does not fetch any data.`,
+  data: `Create a data-driven component. server.js loads or computes the data: from the API the request names,
+     or from realistic sample data when it names none. Handle failed requests in server.js and give the
+     view empty and error states to render.`,
+  composite: `Create a composite component that combines several clearly separated parts (for example a header,
+     a list and a detail view) into one. Build the view from small sub-components, and let parameters
+     configure each part. Other published components can be embedded with <oc-component href="..."> tags.`,
+};
+
+export function buildComponentPrompt(
+  prompt?: string,
+  component: { type: ComponentType; template: ComponentTemplate } = { type: "ui", template: "vanilla" }
+): string {
+  return `${prompt || DEFAULT_COMPONENT_PROMPT}
+
+  IMPORTANT: You are creating an OpenComponent, not a full website. Requirements:
+
+  1. COMPONENT STRUCTURE: You are working in a directory scaffolded by \`oc init\`. Read package.json first:
+     \`oc.files.template.src\` names the view file and \`oc.files.data\` the server file (server.js).
+     ${TEMPLATE_SECTIONS[component.template]}
+
+  2. COMPONENT TYPE: ${TYPE_SECTIONS[component.type]}
+     The component must also:
+     - Be focused and reusable
+     - Have a single clear purpose
+     - Be embeddable in other applications
+
+  3. FILES TO GENERATE:
+     - The view file: main component rendering logic (this is what users see)
+     - server.js: returns the data the view renders
+     - package.json: declare every parameter under \`oc.parameters\` with type, description and example,
+       and add a description of the component. Keep the template and its compiler as they are
+     - Any static assets in the public/ folder
+
+  4. COMPONENT FEATURES:
+     - Make it visually appealing and modern
+     - Include proper error handling
+     - Make it responsive if it has a visible layout
+     - Include reasonable defaults
+
+  Focus on creating ONE high-quality, reusable component rather than multiple components.
+  `;
+}
+
+/**
+ * Adds the files the user attached to a prompt. Claude Code reads them with
+ * its Read tool, which also shows it images.
+ */
+export function withAttachments(prompt: string, files: AttachedFile[]): string {
+  if (files.length === 0) {
+    return prompt;
+  }
+  return `${prompt}
+
+  The user attached these files to the request. Read every one of them with the Read tool before you start;
+  images are screenshots or mockups of what the result should look like, match them as closely as you can:
+${files.map((file) => `  - ${file.path} (${file.name}, ${file.mimeType})`).join("\n")}
+  `;
+}
+
+/**
+ * Tells Claude about the changes the user made by hand since its last turn,
+ * edited files and earlier versions restored, so it keeps them.
+ */
+export function withManualEdits(prompt: string, edits: ManualEdit[] = []): string {
+  if (edits.length === 0) {
+    return prompt;
+  }
+  return `${prompt}
+
+  Since your last turn the user changed the project by hand. Keep their changes, and read the files again
+  before you edit them:
+${edits
+  .map((edit) => `${edit.description ? `\n  ${edit.description}` : ""}\n\`\`\`diff\n${edit.diff}\n\`\`\``)
+  .join("\n")}
+  `;
+}
+
+/**
+ * Prompt for a follow-up request on an existing project. When the Claude Code
+ * session is resumed the model already has the context, otherwise it has to
+ * rediscover it from the files.
+ */
+export function buildFollowUpPrompt(prompt: string, resumed: boolean): string {
+  if (resumed) {
+    return `${prompt}
+
+  Keep working on the existing files in the current directory. Only change what this request asks for.
+  `;
+  }
+  return `The current directory contains a project you generated earlier. Read the relevant files first, then apply this change:
+
+  ${prompt}
+
+  Keep the existing structure and only change what this request asks for.
+  `;
+}
+
+/** Prompt for fixing the errors reported by a failed build or start check. */
+export function buildRepairPrompt(checkName: string, errors: string): string {
+  return `Checking the project in the current directory with ${checkName} failed with this output:
+
+\`\`\`
+${errors}
+\`\`\`
+
+  Fix the code so that ${checkName} succeeds. Make the smallest change that fixes the errors, do not redesign or rewrite working code.
+  `;
+}
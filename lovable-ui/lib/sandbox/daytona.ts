@@ -0,0 +1,119 @@
+import { Daytona } from "@daytonaio/sdk";
+import { FakeDaytona, isFakeDaytona, type DaytonaClient, type DaytonaSandboxApi } from "./fake-daytona";
+import {
+  DEFAULT_PREVIEW_PORT,
+  SandboxNotFoundError,
+  type CreateSandboxOptions,
+  type ExecResult,
+  type PreviewLink,
+  type Sandbox,
+  type SandboxProvider,
+  type SandboxSummary,
+} from "./types";
+
+class DaytonaSandboxHandle implements Sandbox {
+  readonly provider = "daytona";
+
+  constructor(private readonly sandbox: DaytonaSandboxApi, readonly hostAlias: string) {}
+
+  get id() {
+    return this.sandbox.id;
+  }
+
+  get previewPort() {
+    return this.sandbox.previewPort || DEFAULT_PREVIEW_PORT;
+  }
+
+  async getUserRootDir(): Promise<string> {
+    const rootDir = await this.sandbox.getUserRootDir();
+    if (!rootDir) {
+      throw new Error(`Could not determine root directory of sandbox ${this.id}`);
+    }
+    return rootDir;
+  }
+
+  async exec(
+    command: string,
+    cwd?: string,
+    env?: Record<string, string>,
+    timeoutMs?: number
+  ): Promise<ExecResult> {
+    // The Daytona API takes its timeout in seconds
+    const timeoutSeconds = timeoutMs ? Math.ceil(timeoutMs / 1000) : undefined;
+    const response = await this.sandbox.process.executeCommand(command, cwd, env, timeoutSeconds);
+    return { exitCode: response.exitCode, result: response.result || "" };
+  }
+
+  async uploadFile(content: Buffer | string, remotePath: string): Promise<void> {
+    const buffer = typeof content === "string" ? Buffer.from(content) : content;
+    await this.sandbox.fs.uploadFile(buffer, remotePath);
+  }
+
+  async downloadFile(remotePath: string): Promise<Buffer> {
+    return this.sandbox.fs.downloadFile(remotePath);
+  }
+
+  async getPreviewLink(port: number): Promise<PreviewLink> {
+    const preview = await this.sandbox.getPreviewLink(port);
+    return { url: preview.url, token: preview.token };
+  }
+}
+
+/**
+ * Sandboxes from the Daytona API, or from FakeDaytona on this machine when
+ * DAYTONA_FAKE is set.
+ */
+export class DaytonaSandboxProvider implements SandboxProvider {
+  readonly name = "daytona";
+  private readonly daytona: DaytonaClient;
+  private readonly hostAlias: string;
+
+  constructor(apiKey = process.env.DAYTONA_API_KEY) {
+    if (isFakeDaytona()) {
+      this.daytona = new FakeDaytona();
+      this.hostAlias = "localhost";
+      return;
+    }
+    if (!apiKey) {
+      throw new Error("DAYTONA_API_KEY must be set to use the Daytona sandbox provider");
+    }
+    this.daytona = new Daytona({ apiKey });
+    this.hostAlias = "host.docker.internal";
+  }
+
+  async create(options: CreateSandboxOptions = {}): Promise<Sandbox> {
+    const sandbox = await this.daytona.create({
+      public: options.public ?? true,
+      image: options.image || "node:20",
+      labels: options.labels,
+    });
+    return new DaytonaSandboxHandle(sandbox, this.hostAlias);
+  }
+
+  async get(sandboxId: string): Promise<Sandbox> {
+    try {
+      return new DaytonaSandboxHandle(await this.daytona.get(sandboxId), this.hostAlias);
+    } catch (error: any) {
+      if (/not found/i.test(error?.message || "")) {
+        throw new SandboxNotFoundError(sandboxId);
+      }
+      throw error;
+    }
+  }
+
+  async list(): Promise<SandboxSummary[]> {
+    const sandboxes = await this.daytona.list();
+    return sandboxes.map((sandbox) => ({
+      id: sandbox.id,
+      provider: this.name,
+      state: sandbox.state,
+      createdAt: sandbox.createdAt,
+      labels: sandbox.labels,
+    }));
+  }
+
+  async remove(sandboxId: string): Promise<void> {
+    const sandbox = await this.daytona.get(sandboxId);
+    await this.daytona.delete(sandbox);
+  }
+}
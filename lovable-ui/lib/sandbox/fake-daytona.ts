@@ -0,0 +1,221 @@
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { getCassetteDir } from "../claude-provider";
+import { findFreePort, run, stopProcessGroups } from "./local";
+import { DEFAULT_PREVIEW_PORT } from "./types";
+
+// Preloaded into sandbox processes to record or replay Claude Code runs
+const CLAUDE_CASSETTE_SHIM = path.join(process.cwd(), "lib", "sandbox", "runtime", "claude-code-cassette.js");
+
+// Stand-ins for npm, npx and oc that need neither network nor registry
+const OFFLINE_BIN = path.join(process.cwd(), "lib", "sandbox", "runtime", "offline-bin");
+
+/** Set DAYTONA_FAKE=1 to run "daytona" sandboxes on this machine instead of the Daytona API. */
+export function isFakeDaytona() {
+  return process.env.DAYTONA_FAKE === "1" || process.env.DAYTONA_FAKE === "true";
+}
+
+/**
+ * Set FAKE_DAYTONA_OFFLINE=1 as well to replace npm, npx and oc in fake sandboxes
+ * with the stubs in runtime/offline-bin: installs download nothing and
+ * components are published without a registry.
+ */
+export function isOfflineFakeDaytona() {
+  return process.env.FAKE_DAYTONA_OFFLINE === "1" || process.env.FAKE_DAYTONA_OFFLINE === "true";
+}
+
+export interface DaytonaCreateParams {
+  public?: boolean;
+  image?: string;
+  labels?: Record<string, string>;
+}
+
+/** The part of a Daytona SDK sandbox the provider uses. */
+export interface DaytonaSandboxApi {
+  readonly id: string;
+  state?: string;
+  createdAt?: string;
+  labels: Record<string, string>;
+  // Only fake sandboxes have one, Daytona sandboxes serve previews on DEFAULT_PREVIEW_PORT
+  readonly previewPort?: number;
+  readonly process: {
+    executeCommand(
+      command: string,
+      cwd?: string,
+      env?: Record<string, string>,
+      timeout?: number
+    ): Promise<{ exitCode: number; result: string }>;
+  };
+  readonly fs: {
+    uploadFile(file: Buffer, remotePath: string): Promise<void>;
+    downloadFile(remotePath: string): Promise<Buffer>;
+  };
+  getUserRootDir(): Promise<string | undefined>;
+  getPreviewLink(port: number): Promise<{ url: string; token: string }>;
+}
+
+/** The part of the Daytona SDK client the provider uses, so FakeDaytona can stand in for it. */
+export interface DaytonaClient {
+  create(params?: DaytonaCreateParams): Promise<DaytonaSandboxApi>;
+  get(sandboxId: string): Promise<DaytonaSandboxApi>;
+  list(): Promise<DaytonaSandboxApi[]>;
+  delete(sandbox: DaytonaSandboxApi): Promise<void>;
+}
+
+interface FakeSandboxRecord {
+  id: string;
+  image: string;
+  public: boolean;
+  createdAt: string;
+  labels: Record<string, string>;
+  // Fake sandboxes share this machine's network, each dev server needs its own port
+  previewPort?: number;
+}
+
+class FakeDaytonaSandbox implements DaytonaSandboxApi {
+  readonly state = "started";
+
+  constructor(
+    private readonly record: FakeSandboxRecord,
+    private readonly rootDir: string,
+    private readonly pidsFile: string
+  ) {}
+
+  get id() {
+    return this.record.id;
+  }
+
+  get createdAt() {
+    return this.record.createdAt;
+  }
+
+  get labels() {
+    return this.record.labels;
+  }
+
+  get previewPort() {
+    return this.record.previewPort || DEFAULT_PREVIEW_PORT;
+  }
+
+  // Relative paths are relative to the user's home, like in Daytona
+  private resolve(target: string) {
+    const resolved = path.resolve(this.rootDir, target);
+    if (resolved !== this.rootDir && !resolved.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Path ${target} is outside sandbox ${this.id}`);
+    }
+    return resolved;
+  }
+
+  private commandEnv(env?: Record<string, string>): NodeJS.ProcessEnv {
+    const npmPrefix = path.join(this.rootDir, ".npm-global");
+    const binDirs = [...(isOfflineFakeDaytona() ? [OFFLINE_BIN] : []), path.join(npmPrefix, "bin")];
+    const commandEnv: NodeJS.ProcessEnv = {
+      ...process.env,
+      HOME: this.rootDir,
+      npm_config_prefix: npmPrefix,
+      PATH: [...binDirs, process.env.PATH].join(path.delimiter),
+      ...env,
+    };
+    const provider = process.env.CLAUDE_PROVIDER;
+    if (provider === "record" || provider === "replay") {
+      commandEnv.NODE_OPTIONS = `${process.env.NODE_OPTIONS || ""} --require ${CLAUDE_CASSETTE_SHIM}`.trim();
+      commandEnv.CLAUDE_CASSETTE_DIR = path.resolve(getCassetteDir());
+    }
+    return commandEnv;
+  }
+
+  readonly process = {
+    executeCommand: async (command: string, cwd?: string, env?: Record<string, string>, timeout?: number) => {
+      const { exitCode, output } = await run("bash", ["-c", command], {
+        cwd: this.resolve(cwd || this.rootDir),
+        env: this.commandEnv(env),
+        // Daytona takes the timeout in seconds
+        timeoutMs: timeout ? timeout * 1000 : undefined,
+        // Commands may leave servers running in the background, deleting the sandbox stops their group
+        detached: true,
+        onSpawn: (child) => fs.appendFileSync(this.pidsFile, `${child.pid}\n`),
+      });
+      return { exitCode, result: output.toString() };
+    },
+  };
+
+  readonly fs = {
+    uploadFile: async (file: Buffer, remotePath: string) => {
+      const target = this.resolve(remotePath);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, file);
+    },
+    downloadFile: async (remotePath: string) => fs.readFileSync(this.resolve(remotePath)),
+  };
+
+  async getUserRootDir(): Promise<string | undefined> {
+    return this.rootDir;
+  }
+
+  // Processes run on this machine, so their ports are reachable directly. The default port stands for the sandbox's own
+  async getPreviewLink(port: number) {
+    return { url: `http://localhost:${port === DEFAULT_PREVIEW_PORT ? this.previewPort : port}`, token: "" };
+  }
+}
+
+/**
+ * Stand-in for the Daytona SDK client that runs sandboxes as plain child
+ * processes in per-sandbox directories under FAKE_DAYTONA_DIR. Used to drive
+ * the sandbox scripts end to end without a Daytona account; with
+ * CLAUDE_PROVIDER=replay Claude Code inside them replays cassettes too.
+ */
+export class FakeDaytona implements DaytonaClient {
+  constructor(private readonly baseDir = path.resolve(process.env.FAKE_DAYTONA_DIR || ".sandboxes/fake-daytona")) {}
+
+  private recordPath(sandboxId: string) {
+    return path.join(this.baseDir, sandboxId, "sandbox.json");
+  }
+
+  private pidsFile(sandboxId: string) {
+    return path.join(this.baseDir, sandboxId, "pids");
+  }
+
+  private toSandbox(record: FakeSandboxRecord) {
+    return new FakeDaytonaSandbox(record, path.join(this.baseDir, record.id, "home"), this.pidsFile(record.id));
+  }
+
+  async create(params: DaytonaCreateParams = {}): Promise<DaytonaSandboxApi> {
+    const record: FakeSandboxRecord = {
+      id: randomUUID(),
+      image: params.image || "node:20",
+      public: params.public ?? false,
+      createdAt: new Date().toISOString(),
+      labels: params.labels || {},
+      previewPort: await findFreePort(),
+    };
+    fs.mkdirSync(path.join(this.baseDir, record.id, "home"), { recursive: true });
+    fs.writeFileSync(this.recordPath(record.id), JSON.stringify(record, null, 2));
+    return this.toSandbox(record);
+  }
+
+  async get(sandboxId: string): Promise<DaytonaSandboxApi> {
+    // Same message as the Daytona API, the provider maps it to SandboxNotFoundError
+    if (!/^[\w-]+$/.test(sandboxId) || !fs.existsSync(this.recordPath(sandboxId))) {
+      throw new Error(`Sandbox with ID or name ${sandboxId} not found`);
+    }
+    return this.toSandbox(JSON.parse(fs.readFileSync(this.recordPath(sandboxId), "utf-8")));
+  }
+
+  async list(): Promise<DaytonaSandboxApi[]> {
+    if (!fs.existsSync(this.baseDir)) {
+      return [];
+    }
+    return Promise.all(
+      fs
+        .readdirSync(this.baseDir)
+        .filter((id) => fs.existsSync(this.recordPath(id)))
+        .map((id) => this.get(id))
+    );
+  }
+
+  async delete(sandbox: DaytonaSandboxApi): Promise<void> {
+    await stopProcessGroups(this.pidsFile(sandbox.id));
+    fs.rmSync(path.join(this.baseDir, sandbox.id), { recursive: true, force: true });
+  }
+}
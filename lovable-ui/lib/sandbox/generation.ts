@@ -0,0 +1,201 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { SDKMessage } from "@anthropic-ai/claude-code";
+import {
+  ATTACHMENTS_DIR_NAME,
+  attachmentFileName,
+  attachmentPath,
+  type AttachedFile,
+  type Attachment,
+} from "../attachments";
+import { EVENT_PROTOCOL_VERSION } from "../events";
+import type { GenerationOptions } from "../generation-options";
+import type { ExecResult, Sandbox } from "./types";
+
+// Must match RUNNER_VERSION in runtime/generate.js
+export const RUNNER_VERSION = 2;
+
+const RUNNER_SOURCE = path.join(process.cwd(), "lib", "sandbox", "runtime", "generate.js");
+
+// Runner files live outside the project so they never end up in the generated code
+const RUNNER_DIR = ".lovable-runner";
+
+/** Directory, under the sandbox's root, that website jobs generate their project in. */
+export const WEBSITE_PROJECT_DIR = "website-project";
+
+// Written by the runner while it is running
+const PID_FILE = "runner.pid";
+
+// Written by the runner after a successful run, holds the Claude Code session id
+const SESSION_FILE = "session-id";
+
+// Written by the runner when it ends, successful or not: every SDK message of the run
+const TRANSCRIPT_FILE = "generation-log.json";
+
+export interface GenerationJob {
+  kind: "website" | "component";
+  prompt: string;
+  componentName?: string;
+  // The runner stops Claude Code once its estimated cost reaches this many USD
+  budgetUsd?: number;
+  // Passed to Claude Code's query() as they are
+  options: Omit<GenerationOptions, "timeoutMs"> & {
+    // Claude Code session to continue
+    resume?: string;
+  };
+}
+
+export interface GenerationRun extends ExecResult {
+  sessionId?: string;
+  // Claude Code's messages, when the runner got far enough to write them
+  transcript?: SDKMessage[];
+}
+
+/** What a follow-up run continues from, passed to the generator scripts as flags. */
+export interface FollowUp {
+  sessionId?: string;
+  componentName?: string;
+}
+
+/**
+ * Splits the follow-up flags (`--follow-up`, `--session <id>` and
+ * `--component <name>`) off the generator arguments. `followUp` is only set
+ * for follow-up runs. Everything after `--` is the prompt, taken as it is even
+ * when it looks like a flag or a sandbox id.
+ */
+export function parseFollowUpArgs(argv: string[]): { args: string[]; followUp?: FollowUp; prompt?: string } {
+  const args: string[] = [];
+  const followUp: FollowUp = {};
+  let isFollowUp = false;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--") {
+      return { args, followUp: isFollowUp ? followUp : undefined, prompt: argv.slice(i + 1).join(" ") };
+    } else if (argv[i] === "--follow-up") {
+      isFollowUp = true;
+    } else if (argv[i] === "--session") {
+      followUp.sessionId = argv[++i];
+    } else if (argv[i] === "--component") {
+      followUp.componentName = argv[++i];
+    } else {
+      args.push(argv[i]);
+    }
+  }
+  return { args, followUp: isFollowUp ? followUp : undefined };
+}
+
+interface RunnerJobFile extends GenerationJob {
+  runnerVersion: number;
+  protocolVersion: number;
+}
+
+/**
+ * Uploads the static runner and the job specification into the sandbox and
+ * returns the command that runs the job. The prompt only ever travels as JSON
+ * data, never through a shell or a script template.
+ */
+export async function uploadGenerationJob(sandbox: Sandbox, job: GenerationJob): Promise<string> {
+  const runnerDir = `${await sandbox.getUserRootDir()}/${RUNNER_DIR}`;
+  const runnerPath = `${runnerDir}/generate-v${RUNNER_VERSION}.js`;
+  const jobPath = `${runnerDir}/job.json`;
+
+  const jobFile: RunnerJobFile = {
+    ...job,
+    runnerVersion: RUNNER_VERSION,
+    protocolVersion: EVENT_PROTOCOL_VERSION,
+  };
+
+  await sandbox.uploadFile(fs.readFileSync(RUNNER_SOURCE), runnerPath);
+  await sandbox.uploadFile(JSON.stringify(jobFile, null, 2), jobPath);
+
+  return `node ${runnerPath} ${jobPath}`;
+}
+
+/**
+ * Uploads the files the user attached to the prompt into the sandbox, next
+ * to the project rather than in it, so they are not published with it.
+ */
+export async function uploadAttachments(sandbox: Sandbox, attachments: Attachment[]): Promise<AttachedFile[]> {
+  const dir = `${await sandbox.getUserRootDir()}/${ATTACHMENTS_DIR_NAME}`;
+  const files: AttachedFile[] = [];
+  for (const attachment of attachments) {
+    const remotePath = `${dir}/${attachmentFileName(attachment)}`;
+    await sandbox.uploadFile(fs.readFileSync(attachmentPath(attachment)), remotePath);
+    files.push({ path: remotePath, name: attachment.name, mimeType: attachment.mimeType });
+  }
+  return files;
+}
+
+/** Stops the runner in the sandbox, if one is running. Claude's query is aborted gracefully. */
+export async function stopGenerationJob(sandbox: Sandbox): Promise<void> {
+  const pidPath = `${await sandbox.getUserRootDir()}/${RUNNER_DIR}/${PID_FILE}`;
+  await sandbox.exec(`test -f ${pidPath} && kill -TERM $(cat ${pidPath}) || true`);
+}
+
+/**
+ * Stops the in-sandbox runner when this process is terminated, which is how
+ * the job queue cancels a generation. Without it Claude would keep working
+ * (and billing) in the sandbox after the generator is gone. The process exits
+ * without running the script's `finally` blocks, so `cleanUp` does what they
+ * would have, e.g. giving back a reserved component name.
+ */
+export function stopGenerationOnTermination(getSandbox: () => Sandbox | undefined, cleanUp?: () => Promise<void>) {
+  process.once("SIGTERM", async () => {
+    console.log("\n🛑 Generation cancelled, stopping Claude Code in the sandbox...");
+    const sandbox = getSandbox();
+    try {
+      if (sandbox) {
+        await stopGenerationJob(sandbox);
+      }
+    } catch (error: any) {
+      console.error("Failed to stop the generation in the sandbox:", error.message);
+    }
+    try {
+      await cleanUp?.();
+    } catch (error: any) {
+      console.error("Failed to clean up after the cancelled generation:", error.message);
+    }
+    process.exit(143);
+  });
+}
+
+/** Downloads the messages the last run wrote, the sandbox may be gone by the time anyone looks. */
+export async function downloadTranscript(sandbox: Sandbox, rootDir: string): Promise<SDKMessage[] | undefined> {
+  try {
+    const content = await sandbox.downloadFile(`${rootDir}/${RUNNER_DIR}/${TRANSCRIPT_FILE}`);
+    return JSON.parse(content.toString());
+  } catch (error: any) {
+    console.error("Failed to download the generation transcript:", error.message);
+    return undefined;
+  }
+}
+
+/**
+ * Uploads and runs a generation job with Claude Code in `cwd`. The session id
+ * of a successful run is returned so follow-ups can resume it, the transcript
+ * of Claude Code's messages is returned either way.
+ */
+export async function runGenerationJob(
+  sandbox: Sandbox,
+  job: GenerationJob,
+  cwd: string,
+  timeoutMs = 600000
+): Promise<GenerationRun> {
+  const command = await uploadGenerationJob(sandbox, job);
+  const rootDir = await sandbox.getUserRootDir();
+  const result = await sandbox.exec(
+    command,
+    cwd,
+    {
+      ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY!,
+      NODE_PATH: `${rootDir}/node_modules`,
+    },
+    timeoutMs
+  );
+  const transcript = await downloadTranscript(sandbox, rootDir);
+  if (result.exitCode !== 0) {
+    return { ...result, transcript };
+  }
+
+  const session = await sandbox.exec(`cat ${RUNNER_DIR}/${SESSION_FILE} 2>/dev/null || true`, rootDir);
+  return { ...result, sessionId: session.result.trim() || undefined, transcript };
+}
@@ -0,0 +1,64 @@
+import { DaytonaSandboxProvider } from "./daytona";
+import { isFakeDaytona } from "./fake-daytona";
+import { TrackedSandboxProvider } from "./inventory";
+import { LocalSandboxProvider } from "./local";
+import type { SandboxProvider } from "./types";
+
+export * from "./types";
+export { DaytonaSandboxProvider } from "./daytona";
+export { FakeDaytona, isFakeDaytona } from "./fake-daytona";
+export { LocalSandboxProvider } from "./local";
+export {
+  TrackedSandboxProvider,
+  getSandboxRecord,
+  getSandboxTtlMs,
+  isIdle,
+  listSandboxRecords,
+  markSandboxRemoved,
+  reapIdleSandboxes,
+  recordSandbox,
+  type SandboxDetails,
+  type SandboxRecord,
+  type SandboxStatus,
+} from "./inventory";
+export {
+  RUNNER_VERSION,
+  WEBSITE_PROJECT_DIR,
+  downloadTranscript,
+  parseFollowUpArgs,
+  runGenerationJob,
+  stopGenerationJob,
+  stopGenerationOnTermination,
+  uploadAttachments,
+  uploadGenerationJob,
+  type FollowUp,
+  type GenerationJob,
+  type GenerationRun,
+} from "./generation";
+export { getRepairAttempts, verifyWithRepairs, type VerifyOptions, type VerifyResult } from "./repair";
+export { SandboxPool, acquireSandbox, getPoolSize } from "./pool";
+export { TOOLCHAIN_VERSION, ensureToolchain, hasToolchain, provisionToolchain } from "./toolchain";
+
+function createProvider(name: string): SandboxProvider {
+  switch (name) {
+    case "daytona":
+      return new DaytonaSandboxProvider();
+    case "local":
+      return new LocalSandboxProvider();
+    default:
+      throw new Error(`Unknown sandbox provider: ${name}`);
+  }
+}
+
+/**
+ * Returns the sandbox provider selected by SANDBOX_PROVIDER ("daytona" or
+ * "local"), defaulting to Daytona. Sandboxes it touches are recorded in the
+ * local inventory.
+ */
+export function getSandboxProvider(name = process.env.SANDBOX_PROVIDER || "daytona"): SandboxProvider {
+  return new TrackedSandboxProvider(createProvider(name));
+}
+
+export function requiresDaytonaApiKey(name = process.env.SANDBOX_PROVIDER || "daytona") {
+  return name === "daytona" && !isFakeDaytona();
+}
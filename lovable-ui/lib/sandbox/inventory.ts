@@ -0,0 +1,231 @@
+import { dataPath, readJsonFile, updateJsonFile } from "../store";
+import {
+  SandboxNotFoundError,
+  type CreateSandboxOptions,
+  type ExecResult,
+  type PreviewLink,
+  type Sandbox,
+  type SandboxProvider,
+  type SandboxSummary,
+} from "./types";
+
+const INVENTORY_FILE = dataPath("sandboxes.json");
+
+// Avoid rewriting the inventory on every command of a busy sandbox
+const TOUCH_INTERVAL_MS = 10000;
+
+export type SandboxStatus = "pooled" | "active" | "removed";
+
+export interface SandboxRecord {
+  id: string;
+  provider: string;
+  status: SandboxStatus;
+  purpose?: string;
+  prompt?: string;
+  jobId?: string;
+  createdAt: string;
+  lastActivityAt: string;
+  removedAt?: string;
+}
+
+export type SandboxDetails = Partial<Pick<SandboxRecord, "status" | "purpose" | "prompt" | "jobId">>;
+
+type Inventory = Record<string, SandboxRecord>;
+
+export function listSandboxRecords(): SandboxRecord[] {
+  return Object.values(readJsonFile<Inventory>(INVENTORY_FILE, {})).sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt)
+  );
+}
+
+export function getSandboxRecord(sandboxId: string): SandboxRecord | undefined {
+  return readJsonFile<Inventory>(INVENTORY_FILE, {})[sandboxId];
+}
+
+/** Creates or updates the inventory entry of a sandbox. */
+export async function recordSandbox(
+  sandboxId: string,
+  provider: string,
+  details: SandboxDetails = {}
+): Promise<SandboxRecord> {
+  const now = new Date().toISOString();
+  const inventory = await updateJsonFile<Inventory>(INVENTORY_FILE, {}, (inventory) => {
+    const existing: SandboxRecord = inventory[sandboxId] || {
+      id: sandboxId,
+      provider,
+      status: "active",
+      createdAt: now,
+      lastActivityAt: now,
+    };
+    inventory[sandboxId] = { ...existing, ...details, lastActivityAt: now };
+  });
+  return inventory[sandboxId];
+}
+
+export async function touchSandbox(sandboxId: string, provider: string): Promise<void> {
+  await recordSandbox(sandboxId, provider);
+}
+
+export async function markSandboxRemoved(sandboxId: string): Promise<void> {
+  await updateJsonFile<Inventory>(INVENTORY_FILE, {}, (inventory) => {
+    const record = inventory[sandboxId];
+    if (record) {
+      record.status = "removed";
+      record.removedAt = new Date().toISOString();
+    }
+  });
+}
+
+export function isIdle(record: SandboxRecord, ttlMs: number, now = Date.now()) {
+  return record.status === "active" && now - Date.parse(record.lastActivityAt) > ttlMs;
+}
+
+export function getSandboxTtlMs() {
+  const minutes = parseFloat(process.env.SANDBOX_TTL_MINUTES || "");
+  return (Number.isFinite(minutes) ? minutes : 60) * 60 * 1000;
+}
+
+/**
+ * Removes every active sandbox whose last recorded activity is older than
+ * `ttlMs`. Pooled sandboxes are idle by design and are left alone. A sandbox
+ * only counts as reaped once its provider removed it, servers still running
+ * in it included; otherwise it stays active and the next run tries again.
+ */
+export async function reapIdleSandboxes(
+  provider: SandboxProvider,
+  ttlMs = getSandboxTtlMs(),
+  options: { dryRun?: boolean; log?: (message: string) => void } = {}
+): Promise<SandboxRecord[]> {
+  const log = options.log || console.log;
+  const idle = listSandboxRecords().filter(
+    (record) => record.provider === provider.name && isIdle(record, ttlMs)
+  );
+
+  const reaped: SandboxRecord[] = [];
+  for (const record of idle) {
+    if (options.dryRun) {
+      log(`Would remove ${record.id} (idle since ${record.lastActivityAt})`);
+      reaped.push(record);
+      continue;
+    }
+    try {
+      await provider.remove(record.id);
+      await markSandboxRemoved(record.id);
+      log(`✓ Removed ${record.id} (idle since ${record.lastActivityAt})`);
+      reaped.push(record);
+    } catch (error: any) {
+      if (error instanceof SandboxNotFoundError || /not found/i.test(error?.message || "")) {
+        // Already gone, just fix up the inventory so it isn't reaped again
+        await markSandboxRemoved(record.id);
+        log(`✓ ${record.id} was already removed`);
+        reaped.push(record);
+      } else {
+        log(`Failed to remove ${record.id}: ${error.message}`);
+      }
+    }
+  }
+  return reaped;
+}
+
+class TrackedSandbox implements Sandbox {
+  private lastTouch = 0;
+
+  constructor(private readonly inner: Sandbox) {}
+
+  get id() {
+    return this.inner.id;
+  }
+
+  get provider() {
+    return this.inner.provider;
+  }
+
+  get hostAlias() {
+    return this.inner.hostAlias;
+  }
+
+  get previewPort() {
+    return this.inner.previewPort;
+  }
+
+  private async touch(force = false) {
+    if (!force && Date.now() - this.lastTouch < TOUCH_INTERVAL_MS) {
+      return;
+    }
+    this.lastTouch = Date.now();
+    try {
+      await touchSandbox(this.id, this.provider);
+    } catch (error: any) {
+      // Bookkeeping must never break the actual work
+      console.error(`Failed to record activity for sandbox ${this.id}:`, error.message);
+    }
+  }
+
+  getUserRootDir(): Promise<string> {
+    return this.inner.getUserRootDir();
+  }
+
+  async exec(
+    command: string,
+    cwd?: string,
+    env?: Record<string, string>,
+    timeoutMs?: number
+  ): Promise<ExecResult> {
+    await this.touch();
+    try {
+      return await this.inner.exec(command, cwd, env, timeoutMs);
+    } finally {
+      // Long-running commands count as activity until they finish
+      await this.touch(true);
+    }
+  }
+
+  async uploadFile(content: Buffer | string, remotePath: string): Promise<void> {
+    await this.touch();
+    return this.inner.uploadFile(content, remotePath);
+  }
+
+  async downloadFile(remotePath: string): Promise<Buffer> {
+    await this.touch();
+    return this.inner.downloadFile(remotePath);
+  }
+
+  async getPreviewLink(port: number): Promise<PreviewLink> {
+    await this.touch();
+    return this.inner.getPreviewLink(port);
+  }
+}
+
+/**
+ * Wraps a provider so every sandbox it creates, uses or removes is reflected
+ * in the local inventory.
+ */
+export class TrackedSandboxProvider implements SandboxProvider {
+  constructor(private readonly inner: SandboxProvider) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  async create(options: CreateSandboxOptions = {}): Promise<Sandbox> {
+    const sandbox = await this.inner.create(options);
+    await recordSandbox(sandbox.id, this.name, {
+      status: options.labels?.purpose === "pool" ? "pooled" : "active",
+      purpose: options.labels?.purpose,
+    });
+    return new TrackedSandbox(sandbox);
+  }
+
+  async get(sandboxId: string): Promise<Sandbox> {
+    return new TrackedSandbox(await this.inner.get(sandboxId));
+  }
+
+  list(): Promise<SandboxSummary[]> {
+    return this.inner.list();
+  }
+
+  async remove(sandboxId: string): Promise<void> {
+    await this.inner.remove(sandboxId);
+    await markSandboxRemoved(sandboxId);
+  }
+}
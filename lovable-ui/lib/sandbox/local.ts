@@ -0,0 +1,395 @@
+import { spawn, type ChildProcess } from "child_process";
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as net from "net";
+import * as path from "path";
+import {
+  DEFAULT_PREVIEW_PORT,
+  SandboxNotFoundError,
+  type CreateSandboxOptions,
+  type ExecResult,
+  type PreviewLink,
+  type Sandbox,
+  type SandboxProvider,
+  type SandboxSummary,
+} from "./types";
+
+export type LocalSandboxDriver = "docker" | "process";
+
+// Ports sandboxes serve previews on, docker publishes them to the host
+const PREVIEW_PORTS = [DEFAULT_PREVIEW_PORT];
+
+interface LocalSandboxRecord {
+  id: string;
+  driver: LocalSandboxDriver;
+  image: string;
+  createdAt: string;
+  labels: Record<string, string>;
+  containerName?: string;
+  // Sandbox port => host port. Process sandboxes listen on the host port itself
+  ports: Record<string, number>;
+}
+
+interface RunOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  input?: Buffer;
+  timeoutMs?: number;
+  // Starts the command in its own process group, whose id is the child's pid
+  detached?: boolean;
+  onSpawn?: (child: ChildProcess) => void;
+}
+
+interface RunResult {
+  exitCode: number;
+  output: Buffer;
+}
+
+/** Runs a program to completion, collecting stdout and stderr in one buffer. */
+export function run(command: string, args: string[], options: RunOptions = {}): Promise<RunResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      env: options.env,
+      stdio: ["pipe", "pipe", "pipe"],
+      detached: options.detached,
+    });
+    options.onSpawn?.(child);
+    const chunks: Buffer[] = [];
+    let timedOut = false;
+    const timer = options.timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          child.kill("SIGKILL");
+        }, options.timeoutMs)
+      : undefined;
+
+    child.stdout.on("data", (data) => chunks.push(data));
+    child.stderr.on("data", (data) => chunks.push(data));
+    child.on("error", (error) => {
+      if (timer) clearTimeout(timer);
+      reject(error);
+    });
+    child.on("close", (code) => {
+      if (timer) clearTimeout(timer);
+      if (timedOut) {
+        chunks.push(Buffer.from(`\nCommand timed out after ${options.timeoutMs}ms\n`));
+      }
+      resolve({ exitCode: code ?? 1, output: Buffer.concat(chunks) });
+    });
+
+    child.stdin.end(options.input);
+  });
+}
+
+export function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.unref();
+    server.on("error", reject);
+    server.listen(0, () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+// How long process groups get to exit after SIGTERM, and then after SIGKILL
+const STOP_TIMEOUT_MS = 5000;
+const STOP_POLL_MS = 100;
+
+// Signals each group, returns those still running. Signal 0 only checks
+function signalGroups(groups: number[], signal: NodeJS.Signals | 0): number[] {
+  return groups.filter((group) => {
+    try {
+      process.kill(-group, signal);
+      return true;
+    } catch {
+      // The group has already exited
+      return false;
+    }
+  });
+}
+
+async function waitForGroups(groups: number[], timeoutMs: number): Promise<number[]> {
+  const startedAt = Date.now();
+  let running = signalGroups(groups, 0);
+  while (running.length > 0 && Date.now() - startedAt < timeoutMs) {
+    await new Promise((resolve) => setTimeout(resolve, STOP_POLL_MS));
+    running = signalGroups(running, 0);
+  }
+  return running;
+}
+
+/**
+ * Stops the process groups whose ids are listed in `pidsFile`, one per line,
+ * and waits until they are gone. Throws when some are still running.
+ */
+export async function stopProcessGroups(pidsFile: string): Promise<void> {
+  const pids = fs.existsSync(pidsFile) ? fs.readFileSync(pidsFile, "utf-8") : "";
+  const groups = pids.split("\n").filter(Boolean).map(Number);
+  let running = await waitForGroups(signalGroups(groups, "SIGTERM"), STOP_TIMEOUT_MS);
+  if (running.length > 0) {
+    running = await waitForGroups(signalGroups(running, "SIGKILL"), STOP_TIMEOUT_MS);
+  }
+  if (running.length > 0) {
+    throw new Error(`Process groups ${running.join(", ")} did not stop`);
+  }
+}
+
+function shellQuote(value: string) {
+  return `'${value.replace(/'/g, `'"'"'`)}'`;
+}
+
+class DockerSandbox implements Sandbox {
+  readonly provider = "local";
+  readonly hostAlias = "host.docker.internal";
+  readonly previewPort = DEFAULT_PREVIEW_PORT;
+
+  constructor(private readonly record: LocalSandboxRecord) {}
+
+  get id() {
+    return this.record.id;
+  }
+
+  async getUserRootDir(): Promise<string> {
+    return "/root";
+  }
+
+  async exec(
+    command: string,
+    cwd?: string,
+    env?: Record<string, string>,
+    timeoutMs?: number
+  ): Promise<ExecResult> {
+    const args = ["exec", "-w", cwd || (await this.getUserRootDir())];
+    for (const [key, value] of Object.entries(env || {})) {
+      args.push("-e", `${key}=${value}`);
+    }
+    args.push(this.record.containerName!, "bash", "-lc", command);
+
+    const { exitCode, output } = await run("docker", args, { timeoutMs });
+    return { exitCode, result: output.toString() };
+  }
+
+  async uploadFile(content: Buffer | string, remotePath: string): Promise<void> {
+    const target = shellQuote(remotePath);
+    const { exitCode, output } = await run(
+      "docker",
+      ["exec", "-i", this.record.containerName!, "sh", "-c", `mkdir -p "$(dirname ${target})" && cat > ${target}`],
+      { input: typeof content === "string" ? Buffer.from(content) : content }
+    );
+    if (exitCode !== 0) {
+      throw new Error(`Failed to upload ${remotePath}: ${output.toString()}`);
+    }
+  }
+
+  async downloadFile(remotePath: string): Promise<Buffer> {
+    const { exitCode, output } = await run("docker", ["exec", this.record.containerName!, "cat", remotePath]);
+    if (exitCode !== 0) {
+      throw new Error(`Failed to download ${remotePath}: ${output.toString()}`);
+    }
+    return output;
+  }
+
+  async getPreviewLink(port: number): Promise<PreviewLink> {
+    const hostPort = this.record.ports[String(port)];
+    if (!hostPort) {
+      throw new Error(`Port ${port} is not published by sandbox ${this.id}`);
+    }
+    return { url: `http://localhost:${hostPort}` };
+  }
+}
+
+/**
+ * Runs commands as plain child processes inside a per-sandbox directory. HOME
+ * and the npm global prefix point into that directory so installs stay inside
+ * it, but this is a convenience jail, not a security boundary.
+ */
+class ProcessSandbox implements Sandbox {
+  readonly provider = "local";
+  readonly hostAlias = "localhost";
+
+  constructor(
+    private readonly record: LocalSandboxRecord,
+    private readonly rootDir: string,
+    private readonly pidsFile: string
+  ) {}
+
+  get id() {
+    return this.record.id;
+  }
+
+  // Sandboxes created before ports were assigned all share the default one
+  get previewPort() {
+    return this.record.ports[String(DEFAULT_PREVIEW_PORT)] || DEFAULT_PREVIEW_PORT;
+  }
+
+  async getUserRootDir(): Promise<string> {
+    return this.rootDir;
+  }
+
+  private resolve(target: string) {
+    const resolved = path.resolve(this.rootDir, target);
+    if (resolved !== this.rootDir && !resolved.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Path ${target} is outside sandbox ${this.id}`);
+    }
+    return resolved;
+  }
+
+  async exec(
+    command: string,
+    cwd?: string,
+    env?: Record<string, string>,
+    timeoutMs?: number
+  ): Promise<ExecResult> {
+    const npmPrefix = path.join(this.rootDir, ".npm-global");
+    const { exitCode, output } = await run("bash", ["-c", command], {
+      cwd: this.resolve(cwd || this.rootDir),
+      env: {
+        ...process.env,
+        HOME: this.rootDir,
+        npm_config_prefix: npmPrefix,
+        PATH: `${path.join(npmPrefix, "bin")}${path.delimiter}${process.env.PATH}`,
+        ...env,
+      },
+      timeoutMs,
+      // Commands may leave servers running in the background, removing the sandbox stops their group
+      detached: true,
+      onSpawn: (child) => fs.appendFileSync(this.pidsFile, `${child.pid}\n`),
+    });
+    return { exitCode, result: output.toString() };
+  }
+
+  async uploadFile(content: Buffer | string, remotePath: string): Promise<void> {
+    const target = this.resolve(remotePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+  }
+
+  async downloadFile(remotePath: string): Promise<Buffer> {
+    return fs.readFileSync(this.resolve(remotePath));
+  }
+
+  // Servers listen on this machine, the default port stands for the sandbox's own
+  async getPreviewLink(port: number): Promise<PreviewLink> {
+    return { url: `http://localhost:${port === DEFAULT_PREVIEW_PORT ? this.previewPort : port}` };
+  }
+}
+
+/**
+ * Sandbox provider that runs on the developer's machine, either in a docker
+ * container per sandbox or as child processes in a temp directory.
+ */
+export class LocalSandboxProvider implements SandboxProvider {
+  readonly name = "local";
+
+  constructor(
+    private readonly driver: LocalSandboxDriver = (process.env.LOCAL_SANDBOX_DRIVER as LocalSandboxDriver) || "docker",
+    private readonly baseDir = path.resolve(process.env.LOCAL_SANDBOX_DIR || ".sandboxes")
+  ) {}
+
+  private recordPath(sandboxId: string) {
+    return path.join(this.baseDir, sandboxId, "sandbox.json");
+  }
+
+  private pidsFile(sandboxId: string) {
+    return path.join(this.baseDir, sandboxId, "pids");
+  }
+
+  private readRecord(sandboxId: string): LocalSandboxRecord {
+    const recordPath = this.recordPath(sandboxId);
+    if (!/^[\w-]+$/.test(sandboxId) || !fs.existsSync(recordPath)) {
+      throw new SandboxNotFoundError(sandboxId);
+    }
+    return JSON.parse(fs.readFileSync(recordPath, "utf-8"));
+  }
+
+  private toSandbox(record: LocalSandboxRecord): Sandbox {
+    if (record.driver === "docker") {
+      return new DockerSandbox(record);
+    }
+    return new ProcessSandbox(record, path.join(this.baseDir, record.id, "home"), this.pidsFile(record.id));
+  }
+
+  async create(options: CreateSandboxOptions = {}): Promise<Sandbox> {
+    const id = randomUUID();
+    const record: LocalSandboxRecord = {
+      id,
+      driver: this.driver,
+      image: options.image || "node:20",
+      createdAt: new Date().toISOString(),
+      labels: options.labels || {},
+      ports: {},
+    };
+
+    fs.mkdirSync(path.join(this.baseDir, id, "home"), { recursive: true });
+
+    if (this.driver === "docker") {
+      record.containerName = `lovable-sandbox-${id}`;
+      const args = [
+        "run",
+        "-d",
+        "--name",
+        record.containerName,
+        "--add-host=host.docker.internal:host-gateway",
+        "-w",
+        "/root",
+      ];
+      for (const port of PREVIEW_PORTS) {
+        const hostPort = await findFreePort();
+        record.ports[String(port)] = hostPort;
+        args.push("-p", `${hostPort}:${port}`);
+      }
+      args.push(record.image, "sleep", "infinity");
+
+      const { exitCode, output } = await run("docker", args, { timeoutMs: 300000 });
+      if (exitCode !== 0) {
+        fs.rmSync(path.join(this.baseDir, id), { recursive: true, force: true });
+        throw new Error(`Failed to start sandbox container: ${output.toString()}`);
+      }
+    } else {
+      // Processes share this machine's network, so dev servers of parallel jobs need ports of their own
+      for (const port of PREVIEW_PORTS) {
+        record.ports[String(port)] = await findFreePort();
+      }
+    }
+
+    fs.writeFileSync(this.recordPath(id), JSON.stringify(record, null, 2));
+    return this.toSandbox(record);
+  }
+
+  async get(sandboxId: string): Promise<Sandbox> {
+    return this.toSandbox(this.readRecord(sandboxId));
+  }
+
+  async list(): Promise<SandboxSummary[]> {
+    if (!fs.existsSync(this.baseDir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.baseDir)
+      .filter((id) => fs.existsSync(this.recordPath(id)))
+      .map((id) => {
+        const record = this.readRecord(id);
+        return {
+          id: record.id,
+          provider: this.name,
+          state: record.driver,
+          createdAt: record.createdAt,
+          labels: record.labels,
+        };
+      });
+  }
+
+  async remove(sandboxId: string): Promise<void> {
+    const record = this.readRecord(sandboxId);
+    if (record.containerName) {
+      await run("docker", ["rm", "-f", record.containerName]);
+    } else {
+      // The directory and its pids file stay until the servers are gone, so a failed remove can be retried
+      await stopProcessGroups(this.pidsFile(sandboxId));
+    }
+    fs.rmSync(path.join(this.baseDir, sandboxId), { recursive: true, force: true });
+  }
+}
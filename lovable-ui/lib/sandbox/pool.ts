@@ -0,0 +1,205 @@
+import { spawn } from "child_process";
+import * as path from "path";
+import { dataPath, readJsonFile, updateJsonFile } from "../store";
+import { recordSandbox, type SandboxDetails } from "./inventory";
+import { TOOLCHAIN_VERSION, provisionToolchain } from "./toolchain";
+import type { Sandbox, SandboxProvider } from "./types";
+
+const POOL_FILE = dataPath("sandbox-pool.json");
+
+// Provisioning that has not finished by then is assumed to have died with its process
+const PROVISIONING_TIMEOUT_MS = 15 * 60 * 1000;
+
+export interface PooledSandbox {
+  id: string;
+  provider: string;
+  toolchainVersion: string;
+  readyAt: string;
+}
+
+interface PoolState {
+  ready: PooledSandbox[];
+  provisioning: { provider: string; startedAt: string }[];
+}
+
+function emptyState(): PoolState {
+  return { ready: [], provisioning: [] };
+}
+
+function pruneProvisioning(state: PoolState) {
+  const cutoff = Date.now() - PROVISIONING_TIMEOUT_MS;
+  state.provisioning = state.provisioning.filter((entry) => Date.parse(entry.startedAt) > cutoff);
+}
+
+export function getPoolSize() {
+  return parseInt(process.env.SANDBOX_POOL_SIZE || "0") || 0;
+}
+
+/**
+ * Keeps pre-provisioned sandboxes ready to hand out. The pool is persisted in
+ * the data dir so every script and the web app share the same sandboxes.
+ */
+export class SandboxPool {
+  constructor(private readonly provider: SandboxProvider, readonly size = getPoolSize()) {}
+
+  status(): PoolState {
+    const state = readJsonFile(POOL_FILE, emptyState());
+    pruneProvisioning(state);
+    return {
+      ready: state.ready.filter((entry) => entry.provider === this.provider.name),
+      provisioning: state.provisioning.filter((entry) => entry.provider === this.provider.name),
+    };
+  }
+
+  /** Takes a ready sandbox out of the pool, or returns null when none is available. */
+  async acquire(): Promise<Sandbox | null> {
+    while (true) {
+      let candidate: PooledSandbox | undefined;
+      await updateJsonFile(POOL_FILE, emptyState(), (state) => {
+        const index = state.ready.findIndex(
+          (entry) => entry.provider === this.provider.name && entry.toolchainVersion === TOOLCHAIN_VERSION
+        );
+        if (index !== -1) {
+          [candidate] = state.ready.splice(index, 1);
+        }
+      });
+
+      if (!candidate) {
+        return null;
+      }
+
+      try {
+        const sandbox = await this.provider.get(candidate.id);
+        await recordSandbox(sandbox.id, this.provider.name, { status: "active" });
+        return sandbox;
+      } catch (error: any) {
+        // The sandbox was removed behind the pool's back, try the next one
+        console.error(`Pooled sandbox ${candidate.id} is unavailable:`, error.message);
+      }
+    }
+  }
+
+  /** Creates and provisions sandboxes until the pool holds `target` of them. */
+  async fill(target = this.size, log: (message: string) => void = console.log): Promise<PooledSandbox[]> {
+    const startedAt = new Date().toISOString();
+    let missing = 0;
+    await updateJsonFile(POOL_FILE, emptyState(), (state) => {
+      pruneProvisioning(state);
+      const current = [...state.ready, ...state.provisioning].filter(
+        (entry) => entry.provider === this.provider.name
+      ).length;
+      missing = Math.max(0, target - current);
+      for (let i = 0; i < missing; i++) {
+        state.provisioning.push({ provider: this.provider.name, startedAt });
+      }
+    });
+
+    const releaseSlot = () =>
+      updateJsonFile(POOL_FILE, emptyState(), (state) => {
+        const index = state.provisioning.findIndex(
+          (entry) => entry.provider === this.provider.name && entry.startedAt === startedAt
+        );
+        if (index !== -1) {
+          state.provisioning.splice(index, 1);
+        }
+      });
+
+    const results = await Promise.allSettled(
+      Array.from({ length: missing }, async () => {
+        try {
+          const sandbox = await this.provider.create({
+            public: true,
+            image: "node:20",
+            labels: { purpose: "pool" },
+          });
+          log(`Provisioning pooled sandbox ${sandbox.id}...`);
+          try {
+            await provisionToolchain(sandbox, (message) => log(`[${sandbox.id}] ${message}`));
+          } catch (error) {
+            await this.provider.remove(sandbox.id).catch(() => {});
+            throw error;
+          }
+
+          const entry: PooledSandbox = {
+            id: sandbox.id,
+            provider: this.provider.name,
+            toolchainVersion: TOOLCHAIN_VERSION,
+            readyAt: new Date().toISOString(),
+          };
+          await updateJsonFile(POOL_FILE, emptyState(), (state) => {
+            state.ready.push(entry);
+          });
+          return entry;
+        } finally {
+          await releaseSlot();
+        }
+      })
+    );
+
+    for (const result of results) {
+      if (result.status === "rejected") {
+        console.error("Failed to provision pooled sandbox:", result.reason?.message || result.reason);
+      }
+    }
+    return results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+  }
+
+  /** Removes every ready sandbox from the pool and deletes it. */
+  async drain(): Promise<string[]> {
+    let drained: PooledSandbox[] = [];
+    await updateJsonFile(POOL_FILE, emptyState(), (state) => {
+      drained = state.ready.filter((entry) => entry.provider === this.provider.name);
+      state.ready = state.ready.filter((entry) => entry.provider !== this.provider.name);
+    });
+
+    for (const entry of drained) {
+      try {
+        await this.provider.remove(entry.id);
+      } catch (error: any) {
+        console.error(`Failed to remove pooled sandbox ${entry.id}:`, error.message);
+      }
+    }
+    return drained.map((entry) => entry.id);
+  }
+
+  /** Refills the pool from a detached process so the caller can exit right away. */
+  replenishInBackground() {
+    if (this.size <= 0) {
+      return;
+    }
+    const child = spawn("npx", ["tsx", path.join(process.cwd(), "scripts", "sandbox-pool.ts"), "fill"], {
+      cwd: process.cwd(),
+      env: { ...process.env, SANDBOX_PROVIDER: this.provider.name },
+      detached: true,
+      stdio: "ignore",
+    });
+    child.unref();
+  }
+}
+
+/**
+ * Hands out a warm sandbox from the pool when one is ready, otherwise creates
+ * a fresh one. Either way the pool is topped up afterwards. Callers still run
+ * `ensureToolchain`, which is a cheap check for pooled sandboxes.
+ */
+export async function acquireSandbox(
+  provider: SandboxProvider,
+  details: SandboxDetails = {},
+  log: (message: string) => void = console.log
+): Promise<Sandbox> {
+  const pool = new SandboxPool(provider);
+  const pooled = pool.size > 0 ? await pool.acquire() : null;
+  pool.replenishInBackground();
+
+  let sandbox: Sandbox;
+  if (pooled) {
+    sandbox = pooled;
+    log(`✓ Using warm sandbox from pool: ${sandbox.id}`);
+  } else {
+    sandbox = await provider.create({ public: true, image: "node:20" });
+    log(`✓ Sandbox created: ${sandbox.id}`);
+  }
+
+  await recordSandbox(sandbox.id, provider.name, { ...details, status: "active" });
+  return sandbox;
+}
@@ -0,0 +1,115 @@
+import type { SDKMessage } from "@anthropic-ai/claude-code";
+import { forwardRunnerOutput, type EmitEvent, type StageTracker } from "../event-emitter";
+import { toQueryOptions, type GenerationOptions } from "../generation-options";
+import { buildRepairPrompt } from "../prompts";
+import { formatCost, type Budget } from "../usage";
+import { runGenerationJob, type GenerationJob } from "./generation";
+import type { ExecResult, Sandbox } from "./types";
+
+// Build output fed back to Claude, the end of the log is where the errors are
+const MAX_ERROR_LENGTH = 6000;
+
+// Fixing build errors should not take as many turns as the generation
+const MAX_REPAIR_TURNS = 10;
+
+export function getRepairAttempts() {
+  const attempts = parseInt(process.env.REPAIR_ATTEMPTS || "");
+  return Number.isFinite(attempts) && attempts >= 0 ? attempts : 2;
+}
+
+export interface VerifyOptions {
+  sandbox: Sandbox;
+  cwd: string;
+  kind: GenerationJob["kind"];
+  componentName?: string;
+  // Options of the generation, repairs run with the same model and tools
+  generationOptions: GenerationOptions;
+  // Human readable name of the check, e.g. "oc build", used in logs, stage labels and the prompt
+  checkName: string;
+  check: () => Promise<ExecResult>;
+  emit: EmitEvent;
+  stages: StageTracker;
+  // Session of the generation, repairs continue it
+  sessionId?: string;
+  maxAttempts?: number;
+  // Repairs are skipped once the job's budget is spent
+  budget?: Budget;
+  // Receives the transcript of each repair run
+  saveTranscript?: (label: string, messages: SDKMessage[]) => Promise<void>;
+}
+
+export interface VerifyResult {
+  ok: boolean;
+  output: string;
+  attempts: number;
+  sessionId?: string;
+}
+
+function tail(output: string) {
+  return output.length > MAX_ERROR_LENGTH ? `...${output.slice(-MAX_ERROR_LENGTH)}` : output;
+}
+
+/**
+ * Runs `check` and, while it fails, hands its output to Claude Code to fix
+ * the code, up to `maxAttempts` times. Each check runs as a "build" stage and
+ * each repair as a "repair" stage. When the last check fails its stage is
+ * left open, so the caller's error is reported against it.
+ */
+export async function verifyWithRepairs(options: VerifyOptions): Promise<VerifyResult> {
+  const { sandbox, cwd, stages, emit } = options;
+  const maxAttempts = options.maxAttempts ?? getRepairAttempts();
+  let sessionId = options.sessionId;
+
+  for (let attempt = 0; ; attempt++) {
+    stages.start(
+      "build",
+      attempt === 0 ? `Running ${options.checkName}` : `Running ${options.checkName} after repair ${attempt}`
+    );
+    const result = await options.check();
+    if (result.exitCode === 0) {
+      stages.finish();
+      return { ok: true, output: result.result, attempts: attempt, sessionId };
+    }
+
+    console.log(`${options.checkName} failed:\n${result.result}`);
+    if (attempt >= maxAttempts) {
+      return { ok: false, output: result.result, attempts: attempt, sessionId };
+    }
+    if (options.budget?.exceeded()) {
+      emit({
+        type: "error",
+        code: "budget_exceeded",
+        message: `The budget of ${formatCost(options.budget.limit!)} is spent, not attempting a repair`,
+      });
+      return { ok: false, output: result.result, attempts: attempt, sessionId };
+    }
+    stages.finish(false, `${options.checkName} failed`);
+
+    stages.start("repair", `Fixing ${options.checkName} errors (attempt ${attempt + 1} of ${maxAttempts})`);
+    console.log(`\n🔧 Asking Claude Code to fix the errors (attempt ${attempt + 1} of ${maxAttempts})...`);
+    const repair = await runGenerationJob(
+      sandbox,
+      {
+        kind: options.kind,
+        componentName: options.componentName,
+        prompt: buildRepairPrompt(options.checkName, tail(result.result)),
+        budgetUsd: options.budget?.remaining(),
+        options: {
+          ...toQueryOptions(options.generationOptions),
+          maxTurns: Math.min(options.generationOptions.maxTurns, MAX_REPAIR_TURNS),
+          resume: sessionId,
+        },
+      },
+      cwd,
+      options.generationOptions.timeoutMs
+    );
+    forwardRunnerOutput(repair.result, emit);
+    if (repair.transcript) {
+      await options.saveTranscript?.(`repair ${attempt + 1}`, repair.transcript);
+    }
+    if (repair.exitCode !== 0) {
+      throw new Error(`Repair attempt ${attempt + 1} failed`);
+    }
+    sessionId = repair.sessionId || sessionId;
+  }
+}
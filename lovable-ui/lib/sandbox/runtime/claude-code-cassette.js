@@ -0,0 +1,134 @@
+// Stand-in for the Claude Code SDK in fake Daytona sandboxes.
+//
+// The fake preloads this file with `node --require` when CLAUDE_PROVIDER is
+// "record" or "replay", and it makes `require('@anthropic-ai/claude-code')`
+// in the runner resolve to itself. query() then behaves like the providers in
+// lib/claude-provider: "replay" plays the cassette recorded for the prompt
+// from CLAUDE_CASSETTE_DIR, "record" runs the real SDK and saves the run.
+// Cassettes use the same format, see lib/claude-provider/cassette.ts.
+const crypto = require('crypto');
+const fs = require('fs');
+const Module = require('module');
+const path = require('path');
+const { pathToFileURL } = require('url');
+
+const PACKAGE = '@anthropic-ai/claude-code';
+const CASSETTE_VERSION = 1;
+const IGNORED_DIRS = ['node_modules', '.git', '.next'];
+
+class AbortError extends Error {}
+
+// Set while the real SDK is being resolved, so the hook lets it through
+let passthrough = false;
+
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, ...rest) {
+  if (request === PACKAGE && !passthrough) {
+    return __filename;
+  }
+  return resolveFilename.call(this, request, ...rest);
+};
+
+function cassetteFile(prompt) {
+  if (typeof prompt !== 'string') {
+    throw new Error('Only string prompts can be recorded and replayed');
+  }
+  const hash = crypto.createHash('sha256').update(prompt).digest('hex').slice(0, 16);
+  return path.join(process.env.CLAUDE_CASSETTE_DIR || '.', hash + '.json');
+}
+
+function snapshot(root, dir, files) {
+  dir = dir || root;
+  files = files || new Map();
+  if (!fs.existsSync(dir)) return files;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRS.includes(entry.name)) snapshot(root, fullPath, files);
+    } else if (entry.isFile()) {
+      files.set(path.relative(root, fullPath), fs.readFileSync(fullPath));
+    }
+  }
+  return files;
+}
+
+function changedFiles(before, after) {
+  const changes = {};
+  after.forEach((content, file) => {
+    if (!before.has(file) || !before.get(file).equals(content)) changes[file] = content.toString('base64');
+  });
+  before.forEach((_, file) => {
+    if (!after.has(file)) changes[file] = null;
+  });
+  return Object.keys(changes).length > 0 ? changes : undefined;
+}
+
+function applyFiles(root, files) {
+  for (const file of Object.keys(files)) {
+    const target = path.resolve(root, file);
+    if (!target.startsWith(root + path.sep)) {
+      throw new Error('Cassette writes outside the workspace: ' + file);
+    }
+    if (files[file] === null) {
+      fs.rmSync(target, { force: true });
+    } else {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, Buffer.from(files[file], 'base64'));
+    }
+  }
+}
+
+async function loadRealSdk() {
+  passthrough = true;
+  try {
+    const paths = (process.env.NODE_PATH || '').split(path.delimiter).filter(Boolean);
+    return await import(pathToFileURL(require.resolve(PACKAGE, { paths: [process.cwd(), ...paths] })).href);
+  } finally {
+    passthrough = false;
+  }
+}
+
+async function* replay(props) {
+  const file = cassetteFile(props.prompt);
+  if (!fs.existsSync(file)) {
+    throw new Error('No cassette recorded for this prompt (' + file + '), record one with CLAUDE_PROVIDER=record');
+  }
+  const cassette = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (cassette.version !== CASSETTE_VERSION) {
+    throw new Error('Cassette ' + file + ' has version ' + cassette.version + ', expected ' + CASSETTE_VERSION);
+  }
+  const root = path.resolve((props.options && props.options.cwd) || process.cwd());
+  for (const entry of cassette.entries) {
+    await new Promise((resolve) => setImmediate(resolve));
+    if (props.abortController && props.abortController.signal.aborted) {
+      throw new AbortError('Claude Code process aborted by user');
+    }
+    if (entry.files) applyFiles(root, entry.files);
+    yield entry.message;
+  }
+}
+
+async function* record(props) {
+  const sdk = await loadRealSdk();
+  const file = cassetteFile(props.prompt);
+  const root = path.resolve((props.options && props.options.cwd) || process.cwd());
+  const cassette = { version: CASSETTE_VERSION, prompt: props.prompt, recordedAt: new Date().toISOString(), entries: [] };
+  let files = snapshot(root);
+  try {
+    for await (const message of sdk.query(props)) {
+      const current = snapshot(root);
+      cassette.entries.push({ message: message, files: changedFiles(files, current) });
+      files = current;
+      yield message;
+    }
+  } finally {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(cassette, null, 2));
+  }
+}
+
+function query(props) {
+  return process.env.CLAUDE_PROVIDER === 'record' ? record(props) : replay(props);
+}
+
+module.exports = { query, AbortError };
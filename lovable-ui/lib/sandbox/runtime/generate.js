@@ -0,0 +1,232 @@
+// Generation runner executed inside the sandbox with `node generate.js <job.json>`.
+//
+// This file is uploaded verbatim, never templated: everything job specific
+// (prompt, options, component name) comes from the job file, so user input
+// cannot change the code that runs. Bump RUNNER_VERSION together with the
+// constant in lib/sandbox/generation.ts whenever the job file format changes.
+const { query } = require('@anthropic-ai/claude-code');
+const fs = require('fs');
+const path = require('path');
+
+const RUNNER_VERSION = 2;
+
+// Exit code for a run stopped with SIGTERM
+const CANCELLED_EXIT_CODE = 130;
+
+const abortController = new AbortController();
+
+// Set when the run is stopped because it went over job.budgetUsd
+let budgetExceeded = false;
+
+// Tool results can be whole files, keep the stream light
+const MAX_TOOL_RESULT_LENGTH = 2000;
+
+// Mirrors eventsFromSdkMessage in lib/events.ts
+function toEvents(message) {
+  const events = [];
+  if (message.type === 'assistant') {
+    for (const block of message.message.content || []) {
+      if (block.type === 'text') {
+        events.push({ type: 'assistant_text', text: block.text });
+      } else if (block.type === 'tool_use') {
+        events.push({ type: 'tool_use', id: block.id, name: block.name, input: block.input });
+      }
+    }
+  } else if (message.type === 'user' && Array.isArray(message.message.content)) {
+    for (const block of message.message.content) {
+      if (block.type === 'tool_result') {
+        const content = Array.isArray(block.content)
+          ? block.content.map((part) => part.type === 'text' ? part.text : '[' + part.type + ']').join('\n')
+          : String(block.content == null ? '' : block.content);
+        events.push({
+          type: 'tool_result',
+          toolUseId: block.tool_use_id,
+          content: content.length > MAX_TOOL_RESULT_LENGTH ? content.substring(0, MAX_TOOL_RESULT_LENGTH) + '...' : content,
+          isError: block.is_error || false
+        });
+      }
+    }
+  }
+  return events;
+}
+
+// USD per million tokens, mirrors MODEL_PRICES in lib/usage.ts
+const MODEL_PRICES = [
+  { match: 'opus', input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  { match: 'haiku', input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  { match: 'sonnet', input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 }
+];
+
+function toUsage(usage, costUsd) {
+  return {
+    inputTokens: (usage && usage.input_tokens) || 0,
+    outputTokens: (usage && usage.output_tokens) || 0,
+    cacheReadTokens: (usage && usage.cache_read_input_tokens) || 0,
+    cacheCreationTokens: (usage && usage.cache_creation_input_tokens) || 0,
+    costUsd: costUsd
+  };
+}
+
+// Mirrors createUsageTracker in lib/usage.ts
+function createUsageTracker() {
+  const seen = new Set();
+  const estimate = toUsage(null, 0);
+
+  return {
+    add(message) {
+      if (message.type === 'assistant') {
+        if (seen.has(message.message.id)) return undefined;
+        seen.add(message.message.id);
+        const usage = toUsage(message.message.usage, 0);
+        const model = message.message.model || '';
+        const prices = MODEL_PRICES.find((price) => model.includes(price.match)) || MODEL_PRICES[MODEL_PRICES.length - 1];
+        for (const field of ['inputTokens', 'outputTokens', 'cacheReadTokens', 'cacheCreationTokens']) {
+          estimate[field] += usage[field];
+        }
+        estimate.costUsd += (usage.inputTokens * prices.input + usage.outputTokens * prices.output +
+          usage.cacheReadTokens * prices.cacheRead + usage.cacheCreationTokens * prices.cacheWrite) / 1000000;
+      } else if (message.type === 'result') {
+        return Object.assign({ type: 'usage' }, toUsage(message.usage, message.total_cost_usd), {
+          numTurns: message.num_turns,
+          durationMs: message.duration_ms
+        });
+      }
+      return undefined;
+    },
+    estimate: estimate
+  };
+}
+
+function readJob(jobPath) {
+  const job = JSON.parse(fs.readFileSync(jobPath, 'utf-8'));
+  if (job.runnerVersion !== RUNNER_VERSION) {
+    throw new Error('Job file targets runner version ' + job.runnerVersion + ', this is version ' + RUNNER_VERSION);
+  }
+  if (typeof job.prompt !== 'string' || !job.prompt) {
+    throw new Error('Job file has no prompt');
+  }
+  return job;
+}
+
+function validateComponent() {
+  const hasView = fs.existsSync('view.js') || fs.existsSync('view.jsx') || fs.existsSync('view.ts');
+  const hasPackage = fs.existsSync('package.json');
+
+  console.log('\nComponent validation:');
+  console.log('- view.js present:', hasView);
+  console.log('- package.json present:', hasPackage);
+
+  if (!hasView || !hasPackage) {
+    console.error('⚠️ Component structure incomplete!');
+    console.error('OpenComponents require at least view.js and package.json');
+  }
+}
+
+async function run() {
+  const jobPath = process.argv[2];
+  if (!jobPath) {
+    throw new Error('Usage: node generate.js <job.json>');
+  }
+  const job = readJob(jobPath);
+
+  // Read by the host after the run so follow-ups can resume the session
+  const sessionFile = path.join(path.dirname(jobPath), 'session-id');
+  // Downloaded by the host after every run, failed ones included
+  const logFile = path.join(path.dirname(jobPath), 'generation-log.json');
+  fs.rmSync(logFile, { force: true });
+  fs.rmSync(sessionFile, { force: true });
+
+  // The host stops a cancelled generation with `kill -TERM $(cat runner.pid)`
+  const pidFile = path.join(path.dirname(jobPath), 'runner.pid');
+  fs.writeFileSync(pidFile, String(process.pid));
+  process.on('exit', () => fs.rmSync(pidFile, { force: true }));
+  process.on('SIGTERM', () => {
+    console.log('Cancelled, stopping Claude Code...');
+    abortController.abort();
+    // Do not wait forever for the SDK to wind down
+    setTimeout(() => process.exit(CANCELLED_EXIT_CODE), 5000).unref();
+  });
+
+  console.log('Starting ' + job.kind + ' generation with Claude Code...');
+  console.log('Working directory:', process.cwd());
+  if (job.componentName) {
+    console.log('Component:', job.componentName);
+  }
+
+  if (job.options.resume) {
+    console.log('Resuming session:', job.options.resume);
+  }
+
+  const messages = [];
+  const usage = createUsageTracker();
+  let sessionId;
+
+  const print = (event) => console.log(JSON.stringify(Object.assign({ v: job.protocolVersion }, event)));
+
+  try {
+    for await (const message of query({
+      prompt: job.prompt,
+      abortController: abortController,
+      options: job.options
+    })) {
+      messages.push(message);
+      sessionId = message.session_id || sessionId;
+
+      // Log progress, one protocol event per line (see lib/events.ts)
+      for (const event of toEvents(message)) {
+        if (event.type === 'assistant_text') {
+          console.log('[Claude]:', event.text.substring(0, 80) + '...');
+        } else if (event.type === 'tool_use') {
+          console.log('[Tool]:', event.name, (event.input && event.input.file_path) || '');
+        }
+        print(event);
+      }
+
+      const usageEvent = usage.add(message);
+      if (usageEvent) {
+        console.log('[Usage]: $' + usageEvent.costUsd.toFixed(4));
+        print(usageEvent);
+      }
+      // The result message ends the run anyway, only stop one that is still going
+      if (message.type === 'assistant' && typeof job.budgetUsd === 'number' && usage.estimate.costUsd >= job.budgetUsd) {
+        budgetExceeded = true;
+        const reason = 'Stopped after spending about $' + usage.estimate.costUsd.toFixed(4) +
+          ', the budget for this run is $' + job.budgetUsd.toFixed(4);
+        print(Object.assign({ type: 'usage' }, usage.estimate, { estimated: true }));
+        print({ type: 'error', code: 'budget_exceeded', message: reason });
+        abortController.abort();
+        throw new Error(reason);
+      }
+    }
+  } finally {
+    fs.writeFileSync(logFile, JSON.stringify(messages, null, 2));
+  }
+
+  console.log('\nGeneration complete!');
+  console.log('Total messages:', messages.length);
+
+  if (sessionId) {
+    fs.writeFileSync(sessionFile, sessionId);
+  }
+
+  // List generated files
+  const files = fs.readdirSync('.').filter(f => !f.startsWith('.') && f !== 'node_modules');
+  console.log('\nGenerated files:', files.join(', '));
+
+  if (job.kind === 'component') {
+    validateComponent();
+  }
+}
+
+run().catch((error) => {
+  if (budgetExceeded) {
+    console.error(error.message);
+    process.exit(1);
+  }
+  if (abortController.signal.aborted) {
+    process.exit(CANCELLED_EXIT_CODE);
+  }
+  console.error('Generation error:', error);
+  console.error('Stack:', error && error.stack);
+  process.exit(1);
+});
@@ -0,0 +1,70 @@
+import type { Sandbox } from "./types";
+
+// Bump whenever the provisioning steps change so stale pooled sandboxes are not reused
+export const TOOLCHAIN_VERSION = "1";
+
+const TOOLCHAIN_MARKER = ".lovable-toolchain";
+
+// Packages generated projects commonly depend on, pre-fetched into the npm cache
+const COMMON_PACKAGES = ["next", "react", "react-dom", "typescript", "tailwindcss", "postcss", "autoprefixer"];
+
+export async function hasToolchain(sandbox: Sandbox): Promise<boolean> {
+  const rootDir = await sandbox.getUserRootDir();
+  const check = await sandbox.exec(`cat ${TOOLCHAIN_MARKER} 2>/dev/null || true`, rootDir);
+  return check.result.trim() === TOOLCHAIN_VERSION;
+}
+
+/**
+ * Installs the OpenComponents CLI globally and the Claude Code SDK in the
+ * sandbox root, then warms the npm cache with common dependencies.
+ */
+export async function provisionToolchain(
+  sandbox: Sandbox,
+  log: (message: string) => void = console.log
+): Promise<void> {
+  const rootDir = await sandbox.getUserRootDir();
+
+  const installOc = await sandbox.exec("npm install -g oc", rootDir, undefined, 180000);
+  if (installOc.exitCode !== 0) {
+    console.error("OC CLI installation failed:", installOc.result);
+    throw new Error("Failed to install OpenComponents CLI");
+  }
+  log("✓ OpenComponents CLI installed");
+
+  const installSdk = await sandbox.exec(
+    "npm install @anthropic-ai/claude-code@latest",
+    rootDir,
+    undefined,
+    180000
+  );
+  if (installSdk.exitCode !== 0) {
+    console.error("Installation failed:", installSdk.result);
+    throw new Error("Failed to install Claude Code SDK");
+  }
+  log("✓ Claude Code SDK installed");
+
+  // A cold cache only makes the later npm install slower, so failures are not fatal
+  const warmCache = await sandbox.exec(
+    `npm cache add ${COMMON_PACKAGES.join(" ")}`,
+    rootDir,
+    undefined,
+    300000
+  );
+  if (warmCache.exitCode === 0) {
+    log("✓ Common dependencies cached");
+  }
+
+  await sandbox.exec(`echo ${TOOLCHAIN_VERSION} > ${TOOLCHAIN_MARKER}`, rootDir);
+}
+
+/** Provisions the toolchain unless the sandbox already has the current version. */
+export async function ensureToolchain(
+  sandbox: Sandbox,
+  log: (message: string) => void = console.log
+): Promise<void> {
+  if (await hasToolchain(sandbox)) {
+    log("✓ Toolchain already installed");
+    return;
+  }
+  await provisionToolchain(sandbox, log);
+}
@@ -0,0 +1,68 @@
+// Dev servers listen here in sandboxes that have a network of their own
+export const DEFAULT_PREVIEW_PORT = 3000;
+
+export interface ExecResult {
+  exitCode: number;
+  result: string;
+}
+
+export interface PreviewLink {
+  url: string;
+  token?: string;
+}
+
+export interface CreateSandboxOptions {
+  image?: string;
+  public?: boolean;
+  labels?: Record<string, string>;
+}
+
+export interface SandboxSummary {
+  id: string;
+  provider: string;
+  state?: string;
+  createdAt?: string;
+  labels?: Record<string, string>;
+}
+
+/**
+ * A running sandbox, independent of where it runs. Paths passed to `exec`,
+ * `uploadFile` and `downloadFile` are paths inside the sandbox.
+ */
+export interface Sandbox {
+  readonly id: string;
+  readonly provider: string;
+  /** Hostname that processes inside the sandbox use to reach the host machine. */
+  readonly hostAlias: string;
+  /**
+   * Port servers in the sandbox listen on to be previewed. Sandboxes that
+   * share this machine's network each get one of their own.
+   */
+  readonly previewPort: number;
+  getUserRootDir(): Promise<string>;
+  /** Runs a shell command. `timeoutMs` of 0 or undefined waits indefinitely. */
+  exec(
+    command: string,
+    cwd?: string,
+    env?: Record<string, string>,
+    timeoutMs?: number
+  ): Promise<ExecResult>;
+  uploadFile(content: Buffer | string, remotePath: string): Promise<void>;
+  downloadFile(remotePath: string): Promise<Buffer>;
+  getPreviewLink(port: number): Promise<PreviewLink>;
+}
+
+export interface SandboxProvider {
+  readonly name: string;
+  create(options?: CreateSandboxOptions): Promise<Sandbox>;
+  get(sandboxId: string): Promise<Sandbox>;
+  list(): Promise<SandboxSummary[]>;
+  remove(sandboxId: string): Promise<void>;
+}
+
+export class SandboxNotFoundError extends Error {
+  constructor(sandboxId: string) {
+    super(`Sandbox ${sandboxId} not found`);
+    this.name = "SandboxNotFoundError";
+  }
+}
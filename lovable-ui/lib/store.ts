@@ -0,0 +1,126 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// Local state shared by the web app and the scripts (pool, inventory, jobs...)
+export const DATA_DIR = path.resolve(process.env.LOVABLE_DATA_DIR || ".lovable");
+
+const LOCK_RETRY_MS = 50;
+const LOCK_TIMEOUT_MS = 10000;
+const STALE_LOCK_MS = 30000;
+
+export function dataPath(...segments: string[]) {
+  return path.join(DATA_DIR, ...segments);
+}
+
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+export function writeJsonFile(filePath: string, value: unknown) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  // Write to a temp file first so readers never see a half-written file
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(value, null, 2));
+  fs.renameSync(tempPath, filePath);
+}
+
+// Takes the lock unless another holder has it, a crashed process can leave its lock behind
+function tryLock(lockPath: string): boolean {
+  const create = () => {
+    try {
+      fs.closeSync(fs.openSync(lockPath, "wx"));
+      return true;
+    } catch (error: any) {
+      if (error.code !== "EEXIST") {
+        throw error;
+      }
+      return false;
+    }
+  };
+  if (create()) {
+    return true;
+  }
+  try {
+    if (Date.now() - fs.statSync(lockPath).mtimeMs <= STALE_LOCK_MS) {
+      return false;
+    }
+    fs.rmSync(lockPath, { force: true });
+  } catch {
+    // Released in the meantime
+  }
+  return create();
+}
+
+function lockTimeoutError(filePath: string) {
+  return new Error(`Timed out waiting for lock on ${filePath}`);
+}
+
+/**
+ * Runs `fn` while holding an exclusive lock on `filePath`. The lock is a
+ * sibling `.lock` file so it also works across processes.
+ */
+export async function withFileLock<T>(filePath: string, fn: () => T | Promise<T>): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+  const startedAt = Date.now();
+
+  while (!tryLock(lockPath)) {
+    if (Date.now() - startedAt > LOCK_TIMEOUT_MS) {
+      throw lockTimeoutError(filePath);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+/**
+ * withFileLock() for callers that can't wait asynchronously. It blocks the
+ * thread while another holder has the lock, so `fn` must be quick.
+ */
+export function withFileLockSync<T>(filePath: string, fn: () => T): T {
+  const lockPath = `${filePath}.lock`;
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+  const startedAt = Date.now();
+
+  while (!tryLock(lockPath)) {
+    if (Date.now() - startedAt > LOCK_TIMEOUT_MS) {
+      throw lockTimeoutError(filePath);
+    }
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, LOCK_RETRY_MS);
+  }
+
+  try {
+    return fn();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+/**
+ * Reads, updates and writes back a JSON file under its lock. `update` may
+ * mutate the value in place or return a replacement.
+ */
+export async function updateJsonFile<T>(
+  filePath: string,
+  fallback: T,
+  update: (value: T) => T | void
+): Promise<T> {
+  return withFileLock(filePath, () => {
+    const current = readJsonFile(filePath, fallback);
+    const next = update(current) ?? current;
+    writeJsonFile(filePath, next);
+    return next;
+  });
+}
@@ -0,0 +1,164 @@
+import type { SDKMessage } from "@anthropic-ai/claude-code";
+import type { EmitEvent } from "./event-emitter";
+import type { GenerationEvent } from "./events";
+
+/** Token counts and cost of one or more Claude Code runs. */
+export interface Usage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+}
+
+export type UsageEvent = Extract<GenerationEvent, { type: "usage" }>;
+
+/**
+ * Remaining budget of a job in USD, set by the job queue for generator
+ * scripts. It already accounts for the daily budget.
+ */
+export const BUDGET_ENV = "LOVABLE_BUDGET_USD";
+
+// USD per million tokens, only used to estimate the cost of a run before
+// Claude Code reports the real one. Keep in sync with runtime/generate.js.
+const MODEL_PRICES: { match: string; input: number; output: number; cacheRead: number; cacheWrite: number }[] = [
+  { match: "opus", input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  { match: "haiku", input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  { match: "sonnet", input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+];
+
+export function emptyUsage(): Usage {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: 0 };
+}
+
+export function addUsage(total: Usage, usage: Usage): Usage {
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    cacheReadTokens: total.cacheReadTokens + usage.cacheReadTokens,
+    cacheCreationTokens: total.cacheCreationTokens + usage.cacheCreationTokens,
+    costUsd: total.costUsd + usage.costUsd,
+  };
+}
+
+/** Picks the usage fields out of a "usage" event. */
+export function usageFromEvent(event: UsageEvent): Usage {
+  const { inputTokens, outputTokens, cacheReadTokens, cacheCreationTokens, costUsd } = event;
+  return { inputTokens, outputTokens, cacheReadTokens, cacheCreationTokens, costUsd };
+}
+
+function parseBudget(value: string | undefined) {
+  const budget = parseFloat(value || "");
+  return Number.isFinite(budget) && budget > 0 ? budget : undefined;
+}
+
+/** Budgets in USD from JOB_BUDGET_USD and DAILY_BUDGET_USD, undefined when unlimited. */
+export function getBudgets(): { job?: number; daily?: number } {
+  return {
+    job: parseBudget(process.env.JOB_BUDGET_USD),
+    daily: parseBudget(process.env.DAILY_BUDGET_USD),
+  };
+}
+
+/**
+ * Budget of the current generator process: what the job queue left for it,
+ * or JOB_BUDGET_USD when a script runs standalone.
+ */
+export function getProcessBudget() {
+  return parseBudget(process.env[BUDGET_ENV]) ?? getBudgets().job;
+}
+
+export function formatCost(costUsd: number) {
+  return `$${costUsd.toFixed(costUsd < 1 ? 4 : 2)}`;
+}
+
+function toUsage(usage: any, costUsd: number): Usage {
+  return {
+    inputTokens: usage?.input_tokens || 0,
+    outputTokens: usage?.output_tokens || 0,
+    cacheReadTokens: usage?.cache_read_input_tokens || 0,
+    cacheCreationTokens: usage?.cache_creation_input_tokens || 0,
+    costUsd,
+  };
+}
+
+function estimateCost(model: string, usage: Usage) {
+  const prices = MODEL_PRICES.find((price) => model.includes(price.match)) || MODEL_PRICES[MODEL_PRICES.length - 1];
+  return (
+    (usage.inputTokens * prices.input +
+      usage.outputTokens * prices.output +
+      usage.cacheReadTokens * prices.cacheRead +
+      usage.cacheCreationTokens * prices.cacheWrite) /
+    1_000_000
+  );
+}
+
+/**
+ * Follows the usage of one Claude Code run. Assistant messages give a running
+ * estimate, so a budget can stop the run while it is going; the result
+ * message replaces it with the cost Claude Code reports.
+ *
+ * `add` returns the "usage" event to emit once the run is over, and
+ * `exceeded` tells whether the estimate went past `budgetUsd`.
+ */
+export function createUsageTracker(budgetUsd?: number) {
+  // Claude Code repeats the same API message once per content block
+  const seen = new Set<string>();
+  let estimate = emptyUsage();
+
+  return {
+    add(message: SDKMessage): UsageEvent | undefined {
+      if (message.type === "assistant") {
+        const id = message.message.id;
+        if (seen.has(id)) return undefined;
+        seen.add(id);
+        const usage = toUsage(message.message.usage, 0);
+        usage.costUsd = estimateCost(message.message.model || "", usage);
+        estimate = addUsage(estimate, usage);
+      } else if (message.type === "result") {
+        return {
+          type: "usage",
+          ...toUsage(message.usage, message.total_cost_usd),
+          numTurns: message.num_turns,
+          durationMs: message.duration_ms,
+        };
+      }
+      return undefined;
+    },
+    exceeded() {
+      return budgetUsd !== undefined && estimate.costUsd >= budgetUsd;
+    },
+    /** Usage event for a run that ended without a result message, e.g. when it was stopped. */
+    estimated(): UsageEvent {
+      return { type: "usage", ...estimate, estimated: true };
+    },
+  };
+}
+
+/**
+ * Keeps a total of the "usage" events passing through an emitter, so a
+ * script running several Claude Code runs knows how much budget is left.
+ */
+export function createBudget(budgetUsd = getProcessBudget()) {
+  let spent = 0;
+  return {
+    track(emit: EmitEvent): EmitEvent {
+      return (event) => {
+        if (event.type === "usage") {
+          spent += event.costUsd;
+        }
+        emit(event);
+      };
+    },
+    /** USD left for the next run, undefined when unlimited. */
+    remaining() {
+      return budgetUsd === undefined ? undefined : Math.max(budgetUsd - spent, 0);
+    },
+    exceeded() {
+      return budgetUsd !== undefined && spent >= budgetUsd;
+    },
+    limit: budgetUsd,
+  };
+}
+
+export type Budget = ReturnType<typeof createBudget>;
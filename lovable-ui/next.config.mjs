@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  experimental: {
+    // Keep the sandbox SDKs out of the webpack bundle for API routes
+    serverComponentsExternalPackages: ["@daytonaio/sdk"],
+  },
+};
 
-export default nextConfig;
\ No newline at end of file
+export default nextConfig;
@@ -0,0 +1,94 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+// Like the job queue's default
+const CONCURRENCY = 2;
+
+let failures = 0;
+
+function check(name: string, ok: boolean, detail?: string) {
+  console.log(`${ok ? "✅" : "❌"} ${name}${!ok && detail ? `: ${detail}` : ""}`);
+  if (!ok) failures++;
+}
+
+function cents(value: number | undefined) {
+  return value === undefined ? undefined : Math.round(value * 100);
+}
+
+/**
+ * Checks how jobs that start side by side share the daily budget, without
+ * running any of them:
+ *
+ *   npx tsx scripts/check-budgets.ts
+ */
+async function checkBudgets() {
+  // Jobs of the checks must not end up in the app's own state
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "lovable-budgets-"));
+  process.env.LOVABLE_DATA_DIR = dataDir;
+  delete process.env.JOB_BUDGET_USD;
+  delete process.env.DAILY_BUDGET_USD;
+
+  // Imported after the environment is set, the store reads it when it loads
+  const { createJob, updateJob } = await import("../lib/jobs/store");
+  const { releaseJobBudget, reserveJobBudget } = await import("../lib/jobs/usage");
+  const { emptyUsage } = await import("../lib/usage");
+
+  // A job that started today, as the queue marks it before reserving
+  async function startJob() {
+    const job = createJob("code", "Check budgets");
+    await updateJob(job.id, { status: "running", startedAt: new Date().toISOString() });
+    return job.id;
+  }
+
+  try {
+    console.log("1. No budgets...");
+    const unlimited = await startJob();
+    check("a job has no budget", reserveJobBudget(unlimited, CONCURRENCY) === undefined);
+    releaseJobBudget(unlimited);
+
+    console.log("\n2. Only a daily budget...");
+    process.env.DAILY_BUDGET_USD = "5";
+    const [a, b] = [await startJob(), await startJob()];
+    const budgetA = reserveJobBudget(a, CONCURRENCY);
+    const budgetB = reserveJobBudget(b, CONCURRENCY);
+    check("the first job gets a share of the daily budget", cents(budgetA) === 250, `got ${budgetA}`);
+    check("a job started alongside it gets the other share", cents(budgetB) === 250, `got ${budgetB}`);
+
+    // A spends $1 of its $2.50 and finishes, the rest goes back
+    await updateJob(a, { status: "succeeded", usage: { ...emptyUsage(), costUsd: 1 } });
+    releaseJobBudget(a);
+    const c = await startJob();
+    const budgetC = reserveJobBudget(c, CONCURRENCY);
+    check("a finished job's unspent budget is released", cents(budgetC) === 150, `got ${budgetC}`);
+    releaseJobBudget(b);
+    releaseJobBudget(c);
+
+    console.log("\n3. Daily and per-job budgets...");
+    process.env.JOB_BUDGET_USD = "1";
+    const [d, e] = [await startJob(), await startJob()];
+    check("the per-job budget applies below the share", cents(reserveJobBudget(d, CONCURRENCY)) === 100);
+    check("so does the next job's", cents(reserveJobBudget(e, CONCURRENCY)) === 100);
+    releaseJobBudget(d);
+    releaseJobBudget(e);
+
+    console.log("\n4. A spent daily budget...");
+    process.env.DAILY_BUDGET_USD = "1";
+    const f = await startJob();
+    check("a job gets nothing once today's budget is spent", reserveJobBudget(f, CONCURRENCY) === 0);
+    releaseJobBudget(f);
+  } finally {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} check${failures === 1 ? "" : "s"} failed`);
+    process.exit(1);
+  }
+  console.log("\n✅ All budget checks passed");
+}
+
+checkBudgets().catch((error) => {
+  console.error("Budget check failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,173 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+// Recorded by check-replay.ts, variants of a code job replay it
+const CASSETTE_DIR = path.join(__dirname, "..", "cassettes");
+const PROMPT = "Create a file hello.html with a page that shows the heading Hello from Lovable. Do nothing else.";
+
+const JOB_TIMEOUT_MS = 60000;
+
+let failures = 0;
+
+function check(name: string, ok: boolean, detail?: string) {
+  console.log(`${ok ? "✅" : "❌"} ${name}${!ok && detail ? `: ${detail}` : ""}`);
+  if (!ok) failures++;
+}
+
+/** The error `fn` throws, undefined when it doesn't. */
+async function errorOf(fn: () => unknown): Promise<any> {
+  try {
+    await fn();
+    return undefined;
+  } catch (error) {
+    return error;
+  }
+}
+
+/**
+ * Checks how jobs are submitted and grouped and which files can be attached
+ * to them, with code jobs replaying a recorded Claude Code run, so no API
+ * key or network is needed:
+ *
+ *   npx tsx scripts/check-jobs.ts
+ */
+async function checkJobs() {
+  // Jobs and workspaces of the checks must not end up in the app's own state
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "lovable-jobs-"));
+  process.env.LOVABLE_DATA_DIR = dataDir;
+  process.env.CLAUDE_PROVIDER = "replay";
+  process.env.CLAUDE_CASSETTE_DIR = CASSETTE_DIR;
+  delete process.env.DAILY_BUDGET_USD;
+
+  // Imported after the environment is set, the store reads it when it loads
+  const { JobRequestError, getJob, getVariantGroup, isFinished, keepVariant, listJobs, submitJob, submitVariants } =
+    await import("../lib/jobs");
+  const {
+    AttachmentError,
+    MAX_ATTACHMENTS,
+    MAX_ATTACHMENT_BYTES,
+    attachmentFileName,
+    checkAttachment,
+    copyAttachments,
+    resolveAttachments,
+    saveAttachment,
+  } = await import("../lib/attachments");
+
+  async function waitForJobs(jobIds: string[]) {
+    const startedAt = Date.now();
+    while (!jobIds.every((id) => isFinished(getJob(id)!.status))) {
+      if (Date.now() - startedAt > JOB_TIMEOUT_MS) {
+        throw new Error(`Jobs ${jobIds.join(", ")} did not finish within ${JOB_TIMEOUT_MS / 1000}s`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+    return jobIds.map((id) => getJob(id)!);
+  }
+
+  try {
+    console.log("1. Variants...");
+    const group = submitVariants("code", PROMPT, undefined, undefined, [{ style: "minimal" }, { style: "playful" }]);
+    check("one job per variant", group.jobIds.length === 2 && getVariantGroup(group.id)?.jobIds.join() === group.jobIds.join());
+    const variants = await waitForJobs(group.jobIds);
+    check(
+      "every variant succeeded",
+      variants.every((job) => job.status === "succeeded"),
+      variants.map((job) => `${job.status} ${job.error?.message || ""}`).join(", ")
+    );
+    check(
+      "variants know their group and index",
+      variants.every((job, index) => job.variant?.groupId === group.id && job.variant.index === index && job.variant.count === 2)
+    );
+    check(
+      "each variant's style goes into its system prompt",
+      variants.every((job) => job.options?.appendSystemPrompt?.includes(job.variant!.style!))
+    );
+
+    const kept = await keepVariant(group.id, variants[1].id);
+    check("the kept variant is recorded", kept.keptJobId === variants[1].id && getVariantGroup(group.id)?.keptJobId === variants[1].id);
+    const notMember = await errorOf(() => keepVariant(group.id, "not-a-variant"));
+    check("only variants of the group can be kept", notMember instanceof JobRequestError);
+
+    for (const [name, variantsRequest, component] of [
+      ["more than 4 variants are refused", 5, undefined],
+      ["0 variants are refused", 0, undefined],
+      ["a variant that isn't an object is refused", ["minimal"], undefined],
+    ] as const) {
+      const error = await errorOf(() => submitVariants("code", PROMPT, undefined, component, variantsRequest));
+      check(name, error instanceof JobRequestError, error?.message);
+    }
+    // Component variants are always published under names of their own, refused before anything runs
+    process.env.ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY || "unused";
+    process.env.DAYTONA_FAKE = "1";
+    const onConflict = await errorOf(() =>
+      submitVariants("component", PROMPT, undefined, { onConflict: "version" }, 2)
+    );
+    check('component variants refuse onConflict "version"', onConflict instanceof JobRequestError, onConflict?.message);
+
+    console.log("\n2. Attachments...");
+    for (const [name, mimeType, expected] of [
+      ["screenshot.png", "image/png", "image/png"],
+      ["notes.md", "", "text/markdown"],
+      ["data.csv", "application/octet-stream", "text/csv"],
+    ]) {
+      let type: string | undefined;
+      const error = await errorOf(() => (type = checkAttachment(name, mimeType, 10)));
+      check(`${name} is attached as ${expected}`, type === expected, error?.message || `got ${type}`);
+    }
+    for (const [name, mimeType, size] of [
+      ["drawing.svg", "image/svg+xml", 10],
+      ["tool.exe", "application/octet-stream", 10],
+      ["huge.png", "image/png", MAX_ATTACHMENT_BYTES + 1],
+    ] as const) {
+      const error = await errorOf(() => checkAttachment(name, mimeType, size));
+      check(`${name} is refused`, error instanceof AttachmentError, error?.message);
+    }
+
+    const attachment = saveAttachment("../My Mockup.png", "image/png", Buffer.from("not really a png"));
+    const fileName = attachmentFileName(attachment);
+    check("the file name is made safe", fileName === `${attachment.id.slice(0, 8)}-_My_Mockup.png`, fileName);
+    check(
+      "a name of only dots still gets one",
+      attachmentFileName({ ...attachment, name: ".." }) === `${attachment.id.slice(0, 8)}-file`
+    );
+    check("a saved attachment can be referred to by id", resolveAttachments([attachment.id])[0]?.id === attachment.id);
+    for (const [name, ids] of [
+      ["unknown ids are refused", ["00000000-0000-0000-0000-000000000000"]],
+      ["ids that are paths are refused", ["../jobs"]],
+      [`more than ${MAX_ATTACHMENTS} attachments are refused`, Array(MAX_ATTACHMENTS + 1).fill(attachment.id)],
+      ["a list of something else is refused", [1]],
+    ] as const) {
+      const error = await errorOf(() => resolveAttachments(ids));
+      check(name, error instanceof AttachmentError, error?.message);
+    }
+
+    const jobCount = listJobs().length;
+    const unknown = await errorOf(() => submitJob("code", PROMPT, undefined, undefined, ["not-an-attachment"]));
+    check(
+      "a job with an unknown attachment is refused before it is queued",
+      unknown instanceof JobRequestError && listJobs().length === jobCount,
+      unknown?.message
+    );
+
+    const copyDir = path.join(dataDir, "workspace", ".attachments");
+    const [copied] = copyAttachments([attachment], copyDir);
+    check(
+      "attachments are copied under their safe name",
+      copied.path === path.join(copyDir, fileName) && fs.readFileSync(copied.path, "utf-8") === "not really a png"
+    );
+  } finally {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} check${failures === 1 ? "" : "s"} failed`);
+    process.exit(1);
+  }
+  console.log("\n✅ All job checks passed");
+}
+
+checkJobs().catch((error) => {
+  console.error("Job check failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,217 @@
+import { spawn, type ChildProcessWithoutNullStreams } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as readline from "readline";
+import { loadGenerationPolicy } from "../lib/generation-options";
+
+const GUARD_SERVER = path.join(__dirname, "..", "lib", "permissions", "guard-server.js");
+
+let failures = 0;
+
+function check(name: string, ok: boolean, detail?: string) {
+  console.log(`${ok ? "✅" : "❌"} ${name}${!ok && detail ? `: ${detail}` : ""}`);
+  if (!ok) failures++;
+}
+
+/** A running guard-server.js, asked over MCP like Claude Code asks it. */
+class Guard {
+  private nextId = 1;
+  private readonly waiting = new Map<number, (result: any) => void>();
+
+  private constructor(private readonly server: ChildProcessWithoutNullStreams) {
+    readline.createInterface({ input: server.stdout }).on("line", (line) => {
+      const response = JSON.parse(line);
+      this.waiting.get(response.id)?.(response.result);
+      this.waiting.delete(response.id);
+    });
+  }
+
+  static start(workspace: string, bashCommands: string[]) {
+    const server = spawn(process.execPath, [GUARD_SERVER], {
+      env: {
+        ...process.env,
+        LOVABLE_WORKSPACE: workspace,
+        LOVABLE_ALLOWED_TOOLS: JSON.stringify(["Bash", "Write", "Edit", "MultiEdit", "Glob", "Grep"]),
+        LOVABLE_BASH_COMMANDS: JSON.stringify(bashCommands),
+      },
+    });
+    return new Guard(server);
+  }
+
+  async approve(toolName: string, input: Record<string, unknown>): Promise<{ behavior: "allow" | "deny"; message?: string }> {
+    const id = this.nextId++;
+    const result = new Promise<any>((resolve) => this.waiting.set(id, resolve));
+    this.server.stdin.write(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        id,
+        method: "tools/call",
+        params: { name: "approve", arguments: { tool_name: toolName, input } },
+      }) + "\n"
+    );
+    return JSON.parse((await result).content[0].text);
+  }
+
+  stop() {
+    this.server.kill();
+  }
+}
+
+async function expect(guard: Guard, behavior: "allow" | "deny", commands: string[]) {
+  for (const command of commands) {
+    const decision = await guard.approve("Bash", { command });
+    check(`${behavior} ${command}`, decision.behavior === behavior, decision.message);
+  }
+}
+
+async function expectTool(guard: Guard, behavior: "allow" | "deny", toolName: string, inputs: Record<string, unknown>[]) {
+  for (const input of inputs) {
+    const decision = await guard.approve(toolName, input);
+    check(`${behavior} ${toolName} ${JSON.stringify(input)}`, decision.behavior === behavior, decision.message);
+  }
+}
+
+// A .git/config Claude could write into a workspace, git must not run its command on the host
+async function checkWorkspaceHistory(dataDir: string) {
+  const { commitAll, readHistory, USER_AUTHOR } = await import("../lib/jobs/git");
+  const { getJobWorkspace, openProject } = await import("../lib/jobs/files");
+  const job: any = { id: "history-check", kind: "code", prompt: "", status: "succeeded", createdAt: "" };
+  const workspace = getJobWorkspace(job);
+  const marker = path.join(dataDir, "fsmonitor-ran");
+  fs.mkdirSync(path.join(workspace, ".git", "hooks"), { recursive: true });
+  fs.writeFileSync(path.join(workspace, ".git", "config"), `[core]\n\tfsmonitor = "touch ${marker}"\n`);
+  fs.writeFileSync(path.join(workspace, ".git", "hooks", "pre-commit"), `#!/bin/sh\ntouch ${marker}\n`, { mode: 0o755 });
+  fs.writeFileSync(path.join(workspace, "index.html"), "<h1>Hello</h1>\n");
+
+  const project = (await openProject(job))!;
+  const hash = await commitAll(project, "Check\n\nLovable-Job: history-check\n", USER_AUTHOR);
+  check("workspace changes are committed", !!hash);
+  check("the repository is kept outside the workspace", !!project.gitDir && !project.gitDir.startsWith(workspace));
+  check("git ignores the workspace's .git/config and hooks", !fs.existsSync(marker));
+  const history = await readHistory(project);
+  check("the history has the commit", history.commits[0]?.hash === hash, JSON.stringify(history.commits));
+}
+
+/**
+ * Asks the permission guard of local generations about Bash commands that
+ * must and must not run, without running any of them, and checks that git
+ * can't be made to run commands from a workspace:
+ *
+ *   npx tsx scripts/check-permissions.ts
+ */
+async function checkPermissions() {
+  // Workspaces of the history check must not end up in the app's own state
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "lovable-permissions-"));
+  process.env.LOVABLE_DATA_DIR = dataDir;
+  const workspace = fs.mkdtempSync(path.join(os.tmpdir(), "lovable-guard-"));
+  fs.mkdirSync(path.join(workspace, "src"));
+  const guards: Guard[] = [];
+
+  try {
+    console.log("1. Built-in policy...");
+    const builtIn = Guard.start(workspace, loadGenerationPolicy(path.join(workspace, "no-policy.json")).bashCommands);
+    guards.push(builtIn);
+    await expect(builtIn, "deny", [
+      "rm -rf $HOME",
+      "cat $HOME/.bashrc",
+      "cat ${HOME}/.bashrc",
+      'cat "$HOME/.bashrc"',
+      "ls $(dirname /)",
+      "ls `pwd`/..",
+      "cat <(ls /)",
+      "rm -rf *",
+      "cat src/*",
+      "ls {src,/etc}",
+      "(cd /; ls)",
+      `node -e "require('fs').writeFileSync('/tmp/pwn','x')"`,
+      "node build.js",
+      "npx some-package",
+      "npm install left-pad",
+      "sed -i 's/a/b/w pwned' src/a.ts",
+      "find . -exec rm -rf {} +",
+      "ls && bash -c 'rm -rf /'",
+      "HOME=/ ls",
+      "/tmp/evil/ls",
+      "cd && rm -rf work",
+      "cat ~/.bashrc",
+      "rm -rf ../app",
+      "cat /etc/passwd",
+      "tsc --outDir=/tmp/out",
+      "tsc -p/etc",
+      "echo hi > /tmp/out.txt",
+      "echo 'unterminated",
+    ]);
+    await expect(builtIn, "allow", [
+      "ls -la src",
+      "mkdir -p src/components && touch src/components/a.ts",
+      "grep -rn 'foo$' src | sort 2>&1",
+      'grep -n "a*b" src/a.ts 2>/dev/null || echo none',
+      "echo '$HOME and `pwd` stay text' > notes.txt",
+      "cd src && ls",
+      "rm -rf dist",
+      "echo done >> log.txt",
+    ]);
+
+    console.log('\n2. "*" policy...');
+    const any = Guard.start(workspace, ["*"]);
+    guards.push(any);
+    await expect(any, "deny", [
+      `node -e "require('fs').writeFileSync('/tmp/pwn','x')"`,
+      "python3 -c 'import os'",
+      "npx some-package",
+      "xargs rm < list.txt",
+      "ls $HOME",
+    ]);
+    await expect(any, "allow", ["wc -l src/a.ts", "du -sh src"]);
+
+    console.log("\n3. Interpreters named in the policy...");
+    const named = Guard.start(workspace, ["node", "npm"]);
+    guards.push(named);
+    await expect(named, "allow", ["node build.js", "npm run build"]);
+    await expect(named, "deny", ["npx some-package", "node -e 'x' $HOME"]);
+
+    console.log("\n4. File tools...");
+    const gitConfig = path.join(workspace, ".git", "config");
+    await expectTool(builtIn, "deny", "Write", [
+      { file_path: gitConfig, content: "[core]\n\tfsmonitor = touch /tmp/pwn\n" },
+      { file_path: ".git/hooks/pre-commit", content: "#!/bin/sh\n" },
+      { file_path: "src/../.git/config", content: "" },
+    ]);
+    await expectTool(builtIn, "deny", "Edit", [{ file_path: gitConfig, old_string: "a", new_string: "b" }]);
+    await expectTool(builtIn, "deny", "MultiEdit", [{ file_path: gitConfig, edits: [] }]);
+    await expect(builtIn, "deny", ["echo x > .git/config", "rm -rf .git", "cp evil .git/hooks/pre-commit"]);
+    await expectTool(builtIn, "allow", "Write", [{ file_path: path.join(workspace, "src", "a.ts"), content: "" }]);
+    await expectTool(builtIn, "deny", "Glob", [
+      { pattern: "/etc/**" },
+      { pattern: "../**/*.ts" },
+      { pattern: "src/**/../../../*" },
+      { pattern: "/etc/*", path: workspace },
+    ]);
+    await expectTool(builtIn, "deny", "Grep", [{ pattern: "root", glob: "/etc/*" }, { pattern: "x", glob: "../../*" }]);
+    await expectTool(builtIn, "allow", "Glob", [
+      { pattern: "src/**/*.ts" },
+      { pattern: `${workspace}/src/*.ts` },
+      { pattern: "../*.ts", path: path.join(workspace, "src") },
+    ]);
+    await expectTool(builtIn, "allow", "Grep", [{ pattern: "\\.\\./", glob: "*.ts" }]);
+
+    console.log("\n5. Project history of a workspace...");
+    await checkWorkspaceHistory(dataDir);
+  } finally {
+    guards.forEach((guard) => guard.stop());
+    fs.rmSync(workspace, { recursive: true, force: true });
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} check${failures === 1 ? "" : "s"} failed`);
+    process.exit(1);
+  }
+  console.log("\n✅ All permission checks passed");
+}
+
+checkPermissions().catch((error) => {
+  console.error("Permission check failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,406 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as zlib from "zlib";
+
+let failures = 0;
+
+function check(name: string, ok: boolean, detail?: string) {
+  console.log(`${ok ? "✅" : "❌"} ${name}${!ok && detail ? `: ${detail}` : ""}`);
+  if (!ok) failures++;
+}
+
+/** The error `fn` throws, undefined when it doesn't. */
+async function errorOf(fn: () => unknown): Promise<any> {
+  try {
+    await fn();
+    return undefined;
+  } catch (error) {
+    return error;
+  }
+}
+
+// Reads an archive back through its central directory, like unzip does
+function readZip(archive: Buffer): Record<string, Buffer> {
+  const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const files: Record<string, Buffer> = {};
+  let offset = archive.readUInt32LE(end + 16);
+  for (let index = 0; index < archive.readUInt16LE(end + 10); index++) {
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const local = archive.readUInt32LE(offset + 42);
+    const name = archive.subarray(offset + 46, offset + 46 + nameLength).toString("utf-8");
+    const start = local + 30 + archive.readUInt16LE(local + 26) + archive.readUInt16LE(local + 28);
+    const data = archive.subarray(start, start + compressedSize);
+    files[name] = method === 8 ? zlib.inflateRawSync(data) : data;
+    offset += 46 + nameLength + archive.readUInt16LE(offset + 30) + archive.readUInt16LE(offset + 32);
+  }
+  return files;
+}
+
+function lines(count: number, changed: Record<number, string> = {}) {
+  return Array.from({ length: count }, (_, index) => changed[index + 1] ?? `line ${index + 1}`).join("\n") + "\n";
+}
+
+/**
+ * Checks what the app does with a generated project's files: diffs of
+ * Claude's edits, the file explorer, the code editor, the project's
+ * history and exports, on code jobs made up in place
+ * without running any of them:
+ *
+ *   npx tsx scripts/check-projects.ts
+ */
+async function checkProjects() {
+  // Jobs and workspaces of the checks must not end up in the app's own state
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "lovable-projects-"));
+  process.env.LOVABLE_DATA_DIR = dataDir;
+
+  // Imported after the environment is set, the store reads it when it loads
+  const { diffHunks, diffLines, formatUnifiedDiff, summarizeFileEdits, trackFileEdits } = await import("../lib/diff");
+  const {
+    JobNotFoundError,
+    JobRequestError,
+    MAX_PROJECT_FILE_BYTES,
+    getJobWorkspace,
+    listProjectFiles,
+    readProjectFile,
+    exportProjectZip,
+    forkProject,
+    getProjectHistory,
+    revertProject,
+    switchBranch,
+    writeProjectFile,
+    writeProjectFiles,
+  } = await import("../lib/jobs");
+  const { createZip } = await import("../lib/zip");
+  const { commitJobTurn } = await import("../lib/jobs/history");
+  const { createJob, getJob, updateJob } = await import("../lib/jobs/store");
+
+  // A code job that finished with `files` in its workspace
+  async function finishedJob(files: Record<string, string | Buffer> = {}, parentJobId?: string) {
+    const job = createJob("code", "Check projects", { parentJobId });
+    const finished = (await updateJob(job.id, { status: "succeeded", finishedAt: new Date().toISOString() }))!;
+    const workspace = getJobWorkspace(finished);
+    Object.entries(files).forEach(([file, content]) => {
+      fs.mkdirSync(path.dirname(path.join(workspace, file)), { recursive: true });
+      fs.writeFileSync(path.join(workspace, file), content);
+    });
+    return finished;
+  }
+
+  try {
+    console.log("1. Diffs of file edits...");
+    const changed = diffLines("a\nb\nc\n", "a\nB\nc\nd\n");
+    check(
+      "changed lines are removed and added",
+      changed.map((line) => `${line.type} ${line.text} ${line.oldNumber ?? "-"} ${line.newNumber ?? "-"}`).join(", ") ===
+        "context a 1 1, removed b 2 -, added B - 2, context c 3 3, added d - 4",
+      JSON.stringify(changed)
+    );
+    check(
+      "unified diffs are printed like diff -u",
+      formatUnifiedDiff("index.html", "a\nb\nc\n", "a\nB\nc\n") ===
+        "--- a/index.html\n+++ b/index.html\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c"
+    );
+    const apart = diffHunks(diffLines(lines(30), lines(30, { 2: "first", 28: "last" })));
+    check(
+      "changes far apart get hunks of their own",
+      apart.length === 2 && apart[0].oldStart === 1 && apart[1].oldStart === 25 && apart[1].oldLines === 6,
+      JSON.stringify(apart.map(({ oldStart, oldLines }) => ({ oldStart, oldLines })))
+    );
+    check("changes close together share a hunk", diffHunks(diffLines(lines(30), lines(30, { 10: "a", 15: "b" }))).length === 1);
+
+    const events = [
+      { type: "tool_use", id: "write", name: "Write", input: { file_path: "/w/index.html", content: "<h1>Hi</h1>\n" } },
+      { type: "tool_result", toolUseId: "write", content: "File created" },
+      {
+        type: "tool_use",
+        id: "edit",
+        name: "Edit",
+        input: { file_path: "/w/index.html", old_string: "Hi", new_string: "Hello" },
+      },
+      { type: "tool_result", toolUseId: "edit", content: "File updated" },
+      {
+        type: "tool_use",
+        id: "failed",
+        name: "Edit",
+        input: { file_path: "/w/index.html", old_string: "Hello", new_string: "Bye" },
+      },
+      { type: "tool_result", toolUseId: "failed", content: "Permission denied", isError: true },
+      { type: "tool_use", id: "read", name: "Read", input: { file_path: "/w/style.css" } },
+      { type: "tool_result", toolUseId: "read", content: "     1→h1 {\n     2→  color: red;\n     3→}" },
+      {
+        type: "tool_use",
+        id: "style",
+        name: "Edit",
+        input: { file_path: "/w/style.css", old_string: "red", new_string: "blue" },
+      },
+      {
+        type: "tool_use",
+        id: "unseen",
+        name: "Edit",
+        input: { file_path: "/w/app.js", old_string: "let a = 1;", new_string: "const a = 1;" },
+      },
+    ];
+    const edits = trackFileEdits(events);
+    const [write, edit, failed, style, unseen] = ["write", "edit", "failed", "style", "unseen"].map((id) =>
+      edits.get(events.find((event) => event.type === "tool_use" && event.id === id)!)
+    );
+    check("a new file is created in full", !!write?.created && !write.partial && write.added === 1 && write.removed === 0);
+    check(
+      "an edit is diffed against the version written before",
+      !!edit && !edit.partial && edit.before === "<h1>Hi</h1>\n" && edit.after === "<h1>Hello</h1>\n"
+    );
+    check("a failed edit is marked failed", !!failed?.failed);
+    check(
+      "a file read in full is diffed whole",
+      !!style && !style.partial && style.after === "h1 {\n  color: blue;\n}\n" && style.added === 1 && style.removed === 1
+    );
+    check("a file never seen is diffed on the replaced text only", !!unseen?.partial && unseen.added === 1);
+
+    const summary = summarizeFileEdits(Array.from(edits.values()));
+    const page = summary.find((file) => file.path === "/w/index.html");
+    check(
+      "the edits of a file are summed up without the failed one",
+      summary.map((file) => file.path).join() === "/w/index.html,/w/style.css,/w/app.js" &&
+        page?.edits === 2 &&
+        page.created &&
+        page.added === 1 &&
+        page.hunks[0]?.lines[0]?.text === "<h1>Hello</h1>",
+      JSON.stringify(page)
+    );
+
+    console.log("\n2. File explorer...");
+    const outside = path.join(dataDir, "secret.txt");
+    fs.writeFileSync(outside, "not part of the project");
+    const explored = await finishedJob({
+      "index.html": "<h1>Hello</h1>\n",
+      "src/app.js": "console.log('hi');\n",
+      "logo.png": Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 0, 0, 0]),
+      "node_modules/left-pad/index.js": "module.exports = {};\n",
+      ".env": "SECRET=1\n",
+      ".attachments/mockup.png": "png",
+    });
+    fs.symlinkSync(outside, path.join(getJobWorkspace(explored), "secret.txt"));
+    const listed = await listProjectFiles(explored.id);
+    check(
+      "installed packages, hidden files and symlinks are not listed",
+      listed.files.join() === "index.html,logo.png,src/app.js" && listed.root === getJobWorkspace(explored),
+      listed.files.join()
+    );
+    const source = await readProjectFile(explored.id, "src/app.js");
+    check("a file is read", source.content === "console.log('hi');\n" && source.size === 19);
+    const logo = await readProjectFile(explored.id, "logo.png");
+    check("binary files are read without their content", logo.content === undefined && logo.size === 8);
+    for (const [name, file] of [
+      ["paths out of the project are refused", "../../secret.txt"],
+      ["absolute paths are refused", outside],
+      ["hidden files are refused", ".env"],
+      ["files in hidden directories are refused", ".attachments/mockup.png"],
+    ]) {
+      const error = await errorOf(() => readProjectFile(explored.id, file));
+      check(name, error instanceof JobRequestError, error?.message);
+    }
+    for (const [name, file] of [
+      ["a symlink out of the project is not read", "secret.txt"],
+      ["a missing file is not found", "missing.html"],
+    ]) {
+      const error = await errorOf(() => readProjectFile(explored.id, file));
+      check(name, error instanceof JobNotFoundError, error?.message);
+    }
+
+    console.log("\n3. Code editor...");
+    const outsideDir = path.join(dataDir, "elsewhere");
+    fs.mkdirSync(outsideDir);
+    const edited = await finishedJob({ "index.html": "<h1>Hello</h1>\n" });
+    const workspace = getJobWorkspace(edited);
+    fs.symlinkSync(outside, path.join(workspace, "linked.txt"));
+    fs.symlinkSync(outsideDir, path.join(workspace, "linked"));
+    fs.symlinkSync(path.join(outsideDir, "created.txt"), path.join(workspace, "dangling.txt"));
+
+    const saved = await writeProjectFile(edited.id, "index.html", "<h1>Hello again</h1>\n");
+    check(
+      "a file is saved",
+      saved.file.content === "<h1>Hello again</h1>\n" &&
+        fs.readFileSync(path.join(workspace, "index.html"), "utf-8") === "<h1>Hello again</h1>\n"
+    );
+    const [manualEdit] = getJob(edited.id)?.manualEdits || [];
+    check(
+      "the edit is recorded for the next follow-up",
+      manualEdit?.path === "index.html" && manualEdit.diff.includes("-<h1>Hello</h1>\n+<h1>Hello again</h1>"),
+      JSON.stringify(manualEdit)
+    );
+
+    for (const [name, file, content] of [
+      ["writes to .git are refused", ".git/config", "[core]\n\tfsmonitor = touch /tmp/pwned\n"],
+      ["writes out of the project are refused", "../escaped.txt", "escaped"],
+      ["content that isn't text is refused", "index.html", 42],
+    ] as const) {
+      const error = await errorOf(() => writeProjectFile(edited.id, file, content));
+      check(name, error instanceof JobRequestError, error?.message);
+    }
+    const tooBig = await errorOf(() => writeProjectFile(edited.id, "index.html", "x".repeat(MAX_PROJECT_FILE_BYTES + 1)));
+    check("files that are too big are refused", tooBig?.status === 413, tooBig?.message);
+    for (const [name, file] of [
+      ["a symlinked file is not written through", "linked.txt"],
+      ["a symlinked directory is not written through", "linked/created.txt"],
+      ["a dangling symlink is not written through", "dangling.txt"],
+    ]) {
+      const error = await errorOf(() => writeProjectFile(edited.id, file, "written through"));
+      check(name, error instanceof JobNotFoundError, error?.message);
+    }
+    check(
+      "nothing outside the project changed",
+      fs.readFileSync(outside, "utf-8") === "not part of the project" && fs.readdirSync(outsideDir).length === 0
+    );
+
+    const running = await updateJob(createJob("code", "Check projects").id, { status: "running" });
+    const stillRunning = await errorOf(() => writeProjectFile(running!.id, "index.html", "too early"));
+    check("a running job's files can't be edited", stillRunning?.status === 409, stillRunning?.message);
+    const followUp = createJob("code", "Check projects", { parentJobId: edited.id });
+    await updateJob(followUp.id, { status: "running" });
+    const busy = await errorOf(() => writeProjectFile(edited.id, "index.html", "while Claude works on it"));
+    check("nor the files of a job whose follow-up is running", busy?.status === 409, busy?.message);
+    await updateJob(followUp.id, { status: "cancelled", finishedAt: new Date().toISOString() });
+    check(
+      "they can once it is done",
+      (await writeProjectFile(edited.id, "index.html", "<h1>Bye</h1>\n")).file.content === "<h1>Bye</h1>\n"
+    );
+
+    console.log("\n4. Project history...");
+    const first = await finishedJob({ "index.html": "<h1>First</h1>\n" });
+    const firstHash = await commitJobTurn(first, "succeeded");
+    const second = await finishedJob({}, first.id);
+    const indexFile = path.join(getJobWorkspace(first), "index.html");
+    fs.writeFileSync(indexFile, "<h1>Second</h1>\n");
+    const secondHash = await commitJobTurn(second, "succeeded");
+    let history = await getProjectHistory(second.id);
+    check(
+      "each turn is a commit on main",
+      history.branch === "main" &&
+        history.commits.map((commit) => commit.hash).join() === `${secondHash},${firstHash}` &&
+        history.commits[0].subject === "Follow-up: Check projects" &&
+        history.commits[1].jobId === first.id,
+      JSON.stringify(history)
+    );
+    check("a turn that changed nothing is not committed", (await commitJobTurn(second, "failed")) === undefined);
+    check("the follow-up shares its parent's history", (await getProjectHistory(first.id)).commits.length === 2);
+    check("the repository is kept out of the workspace", !fs.existsSync(path.join(getJobWorkspace(first), ".git")));
+
+    history = (await revertProject(second.id, firstHash)).history;
+    check(
+      "a revert restores the files with a commit on top",
+      fs.readFileSync(indexFile, "utf-8") === "<h1>First</h1>\n" &&
+        history.commits.length === 3 &&
+        history.commits[0].subject.startsWith(`Revert to ${firstHash!.slice(0, 7)}`),
+      JSON.stringify(history.commits[0])
+    );
+    check(
+      "the revert is recorded for the next follow-up",
+      getJob(second.id)?.manualEdits?.[0]?.diff.includes("+<h1>First</h1>") === true
+    );
+    const unknownCommit = await errorOf(() => revertProject(second.id, "0".repeat(40)));
+    check("an unknown commit is not found", unknownCommit instanceof JobNotFoundError, unknownCommit?.message);
+
+    history = (await forkProject(second.id, secondHash, "experiment")).history;
+    check(
+      "a fork starts a branch at the commit",
+      history.branch === "experiment" &&
+        history.branches.includes("main") &&
+        history.commits[0].hash === secondHash &&
+        fs.readFileSync(indexFile, "utf-8") === "<h1>Second</h1>\n",
+      JSON.stringify(history)
+    );
+    for (const [name, branch, status] of [
+      ["invalid branch names are refused", "../main", 400],
+      ["existing branches are refused", "main", 409],
+    ] as const) {
+      const error = await errorOf(() => forkProject(second.id, firstHash, branch));
+      check(name, error?.status === status, error?.message);
+    }
+
+    history = (await switchBranch(second.id, "main")).history;
+    check(
+      "switching back to main brings back its files",
+      history.branch === "main" && history.commits.length === 3 && fs.readFileSync(indexFile, "utf-8") === "<h1>First</h1>\n",
+      JSON.stringify(history)
+    );
+    const unknownBranch = await errorOf(() => switchBranch(second.id, "nowhere"));
+    check("an unknown branch is not found", unknownBranch instanceof JobNotFoundError, unknownBranch?.message);
+
+    console.log("\n5. Export...");
+    const entries = [
+      { path: "index.html", content: Buffer.from("<p>Hello</p>\n".repeat(100)) },
+      { path: "src/tiny.js", content: Buffer.from("1") },
+      { path: "src/empty.txt", content: Buffer.alloc(0) },
+      { path: "ünïcode.md", content: Buffer.from("# Ünïcode\n") },
+    ];
+    const archive = createZip(entries);
+    const unzipped = readZip(archive);
+    check(
+      "files come out of a zip as they went in",
+      Object.keys(unzipped).join() === entries.map((entry) => entry.path).join() &&
+        entries.every((entry) => unzipped[entry.path].equals(entry.content)),
+      Object.keys(unzipped).join()
+    );
+    check("compressible files are deflated", archive.length < entries[0].content.length);
+
+    const exported = await finishedJob({
+      "index.html": "<h1>Exported</h1>\n",
+      ".gitignore": "node_modules\n",
+      "node_modules/left-pad/index.js": "module.exports = {};\n",
+    });
+    const zip = await exportProjectZip(exported.id, { includeLog: true });
+    const name = `project-${exported.id.slice(0, 8)}`;
+    check(
+      "a project is exported in a directory of its own, with its dotfiles and log but no packages",
+      zip.fileName === `${name}.zip` &&
+        Object.keys(readZip(zip.content)).sort().join() ===
+          [`${name}/.gitignore`, `${name}/generation-log.json`, `${name}/index.html`].join(),
+      Object.keys(readZip(zip.content)).join()
+    );
+    const empty = await finishedJob();
+    const nothing = await errorOf(() => exportProjectZip(empty.id));
+    check("a project without files is not exported", nothing?.status === 409, nothing?.message);
+
+    const target = path.join(dataDir, "export");
+    const written = writeProjectFiles(entries, target);
+    check(
+      "files are written into a directory",
+      written.written.length === entries.length &&
+        entries.every((entry) => fs.readFileSync(path.join(target, entry.path)).equals(entry.content))
+    );
+    fs.writeFileSync(path.join(target, "src/tiny.js"), "2");
+    fs.writeFileSync(path.join(target, "local.txt"), "kept");
+    const synced = writeProjectFiles(entries, target);
+    check(
+      "writing again only changes what changed and keeps local files",
+      synced.written.join() === "src/tiny.js" &&
+        synced.unchanged === entries.length - 1 &&
+        fs.readFileSync(path.join(target, "local.txt"), "utf-8") === "kept",
+      JSON.stringify(synced)
+    );
+    const escaping = await errorOf(() =>
+      writeProjectFiles([{ path: "../escaped.txt", content: Buffer.from("x") }], target)
+    );
+    check(
+      "files out of the directory are refused",
+      !!escaping && !fs.existsSync(path.join(dataDir, "escaped.txt")),
+      escaping?.message
+    );
+  } finally {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} check${failures === 1 ? "" : "s"} failed`);
+    process.exit(1);
+  }
+  console.log("\n✅ All project checks passed");
+}
+
+checkProjects().catch((error) => {
+  console.error("Project check failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,219 @@
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, "../../.env") });
+
+// Cassettes the checks replay, recorded with --record
+const CASSETTE_DIR = path.join(__dirname, "..", "cassettes");
+
+const PROMPT = "Create a file hello.html with a page that shows the heading Hello from Lovable. Do nothing else.";
+
+// The component flow's cassette, recorded with check-sandbox-flows.ts --record component
+const COMPONENT_PROMPT = "A badge that shows the text Hello";
+
+let failures = 0;
+
+function check(name: string, ok: boolean, detail?: string) {
+  console.log(`${ok ? "✅" : "❌"} ${name}${!ok && detail ? `: ${detail}` : ""}`);
+  if (!ok) failures++;
+}
+
+/**
+ * Runs the code generation pipeline against a recorded Claude Code run, so
+ * it can be checked without network or API key. POST /api/generate-daytona
+ * replays in sandboxes of the fake Daytona client, offline like
+ * check-sandbox-flows.ts:
+ *
+ *   npx tsx scripts/check-replay.ts            # replay the cassettes
+ *   npx tsx scripts/check-replay.ts --record   # record them again (calls the API)
+ */
+async function checkReplay(record: boolean) {
+  // Jobs and workspaces of the checks must not end up in the app's own state
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "lovable-replay-"));
+  process.env.LOVABLE_DATA_DIR = dataDir;
+  process.env.CLAUDE_PROVIDER = "replay";
+  process.env.CLAUDE_CASSETTE_DIR = CASSETTE_DIR;
+  process.env.FAKE_DAYTONA_DIR = path.join(dataDir, "sandboxes");
+  process.env.FAKE_DAYTONA_OFFLINE = "1";
+  process.env.SANDBOX_PROVIDER = "daytona";
+  process.env.DAYTONA_FAKE = "1";
+  process.env.SANDBOX_POOL_SIZE = "0";
+  // Nothing listens there, so the component is published without a registry
+  process.env.OC_REGISTRY_URL = process.env.OC_REGISTRY_URL || "http://127.0.0.1:9/";
+  // The component script refuses to start without one, replays never use it
+  process.env.ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY || "replay";
+
+  // Imported after the environment is set, the store reads it when it loads
+  const { NextRequest } = await import("next/server");
+  const { cassetteFile, getClaudeProvider } = await import("../lib/claude-provider");
+  const { generateCodeWithClaude } = await import("../lib/claude-code");
+  const { createLineSplitter, eventsFromSdkMessage, parseEventLine, serializeEvent, validateEvent } =
+    await import("../lib/events");
+  const { getWorkspaceDir } = await import("../lib/permissions");
+  const { buildComponentPrompt } = await import("../lib/prompts");
+  const { getSandboxProvider } = await import("../lib/sandbox");
+  const { POST } = await import("../app/api/generate/route");
+  const { POST: POST_DAYTONA } = await import("../app/api/generate-daytona/route");
+
+  // Events of a job's event stream, and whether it ended with [DONE]
+  async function readEventStream(response: Response) {
+    const events: any[] = [];
+    let done = false;
+    const lines = createLineSplitter((line) => {
+      if (!line.startsWith("data: ")) return;
+      if (line === "data: [DONE]") {
+        done = true;
+      } else {
+        events.push(validateEvent(JSON.parse(line.slice(6))));
+      }
+    });
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    while (true) {
+      const { done: ended, value } = await reader.read();
+      if (ended) break;
+      lines.push(decoder.decode(value, { stream: true }));
+    }
+    lines.flush();
+    return { events, done };
+  }
+
+  function postJson(handler: (req: InstanceType<typeof NextRequest>) => Promise<Response>, url: string, body: unknown) {
+    return handler(
+      new NextRequest(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+    );
+  }
+
+  try {
+    if (record) {
+      console.log("1. Recording a Claude Code run (this calls the API)...");
+      const result = await generateCodeWithClaude(
+        PROMPT,
+        undefined,
+        undefined,
+        undefined,
+        getWorkspaceDir("record"),
+        getClaudeProvider("record", CASSETTE_DIR)
+      );
+      check("recorded run succeeded", result.success, result.error);
+      console.log(`✓ Cassette written: ${cassetteFile(CASSETTE_DIR, PROMPT)}`);
+    }
+
+    const file = cassetteFile(CASSETTE_DIR, PROMPT);
+    if (!fs.existsSync(file)) {
+      console.error(`ERROR: ${file} not found, record it with --record`);
+      process.exit(1);
+    }
+    const cassette = JSON.parse(fs.readFileSync(file, "utf-8"));
+    const recorded = cassette.entries.map((entry: any) => entry.message);
+
+    // Step 2: event parsing of every recorded message
+    console.log("\n2. Checking event parsing...");
+    const expectedEvents = recorded.flatMap(eventsFromSdkMessage);
+    let parseError: string | undefined;
+    for (const event of expectedEvents) {
+      try {
+        validateEvent(event);
+        if (JSON.stringify(parseEventLine(serializeEvent(event))) !== JSON.stringify(event)) {
+          parseError = `${event.type} changed in a serialize/parse round trip`;
+        }
+      } catch (error: any) {
+        parseError = error.message;
+      }
+    }
+    check(`${expectedEvents.length} events from ${recorded.length} messages are valid`, !parseError, parseError);
+
+    // Step 3: generateCodeWithClaude
+    console.log("\n3. Replaying generateCodeWithClaude...");
+    const workspace = getWorkspaceDir("replay");
+    const result = await generateCodeWithClaude(PROMPT, undefined, undefined, undefined, workspace);
+    check("generation succeeded", result.success, result.error);
+    check(
+      "messages match the cassette",
+      JSON.stringify(result.messages) === JSON.stringify(recorded),
+      `${result.messages.length} messages, ${recorded.length} recorded`
+    );
+    check("usage was reported", !!result.usage && result.usage.costUsd > 0);
+
+    // The last recorded content of each file is what the workspace must hold
+    const files = new Map<string, string | null>();
+    for (const entry of cassette.entries) {
+      for (const [name, content] of Object.entries(entry.files || {})) files.set(name, content as string | null);
+    }
+    files.forEach((content, name) => {
+      const target = path.join(workspace, name);
+      const actual = fs.existsSync(target) ? fs.readFileSync(target).toString("base64") : null;
+      check(`workspace file ${name} matches the recording`, actual === content);
+    });
+
+    // Step 4: POST /api/generate streams the same events
+    console.log("\n4. Replaying POST /api/generate...");
+    const response = await postJson(POST, "http://localhost/api/generate", { prompt: PROMPT });
+    check("response is a 200 event stream", response.status === 200);
+
+    const { events: streamed, done } = await readEventStream(response);
+    check("stream ends with [DONE]", done);
+    check("job completed", streamed.some((event) => event.type === "complete"));
+    const generated = streamed.filter((event) => event.type === "assistant_text" || event.type === "tool_use");
+    const expected = expectedEvents.filter((event: any) => event.type === "assistant_text" || event.type === "tool_use");
+    check(
+      "streamed assistant text and tool calls match the cassette",
+      JSON.stringify(generated) === JSON.stringify(expected),
+      `${generated.length} streamed, ${expected.length} recorded`
+    );
+
+    // Step 5: POST /api/generate-daytona runs the component flow in a sandbox
+    console.log("\n5. Replaying POST /api/generate-daytona...");
+    const componentFile = cassetteFile(CASSETTE_DIR, buildComponentPrompt(COMPONENT_PROMPT));
+    const componentRecorded = JSON.parse(fs.readFileSync(componentFile, "utf-8")).entries.map((entry: any) => entry.message);
+    const componentResponse = await postJson(POST_DAYTONA, "http://localhost/api/generate-daytona", {
+      prompt: COMPONENT_PROMPT,
+    });
+    check("response is a 200 event stream", componentResponse.status === 200);
+
+    const component = await readEventStream(componentResponse);
+    check("stream ends with [DONE]", component.done);
+    const failed = component.events.find((event) => event.type === "error");
+    check("job completed", component.events.some((event) => event.type === "complete"), failed?.message);
+    check(
+      "component was published",
+      component.events.some((event) => event.type === "artifact" && event.kind === "component")
+    );
+    const componentText = component.events.flatMap((event) => (event.type === "assistant_text" ? [event.text] : []));
+    const recordedText = componentRecorded
+      .flatMap(eventsFromSdkMessage)
+      .flatMap((event: any) => (event.type === "assistant_text" ? [event.text] : []));
+    check(
+      "streamed assistant text matches the cassette",
+      JSON.stringify(componentText) === JSON.stringify(recordedText),
+      `${componentText.length} streamed, ${recordedText.length} recorded`
+    );
+  } finally {
+    // Stops servers the component flow left running in its sandbox
+    const provider = getSandboxProvider();
+    for (const sandbox of await provider.list()) {
+      await provider.remove(sandbox.id);
+    }
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} check${failures === 1 ? "" : "s"} failed`);
+    process.exit(1);
+  }
+  console.log("\n✅ All replay checks passed");
+  // The job queue keeps timers of the finished job around
+  process.exit(0);
+}
+
+checkReplay(process.argv.includes("--record")).catch((error) => {
+  console.error("Replay check failed:", error);
+  process.exit(1);
+});
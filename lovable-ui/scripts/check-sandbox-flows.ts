@@ -0,0 +1,139 @@
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, "../../.env") });
+
+// Shared with check-replay.ts, recorded with --record
+const CASSETTE_DIR = path.join(__dirname, "..", "cassettes");
+
+// Generous, the flows install packages and start servers in the sandbox
+const FLOW_TIMEOUT_MS = 30 * 60 * 1000;
+
+type Flow = "website" | "component";
+
+// `steps` is how many numbered steps ("3. Choosing component name...") the script logs
+const FLOWS: Record<Flow, { prompt: string; stages: string[]; artifacts: string[]; steps: number }> = {
+  website: {
+    prompt: "A single page that shows the heading Hello from Lovable",
+    stages: ["sandbox", "scaffold", "toolchain", "generate", "build", "preview"],
+    artifacts: ["sandbox", "preview"],
+    steps: 11,
+  },
+  component: {
+    prompt: "A badge that shows the text Hello",
+    stages: ["sandbox", "toolchain", "scaffold", "generate", "build", "publish", "preview"],
+    artifacts: ["sandbox", "component"],
+    steps: 10,
+  },
+};
+
+let failures = 0;
+
+function check(name: string, ok: boolean, detail?: string) {
+  console.log(`${ok ? "✅" : "❌"} ${name}${!ok && detail ? `: ${detail}` : ""}`);
+  if (!ok) failures++;
+}
+
+/** Numbered steps ("3. Choosing component name...") the script logged, in order. */
+function loggedSteps(logs: string[]) {
+  return logs
+    .map((message) => /^(\d+)\. /.exec(message.trim()))
+    .filter((match): match is RegExpExecArray => !!match)
+    .map((match) => Number(match[1]));
+}
+
+/**
+ * Drives the sandbox generator scripts end to end through the job queue,
+ * with sandboxes from the fake Daytona client and Claude Code replaying
+ * cassettes, so no Daytona account, API key or network is needed:
+ *
+ *   npx tsx scripts/check-sandbox-flows.ts [website] [component]
+ *   npx tsx scripts/check-sandbox-flows.ts --record component   # calls the API
+ *
+ * Replays run offline: npm and oc in the sandboxes are the stubs of
+ * FAKE_DAYTONA_OFFLINE, so nothing is installed and components are published
+ * without a registry. Recordings install packages from npm for real, and the
+ * component flow publishes to the registry (start it with `npm run oc:start`).
+ */
+async function checkSandboxFlows(flows: Flow[], record: boolean) {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "lovable-flows-"));
+  process.env.LOVABLE_DATA_DIR = dataDir;
+  process.env.FAKE_DAYTONA_DIR = path.join(dataDir, "sandboxes");
+  process.env.SANDBOX_PROVIDER = "daytona";
+  process.env.DAYTONA_FAKE = "1";
+  process.env.SANDBOX_POOL_SIZE = "0";
+  process.env.CLAUDE_PROVIDER = record ? "record" : "replay";
+  process.env.CLAUDE_CASSETTE_DIR = CASSETTE_DIR;
+  if (!record) {
+    // The scripts refuse to start without one, replays never use it
+    process.env.ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY || "replay";
+    process.env.FAKE_DAYTONA_OFFLINE = "1";
+    // Nothing listens there, so names are used as they are and nothing is published for real
+    process.env.OC_REGISTRY_URL = process.env.OC_REGISTRY_URL || "http://127.0.0.1:9/";
+  }
+
+  // Imported after the environment is set, the store reads it when it loads
+  const { getJob, isFinished, readJobEvents, submitJob } = await import("../lib/jobs");
+  const { getSandboxProvider } = await import("../lib/sandbox");
+
+  try {
+    for (let index = 0; index < flows.length; index++) {
+      const flow = flows[index];
+      const expected = FLOWS[flow];
+      console.log(`\n${index + 1}. Running the ${flow} flow${record ? " (recording, this calls the API)" : ""}...`);
+      const job = submitJob(flow, expected.prompt);
+
+      const startedAt = Date.now();
+      let current = job;
+      while (!isFinished(current.status)) {
+        if (Date.now() - startedAt > FLOW_TIMEOUT_MS) {
+          throw new Error(`The ${flow} flow did not finish within ${FLOW_TIMEOUT_MS / 60000} minutes`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+        current = getJob(job.id)!;
+      }
+
+      const events = readJobEvents(job.id).map((record) => record.event);
+      check(`${flow} job succeeded`, current.status === "succeeded", current.error?.message);
+
+      const started = events.flatMap((event) => (event.type === "stage_started" ? [event.stage as string] : []));
+      const missing = expected.stages.filter((stage) => !started.includes(stage));
+      check(`${flow} ran every stage`, missing.length === 0, `missing ${missing.join(", ")}`);
+      const order = started.filter((stage, i) => expected.stages.includes(stage) && started.indexOf(stage) === i);
+      check(`${flow} stages ran in order`, order.join() === expected.stages.join(), order.join(" → "));
+
+      const artifacts = events.flatMap((event) => (event.type === "artifact" ? [event.kind as string] : []));
+      const missingArtifacts = expected.artifacts.filter((kind) => !artifacts.includes(kind));
+      check(`${flow} reported its artifacts`, missingArtifacts.length === 0, `missing ${missingArtifacts.join(", ")}`);
+      check(`${flow} completed`, events.some((event) => event.type === "complete"));
+
+      const steps = loggedSteps(events.flatMap((event) => (event.type === "log" ? [event.message] : [])));
+      const allSteps = Array.from({ length: expected.steps }, (_, i) => i + 1);
+      check(`${flow} script logged its ${expected.steps} steps in order`, steps.join() === allSteps.join(), steps.join(", "));
+    }
+  } finally {
+    // Stops servers the flows left running in their sandboxes
+    const provider = getSandboxProvider();
+    for (const sandbox of await provider.list()) {
+      await provider.remove(sandbox.id);
+    }
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} check${failures === 1 ? "" : "s"} failed`);
+    process.exit(1);
+  }
+  console.log("\n✅ All sandbox flow checks passed");
+  process.exit(0);
+}
+
+const args = process.argv.slice(2);
+const flows = args.filter((arg): arg is Flow => arg in FLOWS);
+checkSandboxFlows(flows.length > 0 ? flows : ["website", "component"], args.includes("--record")).catch((error) => {
+  console.error("Sandbox flow check failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,134 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+let failures = 0;
+
+function check(name: string, ok: boolean, detail?: string) {
+  console.log(`${ok ? "✅" : "❌"} ${name}${!ok && detail ? `: ${detail}` : ""}`);
+  if (!ok) failures++;
+}
+
+async function isServing(url: string) {
+  try {
+    await fetch(url, { signal: AbortSignal.timeout(1000) });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function waitUntilServing(url: string, timeoutMs = 10000) {
+  const startedAt = Date.now();
+  while (!(await isServing(url))) {
+    if (Date.now() - startedAt > timeoutMs) return false;
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+  return true;
+}
+
+/**
+ * Checks the lifecycle of sandboxes: the warm pool fills with provisioned
+ * sandboxes and hands them out, and the reaper removes idle local process
+ * sandboxes together with the servers they left running. The pool uses the
+ * offline fake Daytona, so nothing leaves this machine:
+ *
+ *   npx tsx scripts/check-sandboxes.ts
+ */
+async function checkSandboxes() {
+  // Sandboxes and the inventory of the checks must not end up in the app's own state
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "lovable-sandboxes-"));
+  process.env.LOVABLE_DATA_DIR = dataDir;
+  process.env.LOCAL_SANDBOX_DIR = path.join(dataDir, "local");
+  process.env.LOCAL_SANDBOX_DRIVER = "process";
+  process.env.DAYTONA_FAKE = "1";
+  process.env.FAKE_DAYTONA_DIR = path.join(dataDir, "fake-daytona");
+  process.env.FAKE_DAYTONA_OFFLINE = "1";
+
+  // Imported after the environment is set, the store reads it when it loads
+  const { DaytonaSandboxProvider, SandboxPool, getSandboxProvider, hasToolchain } = await import("../lib/sandbox");
+  const { getSandboxRecord, reapIdleSandboxes, recordSandbox } = await import("../lib/sandbox/inventory");
+
+  const local = getSandboxProvider("local");
+  const daytona = getSandboxProvider("daytona");
+  const logs: string[] = [];
+  const log = (message: string) => logs.push(message);
+
+  try {
+    console.log("1. Warm sandbox pool...");
+    const pool = new SandboxPool(daytona, 2);
+    const filled = await pool.fill(2, log);
+    check("the pool fills to its size", filled.length === 2 && pool.status().ready.length === 2, logs.join("\n"));
+    check(
+      "pooled sandboxes are in the inventory as pooled",
+      filled.every((entry) => getSandboxRecord(entry.id)?.status === "pooled")
+    );
+    check("refilling a full pool adds nothing", (await pool.fill(2, log)).length === 0);
+
+    const warm = await pool.acquire();
+    check("a ready sandbox is handed out", !!warm && filled.some((entry) => entry.id === warm.id));
+    check("it has the toolchain", !!warm && (await hasToolchain(warm)));
+    check("it is active once handed out", !!warm && getSandboxRecord(warm.id)?.status === "active");
+    check("it left the pool", pool.status().ready.length === 1);
+
+    // Removed behind the pool's back, e.g. by hand in the Daytona dashboard
+    const [left] = pool.status().ready;
+    await new DaytonaSandboxProvider().remove(left.id);
+    check(
+      "a pooled sandbox that is gone is skipped",
+      (await pool.acquire()) === null && pool.status().ready.length === 0
+    );
+
+    await pool.fill(1, log);
+    const drained = await pool.drain();
+    check("draining removes the ready sandboxes", drained.length === 1 && pool.status().ready.length === 0);
+    check("drained sandboxes are marked removed", getSandboxRecord(drained[0])?.status === "removed");
+
+    console.log("\n2. Reaping idle sandboxes...");
+    const idle = await local.create();
+    const url = (await idle.getPreviewLink(idle.previewPort)).url;
+    // Like the generator scripts start dev servers
+    await idle.exec(
+      `nohup node -e "require('http').createServer((req, res) => res.end('ok')).listen(${idle.previewPort})" > server.log 2>&1 &`
+    );
+    check("the sandbox serves its preview", await waitUntilServing(url), url);
+
+    const pooled = await local.create({ labels: { purpose: "pool" } });
+    await recordSandbox("already-gone", local.name, { status: "active" });
+
+    // Everything counts as idle with a negative TTL
+    const reaped = (await reapIdleSandboxes(local, -1, { log })).map((record) => record.id);
+    check("the idle sandbox is reaped", reaped.includes(idle.id), logs.join("\n"));
+    check("its server is stopped", !(await isServing(url)), url);
+    check("it is marked removed", getSandboxRecord(idle.id)?.status === "removed");
+    check("its directory is gone", !fs.existsSync(path.join(dataDir, "local", idle.id)));
+    check(
+      "pooled sandboxes are left alone",
+      !reaped.includes(pooled.id) && getSandboxRecord(pooled.id)?.status === "pooled"
+    );
+    check(
+      "a sandbox that is already gone is marked removed",
+      reaped.includes("already-gone") && getSandboxRecord("already-gone")?.status === "removed",
+      logs.join("\n")
+    );
+    check("nothing is reaped twice", (await reapIdleSandboxes(local, -1, { log })).length === 0);
+  } finally {
+    for (const provider of [local, daytona]) {
+      for (const sandbox of await provider.list()) {
+        await provider.remove(sandbox.id);
+      }
+    }
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} check${failures === 1 ? "" : "s"} failed`);
+    process.exit(1);
+  }
+  console.log("\n✅ All sandbox checks passed");
+}
+
+checkSandboxes().catch((error) => {
+  console.error("Sandbox check failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,95 @@
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  GENERATION_LOG_FILE,
+  collectProjectFiles,
+  openSandboxProject,
+  readAllProjectFiles,
+  writeProjectFiles,
+} from "../lib/jobs";
+import { downloadTranscript, getSandboxProvider, requiresDaytonaApiKey } from "../lib/sandbox";
+import { createZip, type ZipEntry } from "../lib/zip";
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, "../../.env") });
+
+function getFlag(args: string[], name: string) {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+// A sandbox that no job knows about, e.g. one made by the generate scripts
+async function collectSandboxFiles(sandboxId: string, componentName: string | undefined, includeLog: boolean) {
+  if (requiresDaytonaApiKey() && !process.env.DAYTONA_API_KEY) {
+    throw new Error("DAYTONA_API_KEY must be set");
+  }
+  const project = await openSandboxProject(sandboxId, componentName);
+  const files = await readAllProjectFiles(project);
+  if (files.length === 0) {
+    throw new Error(`${project.root} in sandbox ${sandboxId} has no files`);
+  }
+  if (includeLog) {
+    // A sandbox only keeps the transcript of its last run
+    const sandbox = await getSandboxProvider().get(sandboxId);
+    const transcript = await downloadTranscript(sandbox, await sandbox.getUserRootDir());
+    if (transcript) {
+      files.push({ path: GENERATION_LOG_FILE, content: Buffer.from(JSON.stringify(transcript, null, 2)) });
+    }
+  }
+  return { name: componentName || `website-${sandboxId.slice(0, 8)}`, files };
+}
+
+function saveZip(name: string, files: ZipEntry[], zipPath: string) {
+  const content = createZip(files.map((file) => ({ path: `${name}/${file.path}`, content: file.content })));
+  fs.mkdirSync(path.dirname(path.resolve(zipPath)), { recursive: true });
+  fs.writeFileSync(zipPath, content);
+  console.log(`✓ Exported ${files.length} files to ${zipPath} (${(content.length / 1024).toFixed(1)} KB)`);
+}
+
+function syncDirectory(files: ZipEntry[], dir: string) {
+  const { written, unchanged } = writeProjectFiles(files, dir);
+  for (const file of written) {
+    console.log(`   ${file}`);
+  }
+  console.log(`✓ Wrote ${written.length} files to ${dir}, ${unchanged} already up to date`);
+}
+
+function printUsage() {
+  console.error("Usage: npx tsx scripts/export-project.ts <job-id> [--zip <file>] [--dir <directory>] [--log]");
+  console.error("       npx tsx scripts/export-project.ts --sandbox <sandbox-id> [--component <name>] [--zip <file>] [--dir <directory>] [--log]");
+  console.error("");
+  console.error("Packs the project into <name>.zip unless --dir is given, which writes the files");
+  console.error("into the directory instead. Local files the project doesn't have are kept.");
+  console.error(`--log adds Claude Code's transcript as ${GENERATION_LOG_FILE}.`);
+}
+
+// Main execution
+async function main() {
+  const args = process.argv.slice(2);
+  const sandboxId = getFlag(args, "--sandbox");
+  const jobId = args[0] && !args[0].startsWith("--") ? args[0] : undefined;
+  if (!jobId === !sandboxId) {
+    printUsage();
+    process.exit(1);
+  }
+  const includeLog = args.includes("--log");
+  const dir = getFlag(args, "--dir");
+
+  try {
+    const { name, files } = sandboxId
+      ? await collectSandboxFiles(sandboxId, getFlag(args, "--component"), includeLog)
+      : await collectProjectFiles(jobId!, { includeLog });
+    if (dir) {
+      syncDirectory(files, dir);
+    }
+    if (!dir || getFlag(args, "--zip")) {
+      saveZip(name, files, getFlag(args, "--zip") || `${name}.zip`);
+    }
+  } catch (error: any) {
+    console.error("Export failed:", error.message);
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,206 +1,228 @@
-import { Daytona } from "@daytonaio/sdk";
 import * as dotenv from "dotenv";
 import * as path from "path";
+import {
+  JOB_ID_ENV,
+  createEventEmitter,
+  createStageTracker,
+  forwardRunnerOutput,
+} from "../lib/event-emitter";
+import { DEFAULT_WEBSITE_PROMPT, buildFollowUpPrompt, buildWebsitePrompt, withAttachments } from "../lib/prompts";
+import {
+  acquireSandbox,
+  ensureToolchain,
+  getSandboxProvider,
+  parseFollowUpArgs,
+  recordSandbox,
+  requiresDaytonaApiKey,
+  runGenerationJob,
+  stopGenerationOnTermination,
+  uploadAttachments,
+  verifyWithRepairs,
+  WEBSITE_PROJECT_DIR,
+  type ExecResult,
+  type FollowUp,
+  type GenerationJob,
+  type Sandbox,
+} from "../lib/sandbox";
+import { getProcessAttachments } from "../lib/attachments";
+import { getProcessGenerationOptions, toQueryOptions } from "../lib/generation-options";
+import { createBudget } from "../lib/usage";
+import { appendTranscript } from "../lib/jobs/store";
+import type { SDKMessage } from "@anthropic-ai/claude-code";
 
 // Load environment variables
 dotenv.config({ path: path.join(__dirname, "../../.env") });
 
+/** Installs the project's dependencies. Fails with the output Claude needs to fix package.json. */
+async function installDependencies(sandbox: Sandbox, projectDir: string): Promise<ExecResult> {
+  const npmInstall = await sandbox.exec(
+    "npm install",
+    projectDir,
+    undefined,
+    300000 // 5 minute timeout
+  );
+  if (npmInstall.exitCode !== 0) {
+    return { exitCode: npmInstall.exitCode, result: `npm install failed:\n${npmInstall.result}` };
+  }
+  console.log("✓ Dependencies installed");
+  return { exitCode: 0, result: "" };
+}
+
+/**
+ * Makes sure the dev server serves the home page and type-checks the
+ * project. Fails with the output Claude needs to fix it.
+ */
+async function checkWebsite(sandbox: Sandbox, projectDir: string): Promise<ExecResult> {
+  // Repairs may change package.json, installing again is quick when they didn't
+  const installed = await installDependencies(sandbox, projectDir);
+  if (installed.exitCode !== 0) {
+    return installed;
+  }
+
+  const port = sandbox.previewPort;
+  const running = await sandbox.exec(
+    `curl -s -o /dev/null -w '%{http_code}' http://localhost:${port} || echo 'failed'`,
+    projectDir
+  );
+
+  if (running.result?.trim() === "200") {
+    // The dev server of an earlier run hot reloads the changes
+    console.log("✓ Server already running");
+  } else if (running.result?.trim().endsWith("failed")) {
+    // curl prints 000 before failing when nothing listens yet
+    // Start the server in background using nohup
+    await sandbox.exec(
+      `nohup npm run dev > dev-server.log 2>&1 &`,
+      projectDir,
+      { PORT: String(port) }
+    );
+    console.log("✓ Server started in background");
+  }
+
+  // Wait for the server to initialize and compile the home page
+  console.log("Waiting for server to start...");
+  let status = "";
+  for (let i = 0; i < 10; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 3000));
+    const checkServer = await sandbox.exec(
+      `curl -s -o /dev/null -w '%{http_code}' http://localhost:${port} || echo 'failed'`,
+      projectDir
+    );
+    status = checkServer.result?.trim();
+    if (!status.endsWith("failed")) break;
+  }
+
+  if (status !== "200") {
+    const serverLog = await sandbox.exec("tail -n 60 dev-server.log", projectDir);
+    return { exitCode: 1, result: `The dev server answered ${status} for /:\n${serverLog.result}` };
+  }
+
+  // next-env.d.ts only exists once the dev server has run, so type-check last
+  const typeCheck = await sandbox.exec(
+    "test ! -f tsconfig.json || npx --no-install tsc --noEmit",
+    projectDir,
+    undefined,
+    180000 // 3 minute timeout
+  );
+  if (typeCheck.exitCode !== 0) {
+    return { exitCode: typeCheck.exitCode, result: `TypeScript errors:\n${typeCheck.result}` };
+  }
+  return { exitCode: 0, result: "" };
+}
+
 async function generateWebsiteInDaytona(
   sandboxIdArg?: string,
-  prompt?: string
+  prompt?: string,
+  followUp?: FollowUp
 ) {
-  console.log("🚀 Starting website generation in Daytona sandbox...\n");
+  console.log("🚀 Starting website generation in sandbox...\n");
 
-  if (!process.env.DAYTONA_API_KEY || !process.env.ANTHROPIC_API_KEY) {
+  if (!process.env.ANTHROPIC_API_KEY || (requiresDaytonaApiKey() && !process.env.DAYTONA_API_KEY)) {
     console.error("ERROR: DAYTONA_API_KEY and ANTHROPIC_API_KEY must be set");
     process.exit(1);
   }
 
-  const daytona = new Daytona({
-    apiKey: process.env.DAYTONA_API_KEY,
-  });
-
-  let sandbox;
+  const options = getProcessGenerationOptions("website");
+  const budget = createBudget();
+  const emit = budget.track(createEventEmitter());
+  const stages = createStageTracker(emit);
+  const jobId = process.env[JOB_ID_ENV];
+  // Transcripts are kept with the job, standalone runs have nowhere to keep them
+  const saveTranscript = async (label: string, messages: SDKMessage[]) => {
+    if (jobId) await appendTranscript(jobId, label, messages);
+  };
+
+  let sandbox: Sandbox | undefined;
   let sandboxId = sandboxIdArg;
+  stopGenerationOnTermination(() => sandbox);
 
   try {
     // Step 1: Create or get sandbox
+    stages.start("sandbox", "Preparing sandbox");
+    const provider = getSandboxProvider();
     if (sandboxId) {
       console.log(`1. Using existing sandbox: ${sandboxId}`);
-      // Get existing sandbox
-      const sandboxes = await daytona.list();
-      sandbox = sandboxes.find((s: any) => s.id === sandboxId);
-      if (!sandbox) {
-        throw new Error(`Sandbox ${sandboxId} not found`);
-      }
+      sandbox = await provider.get(sandboxId);
+      await recordSandbox(sandbox.id, provider.name, { purpose: "website", prompt, jobId });
       console.log(`✓ Connected to sandbox: ${sandbox.id}`);
     } else {
-      console.log("1. Creating new Daytona sandbox...");
-      sandbox = await daytona.create({
-        public: true,
-        image: "node:20",
-      });
+      console.log(`1. Acquiring ${provider.name} sandbox...`);
+      sandbox = await acquireSandbox(provider, { purpose: "website", prompt, jobId });
       sandboxId = sandbox.id;
-      console.log(`✓ Sandbox created: ${sandboxId}`);
     }
 
+    emit({ type: "artifact", kind: "sandbox", sandboxId: sandbox.id });
+
     // Get the root directory
     const rootDir = await sandbox.getUserRootDir();
     console.log(`✓ Working directory: ${rootDir}`);
 
     // Step 2: Create project directory
     console.log("\n2. Setting up project directory...");
-    const projectDir = `${rootDir}/website-project`;
-    await sandbox.process.executeCommand(`mkdir -p ${projectDir}`, rootDir);
-    console.log(`✓ Created project directory: ${projectDir}`);
-
-    // Step 3: Initialize npm project
-    console.log("\n3. Initializing npm project...");
-    await sandbox.process.executeCommand("npm init -y", projectDir);
-    console.log("✓ Package.json created");
-
-    // Step 4: Install Claude Code SDK locally in project
-    console.log("\n4. Installing Claude Code SDK locally...");
-    const installResult = await sandbox.process.executeCommand(
-      "npm install @anthropic-ai/claude-code@latest",
-      projectDir,
-      undefined,
-      180000 // 3 minute timeout
-    );
+    stages.start("scaffold", "Setting up project directory");
+    const projectDir = `${rootDir}/${WEBSITE_PROJECT_DIR}`;
+    const existing = await sandbox.exec(`test -f ${projectDir}/package.json && echo yes || echo no`, rootDir);
+    const isFollowUp = !!followUp && existing.result.trim() === "yes";
+
+    if (isFollowUp) {
+      console.log(`✓ Continuing existing project: ${projectDir}`);
+    } else {
+      await sandbox.exec(`mkdir -p ${projectDir}`, rootDir);
+      console.log(`✓ Created project directory: ${projectDir}`);
 
-    if (installResult.exitCode !== 0) {
-      console.error("Installation failed:", installResult.result);
-      throw new Error("Failed to install Claude Code SDK");
+      // Step 3: Initialize npm project
+      console.log("\n3. Initializing npm project...");
+      await sandbox.exec("npm init -y", projectDir);
+      console.log("✓ Package.json created");
     }
-    console.log("✓ Claude Code SDK installed");
+
+    // Step 4: Install Claude Code SDK in the sandbox root (no-op for pooled sandboxes)
+    console.log("\n4. Installing Claude Code SDK...");
+    stages.start("toolchain", "Installing Claude Code SDK");
+    await ensureToolchain(sandbox);
 
     // Verify installation
     console.log("\n5. Verifying installation...");
-    const checkInstall = await sandbox.process.executeCommand(
+    const checkInstall = await sandbox.exec(
       "ls -la node_modules/@anthropic-ai/claude-code",
-      projectDir
+      rootDir
     );
     console.log("Installation check:", checkInstall.result);
 
-    // Step 6: Create the generation script file
-    console.log("\n6. Creating generation script file...");
-
-    const generationScript = `const { query } = require('@anthropic-ai/claude-code');
-const fs = require('fs');
-
-async function generateWebsite() {
-  const prompt = \`${
-    prompt ||
-    "Create a modern blog website with markdown support and a dark theme"
-  }
-  
-  Important requirements:
-  - Create a NextJS app with TypeScript and Tailwind CSS
-  - Use the app directory structure
-  - Create all files in the current directory
-  - Include a package.json with all necessary dependencies
-  - Make the design modern and responsive
-  - Add at least a home page and one other page
-  - Include proper navigation between pages
-  \`;
-
-  console.log('Starting website generation with Claude Code...');
-  console.log('Working directory:', process.cwd());
-  
-  const messages = [];
-  const abortController = new AbortController();
-  
-  try {
-    for await (const message of query({
-      prompt: prompt,
-      abortController: abortController,
-      options: {
-        maxTurns: 20,
-        allowedTools: [
-          'Read',
-          'Write',
-          'Edit',
-          'MultiEdit',
-          'Bash',
-          'LS',
-          'Glob',
-          'Grep'
-        ]
-      }
-    })) {
-      messages.push(message);
-      
-      // Log progress
-      if (message.type === 'text') {
-        console.log('[Claude]:', (message.text || '').substring(0, 80) + '...');
-        console.log('__CLAUDE_MESSAGE__', JSON.stringify({ type: 'assistant', content: message.text }));
-      } else if (message.type === 'tool_use') {
-        console.log('[Tool]:', message.name, message.input?.file_path || '');
-        console.log('__TOOL_USE__', JSON.stringify({ 
-          type: 'tool_use', 
-          name: message.name, 
-          input: message.input 
-        }));
-      } else if (message.type === 'result') {
-        console.log('__TOOL_RESULT__', JSON.stringify({ 
-          type: 'tool_result', 
-          result: message.result 
-        }));
-      }
+    // Step 6: Upload the generation job
+    console.log("\n6. Uploading generation job...");
+    stages.start("generate", "Generating website with Claude Code");
+    const attachments = await uploadAttachments(sandbox, getProcessAttachments());
+    if (attachments.length > 0) {
+      console.log(`✓ Uploaded ${attachments.length} attached file${attachments.length === 1 ? "" : "s"}`);
     }
-    
-    console.log('\\nGeneration complete!');
-    console.log('Total messages:', messages.length);
-    
-    // Save generation log
-    fs.writeFileSync('generation-log.json', JSON.stringify(messages, null, 2));
-    
-    // List generated files
-    const files = fs.readdirSync('.').filter(f => !f.startsWith('.'));
-    console.log('\\nGenerated files:', files.join(', '));
-    
-  } catch (error) {
-    console.error('Generation error:', error);
-    console.error('Stack:', error.stack);
-    process.exit(1);
-  }
-}
-
-generateWebsite().catch(console.error);`;
-
-    // Write the script to a file
-    await sandbox.process.executeCommand(
-      `cat > generate.js << 'SCRIPT_EOF'
-${generationScript}
-SCRIPT_EOF`,
-      projectDir
-    );
-    console.log("✓ Generation script written to generate.js");
 
-    // Verify the script was created
-    const checkScript = await sandbox.process.executeCommand(
-      "ls -la generate.js && head -5 generate.js",
-      projectDir
-    );
-    console.log("Script verification:", checkScript.result);
+    const job: GenerationJob = {
+      kind: "website",
+      prompt: withAttachments(
+        isFollowUp ? buildFollowUpPrompt(prompt!, !!followUp?.sessionId) : buildWebsitePrompt(prompt),
+        attachments
+      ),
+      budgetUsd: budget.remaining(),
+      options: {
+        ...toQueryOptions(options),
+        resume: isFollowUp ? followUp?.sessionId : undefined,
+      },
+    };
 
-    // Step 7: Run the generation script
+    // Step 7: Run the generation job
     console.log("\n7. Running Claude Code generation...");
-    console.log(`Prompt: "${prompt || "Create a modern blog website"}"`);
+    console.log(`Prompt: "${prompt || DEFAULT_WEBSITE_PROMPT}"`);
+    console.log(`Model: ${options.model || "Claude Code default"}, up to ${options.maxTurns} turns`);
     console.log("\nThis may take several minutes...\n");
 
-    const genResult = await sandbox.process.executeCommand(
-      "node generate.js",
-      projectDir,
-      {
-        ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
-        NODE_PATH: `${projectDir}/node_modules`,
-      },
-      600000 // 10 minute timeout
-    );
+    const genResult = await runGenerationJob(sandbox, job, projectDir, options.timeoutMs);
+    if (genResult.transcript) {
+      await saveTranscript(isFollowUp ? "follow-up" : "generate", genResult.transcript);
+    }
 
     console.log("\nGeneration output:");
-    console.log(genResult.result);
+    forwardRunnerOutput(genResult.result, emit);
 
     if (genResult.exitCode !== 0) {
       throw new Error("Generation failed");
@@ -208,66 +230,63 @@ SCRIPT_EOF`,
 
     // Step 8: Check generated files
     console.log("\n8. Checking generated files...");
-    const filesResult = await sandbox.process.executeCommand(
+    const filesResult = await sandbox.exec(
       "ls -la",
       projectDir
     );
     console.log(filesResult.result);
 
-    // Step 9: Install dependencies if package.json was updated
-    const hasNextJS = await sandbox.process.executeCommand(
+    // Steps 9 and 10: Install, serve and type-check the site, letting Claude fix what fails
+    const hasNextJS = await sandbox.exec(
       "test -f package.json && grep -q next package.json && echo yes || echo no",
       projectDir
     );
 
+    let sessionId = genResult.sessionId;
     if (hasNextJS.result?.trim() === "yes") {
-      console.log("\n9. Installing project dependencies...");
-      const npmInstall = await sandbox.process.executeCommand(
-        "npm install",
-        projectDir,
-        undefined,
-        300000 // 5 minute timeout
-      );
+      const verify = (checkName: string, check: () => Promise<ExecResult>) =>
+        verifyWithRepairs({
+          sandbox: sandbox!,
+          cwd: projectDir,
+          kind: "website",
+          generationOptions: options,
+          checkName,
+          check,
+          emit,
+          stages,
+          budget,
+          saveTranscript,
+          sessionId,
+        });
 
-      if (npmInstall.exitCode !== 0) {
-        console.log("Warning: npm install had issues:", npmInstall.result);
-      } else {
-        console.log("✓ Dependencies installed");
+      console.log("\n9. Installing project dependencies...");
+      const installed = await verify("npm install", () => installDependencies(sandbox!, projectDir));
+      sessionId = installed.sessionId;
+      if (!installed.ok) {
+        const repairs = `${installed.attempts} repair attempt${installed.attempts === 1 ? "" : "s"}`;
+        throw new Error(`npm install still failing after ${repairs}`);
       }
 
-      // Step 10: Start dev server in background
-      console.log("\n10. Starting development server in background...");
-
-      // Start the server in background using nohup
-      await sandbox.process.executeCommand(
-        `nohup npm run dev > dev-server.log 2>&1 &`,
-        projectDir,
-        { PORT: "3000" }
-      );
-
-      console.log("✓ Server started in background");
-
-      // Wait a bit for server to initialize
-      console.log("Waiting for server to start...");
-      await new Promise((resolve) => setTimeout(resolve, 8000));
-
-      // Check if server is running
-      const checkServer = await sandbox.process.executeCommand(
-        "curl -s -o /dev/null -w '%{http_code}' http://localhost:3000 || echo 'failed'",
-        projectDir
+      console.log("\n10. Starting development server and checking the site...");
+      const verified = await verify("the dev server and the TypeScript compiler", () =>
+        checkWebsite(sandbox!, projectDir)
       );
-
-      if (checkServer.result?.trim() === '200') {
-        console.log("✓ Server is running!");
-      } else {
-        console.log("⚠️  Server might still be starting...");
+      sessionId = verified.sessionId;
+      const repairs = `${verified.attempts} repair attempt${verified.attempts === 1 ? "" : "s"}`;
+      if (!verified.ok) {
         console.log("You can check logs with: cat dev-server.log");
+        throw new Error(`Website still failing after ${repairs}`);
       }
+      console.log(`✓ Server is running!${verified.attempts > 0 ? ` (after ${repairs})` : ""}`);
     }
 
     // Step 11: Get preview URL
     console.log("\n11. Getting preview URL...");
-    const preview = await sandbox.getPreviewLink(3000);
+    stages.start("preview", "Getting preview URL");
+    const preview = await sandbox.getPreviewLink(sandbox.previewPort);
+    emit({ type: "artifact", kind: "preview", url: preview.url });
+    stages.finish();
+    emit({ type: "complete", sandboxId, previewUrl: preview.url, sessionId });
 
     console.log("\n✨ SUCCESS! Website generated!");
     console.log("\n📊 SUMMARY:");
@@ -292,6 +311,7 @@ SCRIPT_EOF`,
       `- To reuse this sandbox: npx tsx scripts/generate-in-daytona.ts ${sandboxId}`
     );
     console.log(`- To remove: npx tsx scripts/remove-sandbox.ts ${sandboxId}`);
+    console.log("- Idle sandboxes are cleaned up by: npm run sandbox:reap");
 
     return {
       success: true,
@@ -301,6 +321,7 @@ SCRIPT_EOF`,
     };
   } catch (error: any) {
     console.error("\n❌ ERROR:", error.message);
+    stages.fail(error);
 
     if (sandbox) {
       console.log(`\nSandbox ID: ${sandboxId}`);
@@ -308,9 +329,9 @@ SCRIPT_EOF`,
 
       // Try to get debug info
       try {
-        const debugInfo = await sandbox.process.executeCommand(
-          "pwd && echo '---' && ls -la && echo '---' && test -f generate.js && cat generate.js | head -20 || echo 'No script'",
-          `${await sandbox.getUserRootDir()}/website-project`
+        const debugInfo = await sandbox.exec(
+          "pwd && echo '---' && ls -la && echo '---' && cat ../.lovable-runner/job.json 2>/dev/null | head -20 || echo 'No job file'",
+          `${await sandbox.getUserRootDir()}/${WEBSITE_PROJECT_DIR}`
         );
         console.log("\nDebug info:");
         console.log(debugInfo.result);
@@ -325,7 +346,7 @@ SCRIPT_EOF`,
 
 // Main execution
 async function main() {
-  const args = process.argv.slice(2);
+  const { args, followUp, prompt: promptArg } = parseFollowUpArgs(process.argv.slice(2));
   let sandboxId: string | undefined;
   let prompt: string | undefined;
 
@@ -341,6 +362,9 @@ async function main() {
       prompt = args.join(" ");
     }
   }
+  if (promptArg) {
+    prompt = promptArg;
+  }
 
   if (!prompt) {
     prompt =
@@ -355,7 +379,7 @@ async function main() {
   console.log();
 
   try {
-    await generateWebsiteInDaytona(sandboxId, prompt);
+    await generateWebsiteInDaytona(sandboxId, prompt, followUp);
   } catch (error) {
     console.error("Failed to generate website:", error);
     process.exit(1);
@@ -1,263 +1,199 @@
-import { Daytona } from "@daytonaio/sdk";
 import * as dotenv from "dotenv";
 import * as path from "path";
+import {
+  JOB_ID_ENV,
+  createEventEmitter,
+  createStageTracker,
+  forwardRunnerOutput,
+} from "../lib/event-emitter";
+import { DEFAULT_COMPONENT_PROMPT, buildComponentPrompt, buildFollowUpPrompt, withAttachments } from "../lib/prompts";
+import {
+  acquireSandbox,
+  ensureToolchain,
+  getSandboxProvider,
+  parseFollowUpArgs,
+  recordSandbox,
+  requiresDaytonaApiKey,
+  runGenerationJob,
+  stopGenerationOnTermination,
+  uploadAttachments,
+  verifyWithRepairs,
+  type FollowUp,
+  type GenerationJob,
+  type Sandbox,
+} from "../lib/sandbox";
+import { getProcessAttachments } from "../lib/attachments";
+import {
+  COMPONENT_TEMPLATES,
+  COMPONENT_TYPES,
+  REGISTRY_PORT,
+  chooseComponentName,
+  getHostRegistryUrl,
+  getProcessComponentRequest,
+  getRegistryUrl,
+  nextPatchVersion,
+  releaseComponentName,
+  republishComponent,
+  suggestComponentNameWithClaude,
+} from "../lib/components";
+import { getProcessGenerationOptions, toQueryOptions } from "../lib/generation-options";
+import { createBudget } from "../lib/usage";
+import { appendTranscript } from "../lib/jobs/store";
+import type { SDKMessage } from "@anthropic-ai/claude-code";
 
 // Load environment variables
 dotenv.config({ path: path.join(__dirname, "../../.env") });
 
-const REGISTRY_URL = "http://host.docker.internal:3030";
-
 async function generateOpenComponentInDaytona(
   sandboxIdArg?: string,
-  prompt?: string
+  prompt?: string,
+  followUp?: FollowUp
 ) {
-  console.log("🚀 Starting OpenComponent generation in Daytona sandbox...\n");
+  console.log("🚀 Starting OpenComponent generation in sandbox...\n");
 
-  if (!process.env.DAYTONA_API_KEY || !process.env.ANTHROPIC_API_KEY) {
+  if (!process.env.ANTHROPIC_API_KEY || (requiresDaytonaApiKey() && !process.env.DAYTONA_API_KEY)) {
     console.error("ERROR: DAYTONA_API_KEY and ANTHROPIC_API_KEY must be set");
     process.exit(1);
   }
 
-  const daytona = new Daytona({
-    apiKey: process.env.DAYTONA_API_KEY,
-  });
-
-  let sandbox;
+  const options = getProcessGenerationOptions("component");
+  const request = getProcessComponentRequest();
+  const budget = createBudget();
+  const emit = budget.track(createEventEmitter());
+  const stages = createStageTracker(emit);
+  const jobId = process.env[JOB_ID_ENV];
+  // Transcripts are kept with the job, standalone runs have nowhere to keep them
+  const saveTranscript = async (label: string, messages: SDKMessage[]) => {
+    if (jobId) await appendTranscript(jobId, label, messages);
+  };
+
+  let sandbox: Sandbox | undefined;
   let sandboxId = sandboxIdArg;
   let componentName = "";
+  // Set while this run holds a reservation on componentName
+  let reservedName: string | undefined;
+  // Published names are taken in the registry itself from now on
+  const releaseReservedName = async () => {
+    if (reservedName) {
+      await releaseComponentName(reservedName, jobId);
+    }
+  };
+  stopGenerationOnTermination(() => sandbox, releaseReservedName);
 
   try {
     // Step 1: Create or get sandbox
+    stages.start("sandbox", "Preparing sandbox");
+    const provider = getSandboxProvider();
     if (sandboxId) {
       console.log(`1. Using existing sandbox: ${sandboxId}`);
-      const sandboxes = await daytona.list();
-      sandbox = sandboxes.find((s: any) => s.id === sandboxId);
-      if (!sandbox) {
-        throw new Error(`Sandbox ${sandboxId} not found`);
-      }
+      sandbox = await provider.get(sandboxId);
+      await recordSandbox(sandbox.id, provider.name, { purpose: "component", prompt, jobId });
       console.log(`✓ Connected to sandbox: ${sandbox.id}`);
     } else {
-      console.log("1. Creating new Daytona sandbox...");
-      sandbox = await daytona.create({
-        public: true,
-        image: "node:20",
-      });
+      console.log(`1. Acquiring ${provider.name} sandbox...`);
+      sandbox = await acquireSandbox(provider, { purpose: "component", prompt, jobId });
       sandboxId = sandbox.id;
-      console.log(`✓ Sandbox created: ${sandboxId}`);
     }
 
+    emit({ type: "artifact", kind: "sandbox", sandboxId: sandbox.id });
+
     const rootDir = await sandbox.getUserRootDir();
+    const registryUrl = getRegistryUrl(sandbox);
     console.log(`✓ Working directory: ${rootDir}`);
 
     // Step 2: Install OpenComponents CLI and Claude Code SDK
     console.log("\n2. Installing OpenComponents CLI and Claude Code SDK...");
-    
-    // Install OC CLI globally
-    const installOc = await sandbox.process.executeCommand(
-      "npm install -g oc",
-      rootDir,
-      undefined,
-      180000 // 3 minute timeout
-    );
-    
-    if (installOc.exitCode !== 0) {
-      console.error("OC CLI installation failed:", installOc.result);
-      throw new Error("Failed to install OpenComponents CLI");
+    stages.start("toolchain", "Installing OpenComponents CLI and Claude Code SDK");
+    // No-op for sandboxes handed out by the warm pool
+    await ensureToolchain(sandbox);
+
+    // Step 3: Choose a component name that is free in the registry
+    console.log("\n3. Choosing component name...");
+    stages.start("scaffold", "Scaffolding component");
+    let publishedVersion: string | undefined;
+    if (followUp?.componentName) {
+      // Follow-ups keep working on the component of the earlier generation
+      componentName = followUp.componentName;
+    } else {
+      let proposed: string | undefined;
+      if (!request.name && prompt && process.env.COMPONENT_NAMING === "claude") {
+        const suggestion = await suggestComponentNameWithClaude(prompt);
+        if (suggestion.usage) emit(suggestion.usage);
+        proposed = suggestion.name;
+      }
+      ({ name: componentName, publishedVersion } = await chooseComponentName(request, getHostRegistryUrl(), {
+        prompt,
+        proposed,
+        jobId,
+      }));
+      reservedName = componentName;
     }
-    console.log("✓ OpenComponents CLI installed");
-
-    // Install Claude Code SDK locally for generation
-    await sandbox.process.executeCommand(
-      "npm install @anthropic-ai/claude-code@latest",
-      rootDir,
-      undefined,
-      180000
-    );
-    console.log("✓ Claude Code SDK installed");
-
-    // Step 3: Generate component name from prompt
-    console.log("\n3. Generating component name...");
-    const defaultComponentName = prompt
-      ? prompt.toLowerCase()
-          .replace(/[^a-z0-9\s-]/g, '') // Remove special chars
-          .replace(/\s+/g, '-') // Replace spaces with hyphens
-          .substring(0, 30) // Limit length
-          .replace(/^-+|-+$/g, '') // Remove leading/trailing hyphens
-      : "generated-component";
-    
-    componentName = defaultComponentName || "generated-component";
     console.log(`✓ Component name: ${componentName}`);
+    if (publishedVersion) {
+      console.log(`✓ Publishing as a new version of ${componentName} (latest is ${publishedVersion})`);
+    }
 
     // Step 4: Initialize OpenComponent
     console.log("\n4. Initializing OpenComponent structure...");
     const componentDir = `${rootDir}/${componentName}`;
-    
-    const initResult = await sandbox.process.executeCommand(
-      `oc init ${componentName}`,
-      rootDir
-    );
-    
-    if (initResult.exitCode !== 0) {
-      console.log("Init output:", initResult.result);
-      throw new Error("Failed to initialize OpenComponent");
-    }
-    console.log(`✓ Component scaffolded: ${componentDir}`);
-
-    // Step 5: Create the generation script for Claude Code
-    console.log("\n5. Creating Claude Code generation script...");
-
-    const generationScript = `const { query } = require('@anthropic-ai/claude-code');
-const fs = require('fs');
-const path = require('path');
-
-async function generateOpenComponent() {
-  const prompt = \`${prompt || "Create a beautiful, reusable UI component"}
-  
-  IMPORTANT: You are creating an OpenComponent, not a full website. Requirements:
-  
-  1. COMPONENT STRUCTURE: You are working in a directory that already has:
-     - package.json (component metadata - you may need to update dependencies)
-     - view.js (main component rendering - REPLACE this with your component)
-     - server.js (server-side logic - optional, update if needed for data)
-     - public/ directory (for static assets like CSS, images)
-  
-  2. COMPONENT TYPE: Create a ${prompt ? prompt.toLowerCase().includes('data') || prompt.toLowerCase().includes('api') || prompt.toLowerCase().includes('chart') ? 'data-driven' : 'UI' : 'UI'} component that:
-     - Is focused and reusable
-     - Has a single clear purpose
-     - Can be embedded in other applications
-     - ${prompt?.toLowerCase().includes('react') ? 'Uses React' : prompt?.toLowerCase().includes('vue') ? 'Uses Vue' : 'Uses vanilla JavaScript or your preferred framework'}
-  
-  3. FILES TO GENERATE:
-     - view.js: Main component rendering logic (this is what users see)
-     - server.js: Server-side data logic (if component needs data fetching)
-     - package.json: Update with proper dependencies and metadata
-     - public/style.css: Component styles (if needed)
-     - Any other assets in public/ folder
-  
-  4. COMPONENT FEATURES:
-     - Make it visually appealing and modern
-     - Include proper error handling
-     - Make it responsive if it's a UI component
-     - Include reasonable defaults
-     - Add proper documentation in package.json description
-  
-  5. EXAMPLES OF GOOD COMPONENTS:
-     - Button with variants (primary, secondary, etc.)
-     - Card component with customizable content
-     - Data table with sorting
-     - Chart component with API integration
-     - Modal/dialog component
-     - Form input with validation
-     - Navigation menu
-     - Loading spinner/skeleton
-  
-  Focus on creating ONE high-quality, reusable component rather than multiple components.
-  \`;
-
-  console.log('Starting OpenComponent generation with Claude Code...');
-  console.log('Working directory:', process.cwd());
-  console.log('Component:', '${componentName}');
-  
-  const messages = [];
-  const abortController = new AbortController();
-  
-  try {
-    for await (const message of query({
-      prompt: prompt,
-      abortController: abortController,
-      options: {
-        maxTurns: 15,
-        allowedTools: [
-          'Read',
-          'Write',
-          'Edit',
-          'MultiEdit',
-          'Bash',
-          'LS',
-          'Glob',
-          'Grep'
-        ]
-      }
-    })) {
-      messages.push(message);
+    const existing = await sandbox.exec(`test -d ${componentDir} && echo yes || echo no`, rootDir);
+    const isFollowUp = !!followUp && existing.result.trim() === "yes";
+
+    if (isFollowUp) {
+      console.log(`✓ Continuing existing component: ${componentDir}`);
+    } else {
+      const { ocTemplate } = COMPONENT_TEMPLATES[request.template];
+      console.log(`Template: ${ocTemplate}, ${COMPONENT_TYPES[request.type].label} component`);
+      // oc init installs the template's compiler, which takes a while the first time
+      const initResult = await sandbox.exec(
+        `oc init ${componentName} ${ocTemplate}`,
+        rootDir,
+        undefined,
+        300000
+      );
       
-      // Log progress
-      if (message.type === 'text') {
-        console.log('[Claude]:', (message.text || '').substring(0, 80) + '...');
-        console.log('__CLAUDE_MESSAGE__', JSON.stringify({ type: 'assistant', content: message.text }));
-      } else if (message.type === 'tool_use') {
-        console.log('[Tool]:', message.name, message.input?.file_path || '');
-        console.log('__TOOL_USE__', JSON.stringify({ 
-          type: 'tool_use', 
-          name: message.name, 
-          input: message.input 
-        }));
-      } else if (message.type === 'result') {
-        console.log('__TOOL_RESULT__', JSON.stringify({ 
-          type: 'tool_result', 
-          result: message.result 
-        }));
+      if (initResult.exitCode !== 0) {
+        console.log("Init output:", initResult.result);
+        throw new Error("Failed to initialize OpenComponent");
       }
+      console.log(`✓ Component scaffolded: ${componentDir}`);
     }
-    
-    console.log('\\nComponent generation complete!');
-    console.log('Total messages:', messages.length);
-    
-    // Save generation log
-    fs.writeFileSync('generation-log.json', JSON.stringify(messages, null, 2));
-    
-    // List generated files
-    const files = fs.readdirSync('.').filter(f => !f.startsWith('.') && f !== 'node_modules');
-    console.log('\\nComponent files:', files.join(', '));
-    
-    // Check component structure
-    const hasView = fs.existsSync('view.js') || fs.existsSync('view.jsx') || fs.existsSync('view.ts');
-    const hasPackage = fs.existsSync('package.json');
-    
-    console.log('\\nComponent validation:');
-    console.log('- view.js present:', hasView);
-    console.log('- package.json present:', hasPackage);
-    
-    if (!hasView || !hasPackage) {
-      console.error('⚠️ Component structure incomplete!');
-      console.error('OpenComponents require at least view.js and package.json');
-    }
-    
-  } catch (error) {
-    console.error('Generation error:', error);
-    console.error('Stack:', error.stack);
-    process.exit(1);
-  }
-}
 
-generateOpenComponent().catch(console.error);`;
+    // Step 5: Upload the generation job for Claude Code
+    console.log("\n5. Uploading Claude Code generation job...");
+    stages.start("generate", "Generating component with Claude Code");
+    const attachments = await uploadAttachments(sandbox, getProcessAttachments());
+    if (attachments.length > 0) {
+      console.log(`✓ Uploaded ${attachments.length} attached file${attachments.length === 1 ? "" : "s"}`);
+    }
 
-    // Write the generation script
-    await sandbox.process.executeCommand(
-      `cat > generate-component.js << 'SCRIPT_EOF'
-${generationScript}
-SCRIPT_EOF`,
-      componentDir
-    );
-    console.log("✓ Generation script written");
+    const job: GenerationJob = {
+      kind: "component",
+      prompt: withAttachments(
+        isFollowUp ? buildFollowUpPrompt(prompt!, !!followUp?.sessionId) : buildComponentPrompt(prompt, request),
+        attachments
+      ),
+      componentName,
+      budgetUsd: budget.remaining(),
+      options: {
+        ...toQueryOptions(options),
+        resume: isFollowUp ? followUp?.sessionId : undefined,
+      },
+    };
 
     // Step 6: Run Claude Code generation
     console.log("\n6. Running Claude Code generation...");
-    console.log(`Prompt: "${prompt || 'Create a beautiful, reusable UI component'}"`);
+    console.log(`Prompt: "${prompt || DEFAULT_COMPONENT_PROMPT}"`);
+    console.log(`Model: ${options.model || "Claude Code default"}, up to ${options.maxTurns} turns`);
     console.log("\nThis may take several minutes...\n");
 
-    const genResult = await sandbox.process.executeCommand(
-      "node generate-component.js",
-      componentDir,
-      {
-        ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
-        NODE_PATH: `${rootDir}/node_modules`,
-      },
-      600000 // 10 minute timeout
-    );
+    const genResult = await runGenerationJob(sandbox, job, componentDir, options.timeoutMs);
+    if (genResult.transcript) {
+      await saveTranscript(isFollowUp ? "follow-up" : "generate", genResult.transcript);
+    }
 
     console.log("\nGeneration output:");
-    console.log(genResult.result);
+    forwardRunnerOutput(genResult.result, emit);
 
     if (genResult.exitCode !== 0) {
       throw new Error("Component generation failed");
@@ -265,68 +201,103 @@ SCRIPT_EOF`,
 
     // Step 7: Validate component structure
     console.log("\n7. Validating component structure...");
-    const checkFiles = await sandbox.process.executeCommand(
+    const checkFiles = await sandbox.exec(
       "ls -la && echo '---' && cat package.json | head -10",
       componentDir
     );
     console.log(checkFiles.result);
 
-    // Step 8: Build the component
+    // Step 8: Build the component, letting Claude fix build errors
     console.log("\n8. Building OpenComponent...");
-    const buildResult = await sandbox.process.executeCommand(
-      "oc build .",
-      componentDir,
-      undefined,
-      180000 // 3 minute timeout
-    );
-
-    if (buildResult.exitCode !== 0) {
-      console.log("Build output:", buildResult.result);
+    const verified = await verifyWithRepairs({
+      sandbox,
+      cwd: componentDir,
+      kind: "component",
+      componentName,
+      generationOptions: options,
+      checkName: "oc build .",
+      check: () => sandbox!.exec("oc build .", componentDir, undefined, 180000), // 3 minute timeout
+      emit,
+      stages,
+      budget,
+      saveTranscript,
+      sessionId: genResult.sessionId,
+    });
+
+    const repairs = `${verified.attempts} repair attempt${verified.attempts === 1 ? "" : "s"}`;
+    if (!verified.ok) {
       // Try to show more details
-      const debugBuild = await sandbox.process.executeCommand(
+      const debugBuild = await sandbox.exec(
         "oc build . --verbose",
         componentDir
       );
       console.log("Debug build:", debugBuild.result);
-      throw new Error("Component build failed");
+      throw new Error(`Component build failed after ${repairs}`);
     }
-    console.log("✓ Component built successfully");
+    console.log(`✓ Component built successfully${verified.attempts > 0 ? ` after ${repairs}` : ""}`);
 
     // Step 9: Publish to registry
     console.log("\n9. Publishing component to registry...");
-    console.log(`Registry URL: ${REGISTRY_URL}`);
-    
-    const publishResult = await sandbox.process.executeCommand(
-      `oc publish . ${REGISTRY_URL}`,
-      componentDir,
-      undefined,
-      180000 // 3 minute timeout
-    );
+    stages.start("publish", "Publishing component to registry");
+    console.log(`Registry URL: ${registryUrl}`);
 
-    console.log("Publish output:", publishResult.result);
+    if (isFollowUp) {
+      // Published versions are immutable, so every follow-up publishes a new one, numbered like manual edits
+      const version = await republishComponent(sandbox, componentDir, componentName);
+      console.log(`✓ Component published to registry as version ${version}`);
+    } else {
+      if (publishedVersion) {
+        // The user chose to publish over an existing component, so continue after its latest version
+        const bump = await sandbox.exec(
+          `npm version ${nextPatchVersion([publishedVersion])} --no-git-tag-version --allow-same-version`,
+          componentDir
+        );
+        console.log(`✓ Version set to ${bump.result.trim()}`);
+      }
 
-    if (publishResult.exitCode !== 0) {
-      // Check if registry is accessible
-      const checkRegistry = await sandbox.process.executeCommand(
-        `curl -f ${REGISTRY_URL} || echo 'Registry not accessible'`,
-        componentDir
+      const publishResult = await sandbox.exec(
+        `oc publish . ${registryUrl}`,
+        componentDir,
+        undefined,
+        180000 // 3 minute timeout
       );
-      console.log("Registry check:", checkRegistry.result);
-      
-      throw new Error("Component publish failed - check if registry is running");
+
+      console.log("Publish output:", publishResult.result);
+
+      if (publishResult.exitCode !== 0) {
+        // Check if registry is accessible
+        const checkRegistry = await sandbox.exec(
+          `curl -f ${registryUrl} || echo 'Registry not accessible'`,
+          componentDir
+        );
+        console.log("Registry check:", checkRegistry.result);
+        
+        throw new Error("Component publish failed - check if registry is running");
+      }
+      console.log("✓ Component published to registry");
     }
-    console.log("✓ Component published to registry");
 
     // Step 10: Get component info
     console.log("\n10. Getting component information...");
-    const componentUrl = `${REGISTRY_URL}${componentName}`;
+    stages.start("preview", "Checking published component");
+    const componentUrl = `${registryUrl}${componentName}`;
     
     // Test component accessibility
-    const testComponent = await sandbox.process.executeCommand(
+    const testComponent = await sandbox.exec(
       `curl -f "${componentUrl}" -H "Accept: application/json" || echo 'Component not accessible'`,
       componentDir
     );
     console.log("Component test:", testComponent.result);
+    emit({ type: "artifact", kind: "component", name: componentName, url: componentUrl });
+    stages.finish();
+    emit({
+      type: "complete",
+      sandboxId,
+      componentName,
+      componentUrl,
+      previewUrl: componentUrl,
+      sessionId: verified.sessionId,
+    });
 
     console.log("\n✨ SUCCESS! OpenComponent created and published!");
     console.log("\n📊 SUMMARY:");
@@ -334,7 +305,7 @@ SCRIPT_EOF`,
     console.log(`Sandbox ID: ${sandboxId}`);
     console.log(`Component Name: ${componentName}`);
     console.log(`Component Directory: ${componentDir}`);
-    console.log(`Registry URL: ${REGISTRY_URL}`);
+    console.log(`Registry URL: ${registryUrl}`);
     console.log(`Component URL: ${componentUrl}`);
 
     console.log("\n🌐 ACCESS YOUR COMPONENT:");
@@ -351,8 +322,9 @@ SCRIPT_EOF`,
     console.log("- Component is now live and can be consumed by any application");
     console.log("- Registry provides both server-side and client-side rendering");
     console.log("- Component is versioned and immutable");
-    console.log(`- To republish: cd ${componentDir} && oc publish . ${REGISTRY_URL}`);
+    console.log(`- To republish: cd ${componentDir} && oc publish . ${registryUrl}`);
     console.log(`- To remove sandbox: npx tsx scripts/remove-sandbox.ts ${sandboxId}`);
+    console.log("- Idle sandboxes are cleaned up by: npm run sandbox:reap");
 
     return {
       success: true,
@@ -360,11 +332,12 @@ SCRIPT_EOF`,
       componentName: componentName,
       componentDir: componentDir,
       componentUrl: componentUrl,
-      registryUrl: REGISTRY_URL,
+      registryUrl: registryUrl,
     };
 
   } catch (error: any) {
     console.error("\n❌ ERROR:", error.message);
+    stages.fail(error);
 
     if (sandbox) {
       console.log(`\nSandbox ID: ${sandboxId}`);
@@ -372,9 +345,9 @@ SCRIPT_EOF`,
 
       // Try to get debug info
       try {
-        const debugInfo = await sandbox.process.executeCommand(
+        const debugInfo = await sandbox.exec(
           `pwd && echo '---' && ls -la && echo '---' && ls -la ${componentName} 2>/dev/null || echo 'No component dir'`,
-          rootDir
+          await sandbox.getUserRootDir()
         );
         console.log("\nDebug info:");
         console.log(debugInfo.result);
@@ -384,12 +357,14 @@ SCRIPT_EOF`,
     }
 
     throw error;
+  } finally {
+    await releaseReservedName();
   }
 }
 
 // Main execution
 async function main() {
-  const args = process.argv.slice(2);
+  const { args, followUp, prompt: promptArg } = parseFollowUpArgs(process.argv.slice(2));
   let sandboxId: string | undefined;
   let prompt: string | undefined;
 
@@ -405,6 +380,9 @@ async function main() {
       prompt = args.join(" ");
     }
   }
+  if (promptArg) {
+    prompt = promptArg;
+  }
 
   if (!prompt) {
     prompt = "Create a beautiful, modern button component with multiple variants (primary, secondary, outline) and different sizes. Include hover effects and proper accessibility features.";
@@ -412,12 +390,15 @@ async function main() {
 
   console.log("📝 Configuration:");
   console.log(`- Sandbox: ${sandboxId ? `Using existing ${sandboxId}` : "Creating new"}`);
+  if (followUp) {
+    console.log(`- Follow-up of: ${followUp.componentName || "previous generation"}${followUp.sessionId ? ` (session ${followUp.sessionId})` : ""}`);
+  }
   console.log(`- Prompt: ${prompt}`);
-  console.log(`- Registry: ${REGISTRY_URL}`);
+  console.log(`- Registry: ${process.env.OC_REGISTRY_URL || `port ${REGISTRY_PORT} on the host`}`);
   console.log();
 
   try {
-    await generateOpenComponentInDaytona(sandboxId, prompt);
+    await generateOpenComponentInDaytona(sandboxId, prompt, followUp);
   } catch (error) {
     console.error("Failed to generate component:", error);
     process.exit(1);
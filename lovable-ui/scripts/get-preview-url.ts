@@ -1,33 +1,27 @@
-import { Daytona } from "@daytonaio/sdk";
 import * as dotenv from "dotenv";
 import * as path from "path";
+import { getSandboxProvider, requiresDaytonaApiKey } from "../lib/sandbox";
 
 // Load environment variables
 dotenv.config({ path: path.join(__dirname, "../../.env") });
 
-async function getPreviewUrl(sandboxId: string, port: number = 3000) {
-  if (!process.env.DAYTONA_API_KEY) {
+// Without a port, the one the sandbox's dev server listens on
+async function getPreviewUrl(sandboxId: string, port?: number) {
+  if (requiresDaytonaApiKey() && !process.env.DAYTONA_API_KEY) {
     console.error("ERROR: DAYTONA_API_KEY must be set");
     process.exit(1);
   }
 
-  const daytona = new Daytona({
-    apiKey: process.env.DAYTONA_API_KEY,
-  });
+  const provider = getSandboxProvider();
 
   try {
     // Get sandbox
-    const sandboxes = await daytona.list();
-    const sandbox = sandboxes.find((s: any) => s.id === sandboxId);
-    
-    if (!sandbox) {
-      throw new Error(`Sandbox ${sandboxId} not found`);
-    }
+    const sandbox = await provider.get(sandboxId);
 
     console.log(`✓ Found sandbox: ${sandboxId}`);
 
     // Get preview URL
-    const preview = await sandbox.getPreviewLink(port);
+    const preview = await sandbox.getPreviewLink(port || sandbox.previewPort);
     
     console.log("\n🌐 Preview URL:");
     console.log(preview.url);
@@ -46,7 +40,7 @@ async function getPreviewUrl(sandboxId: string, port: number = 3000) {
 // Main execution
 async function main() {
   const sandboxId = process.argv[2];
-  const port = process.argv[3] ? parseInt(process.argv[3]) : 3000;
+  const port = process.argv[3] ? parseInt(process.argv[3]) : undefined;
   
   if (!sandboxId) {
     console.error("Usage: npx tsx scripts/get-preview-url.ts <sandbox-id> [port]");
@@ -1,23 +1,21 @@
-import { Daytona } from "@daytonaio/sdk";
 import * as dotenv from "dotenv";
 import * as path from "path";
+import { getSandboxProvider, requiresDaytonaApiKey } from "../lib/sandbox";
 
 // Load environment variables
 dotenv.config({ path: path.join(__dirname, "../../.env") });
 
 async function removeSandbox(sandboxId: string) {
-  if (!process.env.DAYTONA_API_KEY) {
+  if (requiresDaytonaApiKey() && !process.env.DAYTONA_API_KEY) {
     console.error("ERROR: DAYTONA_API_KEY must be set");
     process.exit(1);
   }
 
-  const daytona = new Daytona({
-    apiKey: process.env.DAYTONA_API_KEY,
-  });
+  const provider = getSandboxProvider();
 
   try {
     console.log(`Removing sandbox: ${sandboxId}...`);
-    await daytona.remove(sandboxId);
+    await provider.remove(sandboxId);
     console.log("✓ Sandbox removed successfully");
   } catch (error: any) {
     console.error("Failed to remove sandbox:", error.message);
@@ -0,0 +1,74 @@
+import * as dotenv from "dotenv";
+import * as path from "path";
+import { SandboxPool, getSandboxProvider, requiresDaytonaApiKey } from "../lib/sandbox";
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, "../../.env") });
+
+async function showStatus(pool: SandboxPool) {
+  const { ready, provisioning } = pool.status();
+
+  console.log("🏊 Sandbox Pool\n");
+  console.log(`Target size: ${pool.size}`);
+  console.log(`Ready: ${ready.length}`);
+  console.log(`Provisioning: ${provisioning.length}`);
+
+  if (ready.length > 0) {
+    console.log("\nReady sandboxes:");
+    for (const entry of ready) {
+      console.log(`- ${entry.id} (toolchain v${entry.toolchainVersion}, ready since ${entry.readyAt})`);
+    }
+  }
+}
+
+async function fillPool(pool: SandboxPool, target: number) {
+  console.log(`🔥 Warming sandbox pool to ${target} sandbox${target === 1 ? "" : "es"}...\n`);
+  const added = await pool.fill(target);
+  console.log(`\n✓ Added ${added.length} sandbox${added.length === 1 ? "" : "es"} to the pool`);
+}
+
+async function drainPool(pool: SandboxPool) {
+  console.log("🧹 Draining sandbox pool...\n");
+  const removed = await pool.drain();
+  for (const id of removed) {
+    console.log(`✓ Removed ${id}`);
+  }
+  console.log(`\n✓ Pool drained (${removed.length} removed)`);
+}
+
+// Main execution
+async function main() {
+  const command = process.argv[2] || "status";
+
+  if (requiresDaytonaApiKey() && !process.env.DAYTONA_API_KEY) {
+    console.error("ERROR: DAYTONA_API_KEY must be set");
+    process.exit(1);
+  }
+
+  const pool = new SandboxPool(getSandboxProvider());
+
+  try {
+    switch (command) {
+      case "status":
+        await showStatus(pool);
+        break;
+      case "fill": {
+        const target = process.argv[3] ? parseInt(process.argv[3]) : pool.size;
+        await fillPool(pool, target);
+        break;
+      }
+      case "drain":
+        await drainPool(pool);
+        break;
+      default:
+        console.error("Usage: npx tsx scripts/sandbox-pool.ts <status|fill|drain> [size]");
+        console.error("Example: npx tsx scripts/sandbox-pool.ts fill 3");
+        process.exit(1);
+    }
+  } catch (error: any) {
+    console.error("Sandbox pool command failed:", error.message);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,193 @@
+import * as dotenv from "dotenv";
+import * as path from "path";
+import {
+  getSandboxProvider,
+  getSandboxRecord,
+  getSandboxTtlMs,
+  isIdle,
+  listSandboxRecords,
+  markSandboxRemoved,
+  reapIdleSandboxes,
+  requiresDaytonaApiKey,
+  type SandboxProvider,
+  type SandboxRecord,
+} from "../lib/sandbox";
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, "../../.env") });
+
+function formatAge(timestamp: string) {
+  const minutes = Math.floor((Date.now() - Date.parse(timestamp)) / 60000);
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h ago`;
+  return `${Math.floor(minutes / (60 * 24))}d ago`;
+}
+
+function getFlag(args: string[], name: string) {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+function printRecord(record: SandboxRecord, ttlMs: number) {
+  const idle = isIdle(record, ttlMs) ? " ⏰ idle" : "";
+  console.log(`🔧 ${record.id} [${record.status}]${idle}`);
+  console.log(`   Purpose: ${record.purpose || "unknown"}`);
+  if (record.prompt) {
+    const prompt = record.prompt.length > 70 ? `${record.prompt.substring(0, 70)}...` : record.prompt;
+    console.log(`   Prompt: ${prompt}`);
+  }
+  if (record.jobId) {
+    console.log(`   Job: ${record.jobId}`);
+  }
+  console.log(`   Created: ${formatAge(record.createdAt)}, last activity: ${formatAge(record.lastActivityAt)}`);
+}
+
+async function listSandboxes(provider: SandboxProvider, showAll: boolean) {
+  const ttlMs = getSandboxTtlMs();
+  const records = listSandboxRecords().filter(
+    (record) => record.provider === provider.name && (showAll || record.status !== "removed")
+  );
+  const live = await provider.list();
+  const untracked = live.filter((sandbox) => !getSandboxRecord(sandbox.id));
+
+  console.log(`📦 Sandboxes (${provider.name})\n`);
+
+  if (records.length === 0 && untracked.length === 0) {
+    console.log("📭 No sandboxes found");
+    return;
+  }
+
+  for (const record of records) {
+    printRecord(record, ttlMs);
+    console.log();
+  }
+
+  if (untracked.length > 0) {
+    console.log(`⚠️  ${untracked.length} sandbox${untracked.length === 1 ? "" : "es"} not in the inventory:`);
+    for (const sandbox of untracked) {
+      console.log(`- ${sandbox.id}${sandbox.createdAt ? ` (created ${formatAge(sandbox.createdAt)})` : ""}`);
+    }
+    console.log("\nRemove them with: npx tsx scripts/sandboxes.ts remove --untracked");
+  }
+}
+
+async function inspectSandbox(provider: SandboxProvider, sandboxId: string) {
+  const record = getSandboxRecord(sandboxId);
+  const live = (await provider.list()).find((sandbox) => sandbox.id === sandboxId);
+
+  if (!record && !live) {
+    throw new Error(`Sandbox ${sandboxId} not found`);
+  }
+
+  console.log(JSON.stringify({ inventory: record || null, provider: live || null }, null, 2));
+}
+
+async function removeSandboxes(provider: SandboxProvider, args: string[]) {
+  let ids: string[];
+
+  if (args.includes("--untracked")) {
+    ids = (await provider.list()).filter((sandbox) => !getSandboxRecord(sandbox.id)).map((sandbox) => sandbox.id);
+  } else if (getFlag(args, "--idle")) {
+    const ttlMs = parseFloat(getFlag(args, "--idle")!) * 60 * 1000;
+    ids = listSandboxRecords()
+      .filter((record) => record.provider === provider.name && isIdle(record, ttlMs))
+      .map((record) => record.id);
+  } else {
+    ids = args.filter((arg) => !arg.startsWith("--"));
+  }
+
+  if (ids.length === 0) {
+    console.log("✅ Nothing to remove");
+    return;
+  }
+
+  let failed = 0;
+  for (const id of ids) {
+    try {
+      await provider.remove(id);
+      console.log(`✓ Removed ${id}`);
+    } catch (error: any) {
+      if (/not found/i.test(error.message)) {
+        // Already gone, just fix up the inventory
+        await markSandboxRemoved(id);
+        console.log(`✓ ${id} was already removed`);
+      } else {
+        failed++;
+        console.error(`Failed to remove ${id}:`, error.message);
+      }
+    }
+  }
+
+  if (failed > 0) {
+    throw new Error(`${failed} sandbox${failed === 1 ? "" : "es"} could not be removed`);
+  }
+}
+
+async function reap(provider: SandboxProvider, args: string[]) {
+  const ttlMs = getFlag(args, "--ttl") ? parseFloat(getFlag(args, "--ttl")!) * 60 * 1000 : getSandboxTtlMs();
+  const dryRun = args.includes("--dry-run");
+  const watchMinutes = getFlag(args, "--watch") ? parseFloat(getFlag(args, "--watch")!) : 0;
+
+  const runOnce = async () => {
+    console.log(`🧹 Reaping sandboxes idle for more than ${ttlMs / 60000} minutes...`);
+    const reaped = await reapIdleSandboxes(provider, ttlMs, { dryRun });
+    console.log(`✓ ${dryRun ? "Would reap" : "Reaped"} ${reaped.length} sandbox${reaped.length === 1 ? "" : "es"}\n`);
+  };
+
+  await runOnce();
+
+  if (watchMinutes > 0) {
+    console.log(`👀 Checking again every ${watchMinutes} minutes (press Ctrl+C to exit)...`);
+    setInterval(() => {
+      runOnce().catch((error) => console.error("Reap failed:", error.message));
+    }, watchMinutes * 60 * 1000);
+  }
+}
+
+// Main execution
+async function main() {
+  const [command = "list", ...args] = process.argv.slice(2);
+
+  if (requiresDaytonaApiKey() && !process.env.DAYTONA_API_KEY) {
+    console.error("ERROR: DAYTONA_API_KEY must be set");
+    process.exit(1);
+  }
+
+  const provider = getSandboxProvider();
+
+  try {
+    switch (command) {
+      case "list":
+        await listSandboxes(provider, args.includes("--all"));
+        break;
+      case "inspect":
+        if (!args[0]) {
+          throw new Error("Usage: npx tsx scripts/sandboxes.ts inspect <sandbox-id>");
+        }
+        await inspectSandbox(provider, args[0]);
+        break;
+      case "remove":
+        await removeSandboxes(provider, args);
+        break;
+      case "reap":
+        await reap(provider, args);
+        break;
+      default:
+        console.error("Usage: npx tsx scripts/sandboxes.ts <command>");
+        console.error("");
+        console.error("Commands:");
+        console.error("  list [--all]                          List tracked and untracked sandboxes");
+        console.error("  inspect <sandbox-id>                  Show inventory and provider details");
+        console.error("  remove <id...> | --idle <minutes> | --untracked");
+        console.error("                                        Remove sandboxes in bulk");
+        console.error("  reap [--ttl <minutes>] [--dry-run] [--watch <minutes>]");
+        console.error("                                        Remove sandboxes idle for longer than the TTL");
+        process.exit(1);
+    }
+  } catch (error: any) {
+    console.error("Sandbox command failed:", error.message);
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,28 +1,21 @@
-import { Daytona } from "@daytonaio/sdk";
 import * as dotenv from "dotenv";
 import * as path from "path";
+import { getSandboxProvider, requiresDaytonaApiKey } from "../lib/sandbox";
 
 // Load environment variables
 dotenv.config({ path: path.join(__dirname, "../../.env") });
 
 async function startDevServer(sandboxId: string, projectPath: string = "website-project") {
-  if (!process.env.DAYTONA_API_KEY) {
+  if (requiresDaytonaApiKey() && !process.env.DAYTONA_API_KEY) {
     console.error("ERROR: DAYTONA_API_KEY must be set");
     process.exit(1);
   }
 
-  const daytona = new Daytona({
-    apiKey: process.env.DAYTONA_API_KEY,
-  });
+  const provider = getSandboxProvider();
 
   try {
     // Get sandbox
-    const sandboxes = await daytona.list();
-    const sandbox = sandboxes.find((s: any) => s.id === sandboxId);
-    
-    if (!sandbox) {
-      throw new Error(`Sandbox ${sandboxId} not found`);
-    }
+    const sandbox = await provider.get(sandboxId);
 
     console.log(`✓ Found sandbox: ${sandboxId}`);
     
@@ -30,7 +23,7 @@ async function startDevServer(sandboxId: string, projectPath: string = "website-
     const projectDir = `${rootDir}/${projectPath}`;
     
     // Check if project exists
-    const checkProject = await sandbox.process.executeCommand(
+    const checkProject = await sandbox.exec(
       `test -d ${projectPath} && echo "exists" || echo "not found"`,
       rootDir
     );
@@ -41,17 +34,17 @@ async function startDevServer(sandboxId: string, projectPath: string = "website-
     
     // Kill any existing dev server
     console.log("Stopping any existing dev server...");
-    await sandbox.process.executeCommand(
+    await sandbox.exec(
       "pkill -f 'npm run dev' || true",
       projectDir
     );
     
     // Start dev server in background
     console.log("Starting development server...");
-    await sandbox.process.executeCommand(
+    await sandbox.exec(
       `nohup npm run dev > dev-server.log 2>&1 &`,
       projectDir,
-      { PORT: "3000" }
+      { PORT: String(sandbox.previewPort) }
     );
     
     console.log("✓ Server started in background");
@@ -61,8 +54,8 @@ async function startDevServer(sandboxId: string, projectPath: string = "website-
     await new Promise((resolve) => setTimeout(resolve, 8000));
     
     // Check if server is running
-    const checkServer = await sandbox.process.executeCommand(
-      "curl -s -o /dev/null -w '%{http_code}' http://localhost:3000 || echo 'failed'",
+    const checkServer = await sandbox.exec(
+      `curl -s -o /dev/null -w '%{http_code}' http://localhost:${sandbox.previewPort} || echo 'failed'`,
       projectDir
     );
     
@@ -70,7 +63,7 @@ async function startDevServer(sandboxId: string, projectPath: string = "website-
       console.log("✓ Server is running!");
       
       // Get preview URL
-      const preview = await sandbox.getPreviewLink(3000);
+      const preview = await sandbox.getPreviewLink(sandbox.previewPort);
       console.log("\n🌐 Preview URL:");
       console.log(preview.url);
       
@@ -1,31 +1,29 @@
-import { Daytona } from "@daytonaio/sdk";
 import * as dotenv from "dotenv";
 import * as path from "path";
+import { getSandboxProvider, requiresDaytonaApiKey } from "../lib/sandbox";
 
 // Load environment variables
 dotenv.config({ path: path.join(__dirname, "../../.env") });
 
 async function testPreviewUrl() {
-  console.log("Testing Daytona Preview URL functionality...\n");
+  console.log("Testing sandbox Preview URL functionality...\n");
 
-  if (!process.env.DAYTONA_API_KEY) {
+  if (requiresDaytonaApiKey() && !process.env.DAYTONA_API_KEY) {
     console.error("ERROR: DAYTONA_API_KEY is not set");
     process.exit(1);
   }
 
-  const daytona = new Daytona({
-    apiKey: process.env.DAYTONA_API_KEY,
-  });
+  const provider = getSandboxProvider();
 
   try {
     console.log("1. Creating sandbox...");
-    const sandbox = await daytona.create({
+    const sandbox = await provider.create({
       public: true, // Make it publicly accessible
     });
     console.log(`✓ Sandbox created: ${sandbox.id}`);
 
     console.log("\n2. Creating NextJS app...");
-    await sandbox.process.executeCommand(
+    await sandbox.exec(
       "npx create-next-app@latest my-app --typescript --tailwind --app --no-git --yes"
     );
     console.log("✓ NextJS app created");
@@ -44,7 +42,7 @@ async function testPreviewUrl() {
   );
 }`;
 
-    await sandbox.process.executeCommand(`
+    await sandbox.exec(`
       cd my-app && 
       mkdir -p app/preview && 
       echo '${customPage.replace(/'/g, "'\"'\"'")}' > app/preview/page.tsx
@@ -52,13 +50,15 @@ async function testPreviewUrl() {
     console.log("✓ Custom page created at /preview");
 
     console.log("\n4. Installing dependencies...");
-    await sandbox.process.executeCommand("cd my-app && npm install");
+    await sandbox.exec("cd my-app && npm install");
     console.log("✓ Dependencies installed");
 
     console.log("\n5. Starting dev server...");
     // Start server in background
-    await sandbox.process.executeCommand(
-      "cd my-app && nohup npm run dev > /tmp/server.log 2>&1 &"
+    await sandbox.exec(
+      "cd my-app && nohup npm run dev > /tmp/server.log 2>&1 &",
+      undefined,
+      { PORT: String(sandbox.previewPort) }
     );
     
     // Give server time to start
@@ -66,13 +66,13 @@ async function testPreviewUrl() {
     await new Promise(resolve => setTimeout(resolve, 10000));
 
     // Verify server is running
-    const checkServer = await sandbox.process.executeCommand("curl -s -o /dev/null -w '%{http_code}' http://localhost:3000");
+    const checkServer = await sandbox.exec(`curl -s -o /dev/null -w '%{http_code}' http://localhost:${sandbox.previewPort}`);
     console.log(`✓ Server status: ${checkServer.result}`);
 
     console.log("\n6. Getting preview URL using getPreviewLink()...");
     
     // THIS IS THE KEY PART - Using getPreviewLink()
-    const previewInfo = await sandbox.getPreviewLink(3000);
+    const previewInfo = await sandbox.getPreviewLink(sandbox.previewPort);
     
     console.log("\n🎯 PREVIEW INFORMATION:");
     console.log("=======================");
@@ -98,7 +98,7 @@ async function testPreviewUrl() {
     console.log("\n📊 Monitoring server (press Ctrl+C to exit)...");
     setInterval(async () => {
       try {
-        const status = await sandbox.process.executeCommand("ps aux | grep 'next dev' | grep -v grep | wc -l");
+        const status = await sandbox.exec("ps aux | grep 'next dev' | grep -v grep | wc -l");
         const timestamp = new Date().toLocaleTimeString();
         process.stdout.write(`\r[${timestamp}] Server processes: ${status.result?.trim()}`);
       } catch (e) {
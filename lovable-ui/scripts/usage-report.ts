@@ -0,0 +1,165 @@
+import * as dotenv from "dotenv";
+import * as path from "path";
+import { getJob, jobDay, listJobs, readJobEvents, today, type Job } from "../lib/jobs";
+import { addUsage, emptyUsage, formatCost, getBudgets, type Usage } from "../lib/usage";
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, "../../.env") });
+
+interface Row {
+  label: string;
+  jobs: number;
+  usage: Usage;
+}
+
+function getFlag(args: string[], name: string) {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+function formatTokens(usage: Usage) {
+  const tokens = usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheCreationTokens;
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+function groupBy(jobs: Job[], key: (job: Job) => string): Row[] {
+  const rows = new Map<string, Row>();
+  for (const job of jobs) {
+    const label = key(job);
+    const row = rows.get(label) || { label, jobs: 0, usage: emptyUsage() };
+    row.jobs++;
+    row.usage = addUsage(row.usage, job.usage || emptyUsage());
+    rows.set(label, row);
+  }
+  return Array.from(rows.values());
+}
+
+function printRows(title: string, rows: Row[]) {
+  console.log(`\n${title}`);
+  if (rows.length === 0) {
+    console.log("   (none)");
+    return;
+  }
+  for (const row of rows) {
+    console.log(
+      `   ${row.label.padEnd(32)} ${formatCost(row.usage.costUsd).padStart(10)}  ` +
+        `${formatTokens(row.usage).padStart(8)} tokens  ${row.jobs} job${row.jobs === 1 ? "" : "s"}`
+    );
+  }
+}
+
+function componentOf(job: Job) {
+  return job.result?.componentName || job.resumeFrom?.componentName;
+}
+
+function report(args: string[]) {
+  const days = parseInt(getFlag(args, "--days") || "7") || 7;
+  const since = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const jobs = listJobs().filter((job) => job.usage && jobDay(job) >= since);
+
+  if (args.includes("--json")) {
+    const rows = jobs.map((job) => ({
+      id: job.id,
+      kind: job.kind,
+      status: job.status,
+      day: jobDay(job),
+      component: componentOf(job),
+      usage: job.usage,
+    }));
+    console.log(JSON.stringify(rows, null, 2));
+    return;
+  }
+
+  const total = jobs.reduce((sum, job) => addUsage(sum, job.usage!), emptyUsage());
+  console.log(`💰 Usage since ${since}: ${formatCost(total.costUsd)} across ${jobs.length} job${jobs.length === 1 ? "" : "s"}`);
+  console.log(
+    `   Tokens: ${total.inputTokens} input, ${total.outputTokens} output, ` +
+      `${total.cacheReadTokens} cache read, ${total.cacheCreationTokens} cache write`
+  );
+
+  const budgets = getBudgets();
+  if (budgets.daily !== undefined || budgets.job !== undefined) {
+    const spentToday = jobs.filter((job) => jobDay(job) === today()).reduce((sum, job) => sum + job.usage!.costUsd, 0);
+    console.log(
+      `   Budgets: ${budgets.job !== undefined ? formatCost(budgets.job) : "unlimited"} per job, ` +
+        `${budgets.daily !== undefined ? `${formatCost(spentToday)} of ${formatCost(budgets.daily)}` : "unlimited"} today`
+    );
+  }
+
+  printRows("📅 By day", groupBy(jobs, jobDay).sort((a, b) => b.label.localeCompare(a.label)));
+  printRows("🧩 By kind", groupBy(jobs, (job) => job.kind));
+  printRows(
+    "📦 By component",
+    groupBy(jobs.filter(componentOf), (job) => componentOf(job)!).sort((a, b) => b.usage.costUsd - a.usage.costUsd)
+  );
+
+  if (args.includes("--jobs")) {
+    console.log("\n🔧 Jobs");
+    for (const job of [...jobs].sort((a, b) => b.usage!.costUsd - a.usage!.costUsd)) {
+      const prompt = job.prompt.length > 50 ? `${job.prompt.substring(0, 50)}...` : job.prompt;
+      console.log(`   ${job.id} [${job.status}] ${formatCost(job.usage!.costUsd).padStart(10)}  ${prompt}`);
+    }
+  }
+}
+
+function reportJob(jobId: string) {
+  const job = getJob(jobId);
+  if (!job) {
+    throw new Error(`Job ${jobId} not found`);
+  }
+
+  console.log(`🔧 Job ${job.id} (${job.kind}, ${job.status})`);
+  console.log(`   Prompt: ${job.prompt}`);
+  if (componentOf(job)) {
+    console.log(`   Component: ${componentOf(job)}`);
+  }
+
+  let run = 0;
+  for (const { event } of readJobEvents(job.id)) {
+    if (event.type !== "usage") continue;
+    run++;
+    const details = [
+      `${event.inputTokens} in`,
+      `${event.outputTokens} out`,
+      `${event.cacheReadTokens} cache read`,
+      `${event.cacheCreationTokens} cache write`,
+    ];
+    if (event.numTurns !== undefined) details.push(`${event.numTurns} turns`);
+    if (event.durationMs !== undefined) details.push(`${Math.round(event.durationMs / 1000)}s`);
+    console.log(
+      `   Run ${run}: ${formatCost(event.costUsd)}${event.estimated ? " (estimated)" : ""} - ${details.join(", ")}`
+    );
+  }
+  console.log(`   Total: ${formatCost(job.usage?.costUsd || 0)}`);
+}
+
+// Main execution
+function main() {
+  const [command = "summary", ...args] = process.argv.slice(2);
+
+  try {
+    switch (command) {
+      case "summary":
+        report(args);
+        break;
+      case "job":
+        if (!args[0]) {
+          throw new Error("Usage: npx tsx scripts/usage-report.ts job <job-id>");
+        }
+        reportJob(args[0]);
+        break;
+      default:
+        console.error("Usage: npx tsx scripts/usage-report.ts <command>");
+        console.error("");
+        console.error("Commands:");
+        console.error("  summary [--days <n>] [--jobs] [--json]  Spending by day, kind and component (default 7 days)");
+        console.error("  job <job-id>                            Usage of each Claude Code run of a job");
+        process.exit(1);
+    }
+  } catch (error: any) {
+    console.error("Usage report failed:", error.message);
+    process.exit(1);
+  }
+}
+
+main();